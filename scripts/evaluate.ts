@@ -0,0 +1,136 @@
+// Runs an offline evaluation and prints its metrics.
+//
+//   npm run eval -- --dataset sample
+//   npm run eval -- --file ./my-dataset.json --target search-agent --search-type keyword
+//   npm run eval -- --dataset sample --compare previous
+//
+// Options:
+//   --dataset <name>       evaluation/datasets/<name>.json
+//   --file <path>          dataset file anywhere on disk
+//   --target <target>      rag-pipeline (default) | search-agent
+//   --collection <name>    collection to evaluate when the dataset has no documents
+//   --k <list>             cut-offs for recall@k and nDCG@k (default 1,3,5,10)
+//   --search-type <type>   vector | keyword | hybrid (search-agent only)
+//   --reranker <type>      lexical | none (rag-pipeline only)
+//   --label <text>         stored with the run
+//   --compare <run id>     diff against an earlier run; "previous" picks the
+//                          latest earlier run of the same dataset
+//   --json                 print the run (and comparison) as JSON
+import { parseArgs } from 'util';
+import { DatasetError, loadDataset, loadNamedDataset } from '@/lib/evaluation/dataset';
+import {
+  EvaluationError,
+  EvaluationRun,
+  EvaluationSearchType,
+  EvaluationTarget,
+  RunComparison,
+  evaluator
+} from '@/lib/evaluation/evaluator';
+import { RerankerType } from '@/lib/rag/rerankers';
+
+function formatValue(value: number | null): string {
+  return value === null ? '-' : value.toFixed(3);
+}
+
+function formatDelta(delta: number | null): string {
+  if (delta === null) return '';
+  return `${delta >= 0 ? '+' : ''}${delta.toFixed(3)}`;
+}
+
+function printRun(run: EvaluationRun): void {
+  console.log(`Run ${run.id}${run.label ? ` (${run.label})` : ''}`);
+  console.log(`Dataset ${run.dataset.name}: ${run.dataset.questions} questions, target ${run.config.target}, ` +
+    `collection ${run.config.collection ?? '(dataset corpus)'}, model ${run.config.embedding_model}`);
+  console.log('');
+
+  for (const [name, value] of Object.entries(run.metrics)) {
+    console.log(`  ${name.padEnd(20)} ${formatValue(value)}`);
+  }
+
+  console.log('');
+  console.log(`${run.failed_questions} failed questions, ${run.duration_ms} ms`);
+  for (const result of run.results.filter(result => result.error)) {
+    console.log(`  ${result.question_id}: ${result.error}`);
+  }
+}
+
+function printComparison(comparison: RunComparison): void {
+  console.log('');
+  console.log(`Compared with ${comparison.base.id}${comparison.base.label ? ` (${comparison.base.label})` : ''}`);
+  for (const [name, change] of Object.entries(comparison.metrics)) {
+    console.log(`  ${name.padEnd(20)} ${formatValue(change.base)} -> ${formatValue(change.candidate)}  ${formatDelta(change.delta)}`);
+  }
+
+  if (comparison.questions.length > 0) {
+    console.log('');
+    console.log('Changed questions (largest drop first):');
+    for (const question of comparison.questions) {
+      const changes = Object.entries(question.changes)
+        .map(([name, change]) => `${name} ${formatDelta(change.delta)}`)
+        .join(', ');
+      console.log(`  ${question.question_id}: ${changes}`);
+    }
+  }
+}
+
+async function main(): Promise<void> {
+  const { values } = parseArgs({
+    options: {
+      dataset: { type: 'string' },
+      file: { type: 'string' },
+      target: { type: 'string' },
+      collection: { type: 'string' },
+      k: { type: 'string' },
+      'search-type': { type: 'string' },
+      reranker: { type: 'string' },
+      label: { type: 'string' },
+      compare: { type: 'string' },
+      json: { type: 'boolean', default: false }
+    }
+  });
+
+  if (!values.dataset && !values.file) {
+    throw new DatasetError('Pass --dataset <name> or --file <path>');
+  }
+
+  const dataset = values.file ? await loadDataset(values.file) : await loadNamedDataset(values.dataset!);
+  // Runs of this dataset made before this one, most recent first
+  const earlierRuns = values.compare === 'previous' ? await evaluator.listRuns(dataset.name) : [];
+
+  const run = await evaluator.run(dataset, {
+    target: values.target as EvaluationTarget | undefined,
+    collection: values.collection,
+    k: values.k ? values.k.split(',').map(value => Number(value.trim())) : undefined,
+    searchType: values['search-type'] as EvaluationSearchType | undefined,
+    reranker: values.reranker as RerankerType | undefined,
+    label: values.label
+  });
+
+  let comparison: RunComparison | undefined;
+  if (values.compare) {
+    const baseId = values.compare === 'previous' ? earlierRuns[0]?.id : values.compare;
+    if (baseId) {
+      comparison = await evaluator.compare(baseId, run.id);
+    } else {
+      console.error(`No earlier run of dataset "${dataset.name}" to compare with`);
+    }
+  }
+
+  if (values.json) {
+    console.log(JSON.stringify(comparison ? { run, comparison } : run, null, 2));
+  } else {
+    printRun(run);
+    if (comparison) printComparison(comparison);
+  }
+}
+
+main()
+  .then(() => process.exit(0))
+  .catch(error => {
+    if (error instanceof DatasetError || error instanceof EvaluationError) {
+      console.error(error.message);
+    } else {
+      console.error('Evaluation failed:', error);
+    }
+    process.exit(1);
+  });
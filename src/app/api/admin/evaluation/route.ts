@@ -0,0 +1,135 @@
+import { NextRequest, NextResponse } from "next/server";
+import { CollectionError } from '@/lib/rag/collections';
+import { DatasetError, listDatasets, loadNamedDataset, validateDataset } from '@/lib/evaluation/dataset';
+import { EvaluationError, evaluator } from '@/lib/evaluation/evaluator';
+
+// List runs (?dataset=<name> to filter) and available datasets, fetch one
+// run with ?run_id=<id>, or compare two with ?base=<id>&candidate=<id>
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const runId = searchParams.get('run_id');
+    const base = searchParams.get('base');
+    const candidate = searchParams.get('candidate');
+
+    if (runId) {
+      const run = await evaluator.getRun(runId);
+      if (!run) {
+        return NextResponse.json(
+          { error: "Evaluation run not found" },
+          { status: 404 }
+        );
+      }
+      return NextResponse.json(run);
+    }
+
+    if (base || candidate) {
+      if (!base || !candidate) {
+        return NextResponse.json(
+          { error: "Both base and candidate run ids are required" },
+          { status: 400 }
+        );
+      }
+      return NextResponse.json(await evaluator.compare(base, candidate));
+    }
+
+    return NextResponse.json({
+      runs: await evaluator.listRuns(searchParams.get('dataset') || undefined),
+      datasets: await listDatasets()
+    });
+
+  } catch (error) {
+    if (error instanceof EvaluationError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 404 }
+      );
+    }
+
+    console.error('Evaluation API error:', error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+// Run an evaluation on a stored dataset ({ dataset_name }) or one sent inline
+// ({ dataset }); the run is stored and returned
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const { dataset_name, dataset, target, collection, k, search_type, reranker, label } = body || {};
+
+    if (!dataset_name && !dataset) {
+      return NextResponse.json(
+        { error: "dataset_name or dataset is required" },
+        { status: 400 }
+      );
+    }
+
+    const golden = dataset ? validateDataset(dataset) : await loadNamedDataset(dataset_name);
+    const run = await evaluator.run(golden, {
+      target,
+      collection,
+      k,
+      searchType: search_type,
+      reranker,
+      label
+    });
+
+    return NextResponse.json(run, { status: 201 });
+
+  } catch (error) {
+    if (error instanceof DatasetError || error instanceof EvaluationError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 400 }
+      );
+    }
+    if (error instanceof CollectionError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 404 }
+      );
+    }
+
+    console.error('Evaluation API error:', error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(request: NextRequest) {
+  try {
+    const runId = new URL(request.url).searchParams.get('run_id');
+
+    if (!runId) {
+      return NextResponse.json(
+        { error: "run_id is required" },
+        { status: 400 }
+      );
+    }
+
+    if (!await evaluator.deleteRun(runId)) {
+      return NextResponse.json(
+        { error: "Evaluation run not found" },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      message: "Evaluation run deleted successfully",
+      id: runId
+    });
+
+  } catch (error) {
+    console.error('Evaluation API error:', error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,110 @@
+import { NextRequest, NextResponse } from "next/server";
+import { CollectionError, collectionManager } from '@/lib/rag/collections';
+import { SnapshotError, SnapshotFormat, SnapshotImportMode, snapshotService } from '@/lib/rag/snapshot';
+
+const CONTENT_TYPES: Record<SnapshotFormat, string> = {
+  jsonl: 'application/x-ndjson',
+  binary: 'application/octet-stream'
+};
+
+// Download a snapshot of a collection: ?collection=<name>&format=jsonl|binary
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const format = (searchParams.get('format') || 'jsonl') as SnapshotFormat;
+
+    if (!Object.hasOwn(CONTENT_TYPES, format)) {
+      return NextResponse.json(
+        { error: "format must be 'jsonl' or 'binary'" },
+        { status: 400 }
+      );
+    }
+
+    const collection = await collectionManager.get(searchParams.get('collection') || undefined);
+    const snapshot = await snapshotService.export(collection);
+    const data = snapshotService.serialize(snapshot, format);
+
+    const timestamp = snapshot.header.created_at.replace(/[:.]/g, '-');
+    const extension = format === 'binary' ? 'kbsnap' : 'jsonl';
+
+    return new NextResponse(new Uint8Array(data), {
+      headers: {
+        'Content-Type': CONTENT_TYPES[format],
+        'Content-Disposition': `attachment; filename="${collection.config.name}-${timestamp}.${extension}"`,
+        'X-Snapshot-Documents': String(snapshot.header.document_count),
+        'X-Snapshot-Chunks': String(snapshot.header.chunk_count)
+      }
+    });
+
+  } catch (error) {
+    if (error instanceof CollectionError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 404 }
+      );
+    }
+
+    console.error('Snapshot export error:', error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+// Restore a snapshot sent as the raw request body (either format):
+// ?collection=<name>&mode=merge|replace. Merge keeps documents missing from
+// the snapshot; replace removes them first.
+export async function POST(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const mode = (searchParams.get('mode') || 'merge') as SnapshotImportMode;
+
+    if (!['merge', 'replace'].includes(mode)) {
+      return NextResponse.json(
+        { error: "mode must be 'merge' or 'replace'" },
+        { status: 400 }
+      );
+    }
+
+    const collection = await collectionManager.get(searchParams.get('collection') || undefined);
+    const data = Buffer.from(await request.arrayBuffer());
+    if (data.length === 0) {
+      return NextResponse.json(
+        { error: "Snapshot data is required in the request body" },
+        { status: 400 }
+      );
+    }
+
+    // Checksum and structure are verified before anything is written
+    const snapshot = snapshotService.parse(data);
+    const result = await snapshotService.import(collection, snapshot, mode);
+
+    return NextResponse.json({
+      collection: collection.config.name,
+      source_collection: snapshot.header.collection,
+      snapshot_created_at: snapshot.header.created_at,
+      ...result
+    }, { status: result.failed.length > 0 ? 207 : 200 });
+
+  } catch (error) {
+    if (error instanceof CollectionError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 404 }
+      );
+    }
+    if (error instanceof SnapshotError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 400 }
+      );
+    }
+
+    console.error('Snapshot import error:', error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -1,7 +1,17 @@
 import { NextRequest, NextResponse } from "next/server";
 import ZAI from 'z-ai-web-dev-sdk';
+import { CitationCheck, CitationMode, citationVerifier } from '@/lib/rag/citation-verifier';
+import { ConfidenceAssessment, assessConfidence } from '@/lib/rag/confidence';
+import {
+  RetrievalRequestOptions,
+  getRetrievalOptions,
+  ragPipeline,
+  validateRetrievalOptions
+} from '@/lib/rag/rag-pipeline';
 
-interface ChatRequest {
+// Retrieval for a message that needs it also takes query_transformations,
+// reranker, rerank_top_n and expand_neighbors
+interface ChatRequest extends RetrievalRequestOptions {
   message: string;
   conversation_id?: string;
   context?: string;
@@ -9,6 +19,8 @@ interface ChatRequest {
     response_length?: 'brief' | 'detailed' | 'comprehensive';
     technical_level?: 'basic' | 'intermediate' | 'advanced';
   };
+  // 'flag' reports unsupported citations, 'remove' also strips them from the answer
+  citation_mode?: CitationMode;
 }
 
 interface Citation {
@@ -17,14 +29,27 @@ interface Citation {
   url: string;
   snippet: string;
   relevance_score: number;
+  // How well the claims citing this source are supported by it; absent if never cited
+  support_score?: number;
+  supported?: boolean;
+}
+
+interface CitationCheckResult {
+  claim: string;
+  source_index: number;
+  support_score: number;
+  supported: boolean;
 }
 
 interface ChatResponse {
   conversation_id: string;
   response: string;
   citations: Citation[];
+  citation_checks: CitationCheckResult[];
   follow_up_suggestions: string[];
   confidence_score: number;
+  // Signals behind confidence_score and a readable explanation
+  confidence_breakdown: ConfidenceAssessment;
   timestamp: string;
 }
 
@@ -41,7 +66,8 @@ export async function POST(request: NextRequest) {
       preferences = { 
         response_length: 'detailed', 
         technical_level: 'intermediate' 
-      } 
+      },
+      citation_mode = 'flag'
     } = body;
 
     // Validate input
@@ -52,6 +78,21 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    if (!['flag', 'remove'].includes(citation_mode)) {
+      return NextResponse.json(
+        { error: "citation_mode must be 'flag' or 'remove'" },
+        { status: 400 }
+      );
+    }
+
+    const retrievalError = validateRetrievalOptions(body);
+    if (retrievalError) {
+      return NextResponse.json(
+        { error: retrievalError },
+        { status: 400 }
+      );
+    }
+
     const startTime = Date.now();
     
     // Generate or use conversation ID
@@ -74,18 +115,26 @@ export async function POST(request: NextRequest) {
     // Initialize ZAI SDK
     const zai = await ZAI.create();
 
-    // Step 1: Determine if web search is needed
+    // Step 1: Determine if search is needed
     let searchResults: any[] = [];
     const needsSearch = await determineIfSearchNeeded(message, conversationHistory);
     
     if (needsSearch) {
       try {
-        searchResults = await zai.functions.invoke("web_search", {
+        // The knowledge base first, the web when it has too little
+        const { ranked } = await ragPipeline.retrieve({
           query: message,
-          num: 5
+          maxResults: 5,
+          ...getRetrievalOptions(body)
         });
+        searchResults = ranked.slice(0, 5).map((source, index) => ({
+          name: source.title,
+          url: source.url,
+          snippet: source.content.length > 300 ? source.content.substring(0, 300) + '...' : source.content,
+          rank: index
+        }));
       } catch (error) {
-        console.error('Web search failed:', error);
+        console.error('Search failed:', error);
       }
     }
 
@@ -94,8 +143,10 @@ export async function POST(request: NextRequest) {
     
     // Step 3: Generate response
     let response = '';
-    let confidence_score = 0.7;
+    // Answers without search results are not grounded in any evidence
+    let confidence = assessConfidence({ retrievalScores: [], sources: [] });
     let citations: Citation[] = [];
+    let citationChecks: CitationCheck[] = [];
 
     try {
       const messages = [
@@ -114,21 +165,33 @@ export async function POST(request: NextRequest) {
       
       // Extract citations from search results if used
       if (searchResults && Array.isArray(searchResults)) {
+        // Check that cited sources support the claims citing them
+        const evidence = searchResults.map((result: any) => ({ content: `${result.name || ''}\n${result.snippet || ''}` }));
+        const verification = citationVerifier.verify(response, evidence, { mode: citation_mode });
+        response = verification.response;
+        citationChecks = verification.checks;
+        const support = new Map(verification.citations.map(citation => [citation.sourceIndex, citation]));
+
         citations = searchResults.map((result: any, index: number) => ({
           id: `cite_${index + 1}`,
           title: result.name || `Source ${index + 1}`,
           url: result.url || '',
           snippet: result.snippet || '',
-          relevance_score: 1 - (result.rank || index) / 10
+          relevance_score: 1 - (result.rank || index) / 10,
+          support_score: support.get(index + 1)?.supportScore,
+          supported: support.get(index + 1)?.supported
         }));
         
-        confidence_score = Math.min(0.95, 0.6 + (searchResults.length * 0.07));
+        confidence = assessConfidence({
+          retrievalScores: citations.map(citation => citation.relevance_score),
+          sources: evidence,
+          verification
+        });
       }
 
     } catch (error) {
       console.error('AI response generation failed:', error);
       response = 'I apologize, but I encountered an error while processing your message. Please try again.';
-      confidence_score = 0.3;
     }
 
     // Step 4: Generate follow-up suggestions
@@ -150,8 +213,15 @@ export async function POST(request: NextRequest) {
       conversation_id: convId,
       response,
       citations,
+      citation_checks: citationChecks.map(check => ({
+        claim: check.claim,
+        source_index: check.sourceIndex,
+        support_score: check.supportScore,
+        supported: check.supported
+      })),
       follow_up_suggestions,
-      confidence_score,
+      confidence_score: confidence.score,
+      confidence_breakdown: confidence,
       timestamp: new Date().toISOString()
     };
 
@@ -224,7 +294,7 @@ function buildSystemPrompt(preferences: any, searchResults: any[]): string {
     searchResults.forEach((result: any, index: number) => {
       prompt += `Source ${index + 1}: ${result.snippet}\n`;
     });
-    prompt += '\nUse these search results to inform your response and cite sources when relevant.';
+    prompt += '\nUse these search results to inform your response and cite sources when relevant using [Source X] notation.';
   }
 
   prompt += '\n\nBe helpful, accurate, and engaging. Maintain context from the conversation history.';
@@ -0,0 +1,137 @@
+import { NextRequest, NextResponse } from "next/server";
+import { CollectionError, collectionManager } from '@/lib/rag/collections';
+import { describeJob, reembeddingManager } from '@/lib/rag/reembedding';
+
+interface RouteContext {
+  params: Promise<{ name: string }>;
+}
+
+// Start re-embedding a collection with another model:
+// { embedding: { provider, model?, dimension?, base_url? }, batch_size? }
+export async function POST(request: NextRequest, { params }: RouteContext) {
+  try {
+    const { name } = await params;
+    const body = await request.json();
+
+    const embedding = body?.embedding;
+    if (!embedding || typeof embedding !== 'object' || Array.isArray(embedding) || !embedding.provider) {
+      return NextResponse.json(
+        { error: "embedding must be an object with a provider" },
+        { status: 400 }
+      );
+    }
+
+    if (body.batch_size !== undefined && (!Number.isInteger(body.batch_size) || body.batch_size < 1)) {
+      return NextResponse.json(
+        { error: "batch_size must be a positive integer" },
+        { status: 400 }
+      );
+    }
+
+    const job = await reembeddingManager.start(
+      name,
+      {
+        type: embedding.provider,
+        model: embedding.model,
+        dimension: embedding.dimension !== undefined ? Number(embedding.dimension) : undefined,
+        baseUrl: embedding.base_url
+      },
+      { batchSize: body.batch_size }
+    );
+
+    return NextResponse.json({
+      message: "Re-embedding job started successfully",
+      job: describeJob(job)
+    }, { status: 202 });
+
+  } catch (error) {
+    if (error instanceof CollectionError) {
+      const status = error.code === 'not_found' ? 404 : error.code === 'conflict' ? 409 : 400;
+      return NextResponse.json(
+        { error: error.message },
+        { status }
+      );
+    }
+
+    console.error('Re-embedding API error:', error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+// Progress of the collection's re-embedding jobs, most recent first, or of one job with ?job_id=
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  try {
+    const { name } = await params;
+    await collectionManager.get(name);
+
+    const { searchParams } = new URL(request.url);
+    const jobId = searchParams.get('job_id');
+    if (jobId) {
+      const job = reembeddingManager.getJob(jobId);
+      if (!job || job.collection !== name) {
+        return NextResponse.json(
+          { error: "Job not found" },
+          { status: 404 }
+        );
+      }
+      return NextResponse.json(describeJob(job));
+    }
+
+    return NextResponse.json({
+      jobs: reembeddingManager.listJobs(name).map(describeJob)
+    });
+
+  } catch (error) {
+    if (error instanceof CollectionError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 404 }
+      );
+    }
+
+    console.error('Re-embedding API error:', error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+// Cancel a running job with ?job_id=; the collection keeps its current model
+export async function DELETE(request: NextRequest, { params }: RouteContext) {
+  try {
+    const { name } = await params;
+    const { searchParams } = new URL(request.url);
+    const jobId = searchParams.get('job_id');
+
+    const job = jobId ? reembeddingManager.getJob(jobId) : undefined;
+    if (!job || job.collection !== name) {
+      return NextResponse.json(
+        { error: "Job not found" },
+        { status: 404 }
+      );
+    }
+
+    if (!reembeddingManager.cancel(job.id)) {
+      return NextResponse.json(
+        { error: `Job has already ${job.status === 'completed' ? 'completed' : 'stopped'}` },
+        { status: 409 }
+      );
+    }
+
+    return NextResponse.json({
+      message: "Re-embedding job cancelled",
+      job: describeJob(job)
+    });
+
+  } catch (error) {
+    console.error('Re-embedding API error:', error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
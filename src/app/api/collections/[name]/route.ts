@@ -0,0 +1,56 @@
+import { NextRequest, NextResponse } from "next/server";
+import { CollectionError, collectionManager, describeCollection } from '@/lib/rag/collections';
+
+interface RouteContext {
+  params: Promise<{ name: string }>;
+}
+
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  try {
+    const { name } = await params;
+    const collection = await collectionManager.get(name);
+
+    return NextResponse.json(await describeCollection(collection));
+
+  } catch (error) {
+    if (error instanceof CollectionError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 404 }
+      );
+    }
+
+    console.error('Collections API error:', error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+// Drop a collection and every document in it
+export async function DELETE(request: NextRequest, { params }: RouteContext) {
+  try {
+    const { name } = await params;
+    await collectionManager.drop(name);
+
+    return NextResponse.json({
+      message: "Collection dropped successfully",
+      name
+    });
+
+  } catch (error) {
+    if (error instanceof CollectionError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.code === 'not_found' ? 404 : 400 }
+      );
+    }
+
+    console.error('Collections API error:', error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
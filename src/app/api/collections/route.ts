@@ -0,0 +1,69 @@
+import { NextRequest, NextResponse } from "next/server";
+import { CollectionError, collectionManager, describeCollection } from '@/lib/rag/collections';
+
+// Create a collection: { name, description?, embedding?: { provider, model?, dimension?, base_url? } }
+// An openai base_url must match EMBEDDING_BASE_URL: the server's API key is sent to no other host
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+
+    if (body?.description !== undefined && typeof body.description !== 'string') {
+      return NextResponse.json(
+        { error: "description must be a string" },
+        { status: 400 }
+      );
+    }
+
+    const embedding = body?.embedding;
+    if (embedding !== undefined && (typeof embedding !== 'object' || Array.isArray(embedding) || !embedding.provider)) {
+      return NextResponse.json(
+        { error: "embedding must be an object with a provider" },
+        { status: 400 }
+      );
+    }
+
+    const collection = await collectionManager.create({
+      name: body?.name,
+      description: body?.description,
+      embedding: embedding && {
+        type: embedding.provider,
+        model: embedding.model,
+        dimension: embedding.dimension !== undefined ? Number(embedding.dimension) : undefined,
+        baseUrl: embedding.base_url
+      }
+    });
+
+    return NextResponse.json(await describeCollection(collection), { status: 201 });
+
+  } catch (error) {
+    if (error instanceof CollectionError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.code === 'conflict' ? 409 : 400 }
+      );
+    }
+
+    console.error('Collections API error:', error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function GET() {
+  try {
+    const collections = await collectionManager.list();
+
+    return NextResponse.json({
+      collections: await Promise.all(collections.map(describeCollection))
+    });
+
+  } catch (error) {
+    console.error('Collections API error:', error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -1,10 +1,17 @@
 import { NextRequest, NextResponse } from "next/server";
 import { webCrawler } from '@/lib/crawling/web-crawler';
+import { FetchError, checkHost } from '@/lib/crawling/page-fetcher';
+import { FRONTIER_STRATEGIES } from '@/lib/crawling/frontier';
+import { SEED_MODES } from '@/lib/crawling/seed-discovery';
+import { DUPLICATE_MODES } from '@/lib/rag/near-duplicates';
+
+const MAX_URL_PATTERNS = 50;
+const MAX_URL_PATTERN_LENGTH = 200;
 
 export async function POST(request: NextRequest) {
   try {
     const body = await request.json();
-    const { url, maxDepth = 2, maxPages = 20, includeExternalLinks = false, contentTypes = ['text/html'] } = body;
+    const { url, maxDepth = 2, maxPages = 20, includeExternalLinks = false, contentTypes = ['text/html'], duplicateMode, duplicateThreshold, timeoutMs, maxBytes, maxRedirects, hostDelayMs, concurrency, strategy, priority, seedMode } = body;
 
     // Validate input
     if (!url || typeof url !== 'string') {
@@ -14,8 +21,9 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    let parsedUrl: URL;
     try {
-      new URL(url); // Validate URL format
+      parsedUrl = new URL(url); // Validate URL format
     } catch {
       return NextResponse.json(
         { error: "Invalid URL format" },
@@ -23,13 +31,113 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    if (parsedUrl.protocol !== 'http:' && parsedUrl.protocol !== 'https:') {
+      return NextResponse.json(
+        { error: "URL must use http or https" },
+        { status: 400 }
+      );
+    }
+
+    // Every fetch is checked again, redirects included; this only fails early
+    try {
+      await checkHost(parsedUrl.hostname);
+    } catch (error) {
+      if (error instanceof FetchError) {
+        return NextResponse.json(
+          { error: error.message },
+          { status: 400 }
+        );
+      }
+      throw error;
+    }
+
+    for (const [name, value] of Object.entries({ maxPages, timeoutMs, maxBytes })) {
+      if (value !== undefined && (!Number.isInteger(value) || value < 1)) {
+        return NextResponse.json(
+          { error: `${name} must be a positive integer` },
+          { status: 400 }
+        );
+      }
+    }
+
+    for (const [name, value] of Object.entries({ maxDepth, maxRedirects, hostDelayMs })) {
+      if (value !== undefined && (!Number.isInteger(value) || value < 0)) {
+        return NextResponse.json(
+          { error: `${name} must be a non-negative integer` },
+          { status: 400 }
+        );
+      }
+    }
+
+    if (!Array.isArray(contentTypes) || !contentTypes.every(type => typeof type === 'string' && type.trim())) {
+      return NextResponse.json(
+        { error: "contentTypes must be an array of non-empty strings" },
+        { status: 400 }
+      );
+    }
+
+    if (concurrency !== undefined && (!Number.isInteger(concurrency) || concurrency < 1)) {
+      return NextResponse.json(
+        { error: "concurrency must be a positive integer" },
+        { status: 400 }
+      );
+    }
+
+    if (seedMode !== undefined && !SEED_MODES.includes(seedMode)) {
+      return NextResponse.json(
+        { error: `seedMode must be one of ${SEED_MODES.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    if (strategy !== undefined && !FRONTIER_STRATEGIES.includes(strategy)) {
+      return NextResponse.json(
+        { error: `strategy must be one of ${FRONTIER_STRATEGIES.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    if (priority !== undefined) {
+      const priorityError = validatePriority(priority);
+      if (priorityError) {
+        return NextResponse.json(
+          { error: priorityError },
+          { status: 400 }
+        );
+      }
+    }
+
+    if (duplicateMode !== undefined && !DUPLICATE_MODES.includes(duplicateMode)) {
+      return NextResponse.json(
+        { error: `duplicateMode must be one of ${DUPLICATE_MODES.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    if (duplicateThreshold !== undefined && (typeof duplicateThreshold !== 'number' || duplicateThreshold <= 0 || duplicateThreshold > 1)) {
+      return NextResponse.json(
+        { error: "duplicateThreshold must be a number in (0, 1]" },
+        { status: 400 }
+      );
+    }
+
     // Start crawl job
     const jobId = await webCrawler.startCrawl({
       url,
+      seedMode,
       maxDepth,
       maxPages,
+      strategy,
+      priority,
       includeExternalLinks,
-      contentTypes
+      contentTypes,
+      duplicateMode,
+      duplicateThreshold,
+      timeoutMs,
+      maxBytes,
+      maxRedirects,
+      hostDelayMs,
+      concurrency
     });
 
     return NextResponse.json({
@@ -47,6 +155,32 @@ export async function POST(request: NextRequest) {
   }
 }
 
+function validatePriority(priority: any): string | null {
+  if (typeof priority !== 'object' || priority === null || Array.isArray(priority)) {
+    return "priority must be an object";
+  }
+  if (priority.topic !== undefined && typeof priority.topic !== 'string') {
+    return "priority.topic must be a string";
+  }
+  if (priority.urlPatterns !== undefined) {
+    if (!Array.isArray(priority.urlPatterns)) {
+      return "priority.urlPatterns must be an array";
+    }
+    if (priority.urlPatterns.length > MAX_URL_PATTERNS) {
+      return `priority.urlPatterns takes at most ${MAX_URL_PATTERNS} patterns`;
+    }
+    for (const entry of priority.urlPatterns) {
+      if (typeof entry?.pattern !== 'string' || typeof entry.weight !== 'number' || !Number.isFinite(entry.weight)) {
+        return "Each priority.urlPatterns entry needs a pattern string and a numeric weight";
+      }
+      if (entry.pattern.length === 0 || entry.pattern.length > MAX_URL_PATTERN_LENGTH) {
+        return `priority.urlPatterns patterns must be 1 to ${MAX_URL_PATTERN_LENGTH} characters long`;
+      }
+    }
+  }
+  return null;
+}
+
 export async function GET(request: NextRequest) {
   try {
     const { searchParams } = new URL(request.url);
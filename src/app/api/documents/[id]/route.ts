@@ -0,0 +1,146 @@
+import { NextRequest, NextResponse } from "next/server";
+import { Collection, CollectionError, collectionManager } from '@/lib/rag/collections';
+import { forgetDuplicate, ingestDocument, validateDocumentInput } from '@/lib/rag/document-ingestion';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+// Fetch a document with its chunks. All handlers take an optional
+// `collection` query parameter and default to the default collection.
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    const collection = await resolveCollection(request);
+    if (collection instanceof NextResponse) return collection;
+
+    const document = await collection.store.getParentDocument(id);
+
+    if (!document) {
+      return NextResponse.json(
+        { error: "Document not found" },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      id: document.id,
+      collection: collection.config.name,
+      content: document.content,
+      metadata: document.metadata,
+      duplicate_of: document.metadata.duplicate_of ?? null,
+      duplicates: document.metadata.duplicates ?? [],
+      chunk_count: document.chunks.length,
+      chunks: document.chunks.map(chunk => ({
+        id: chunk.id,
+        chunk_index: chunk.metadata.chunk_index,
+        content: chunk.content,
+        start_offset: chunk.metadata.start_offset,
+        end_offset: chunk.metadata.end_offset,
+        heading: chunk.metadata.heading
+      }))
+    });
+
+  } catch (error) {
+    console.error('Documents API error:', error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+// Update content and/or metadata; the document is re-chunked and re-embedded
+export async function PUT(request: NextRequest, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    const collection = await resolveCollection(request);
+    if (collection instanceof NextResponse) return collection;
+
+    const existing = await collection.store.getParentDocument(id);
+
+    if (!existing) {
+      return NextResponse.json(
+        { error: "Document not found" },
+        { status: 404 }
+      );
+    }
+
+    const body = await request.json();
+    const contentChanged = typeof body?.content === 'string';
+    const input = {
+      ...body,
+      id,
+      collection: collection.config.name,
+      content: contentChanged ? body.content : existing.content
+    };
+
+    const validationError = validateDocumentInput(input);
+    if (validationError) {
+      return NextResponse.json(
+        { error: validationError },
+        { status: 400 }
+      );
+    }
+
+    // Stored content is already parsed, so only new content goes through the parser
+    const result = await ingestDocument(input, existing.metadata, { reparse: contentChanged });
+    return NextResponse.json(result, { status: result.status === 'ingested' ? 200 : 500 });
+
+  } catch (error) {
+    console.error('Documents API error:', error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(request: NextRequest, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    const collection = await resolveCollection(request);
+    if (collection instanceof NextResponse) return collection;
+
+    const existing = await collection.store.getParentDocument(id);
+    const deleted = existing && await collection.store.deleteDocument(id);
+
+    if (!deleted) {
+      return NextResponse.json(
+        { error: "Document not found" },
+        { status: 404 }
+      );
+    }
+
+    await forgetDuplicate(collection, id, existing.metadata);
+
+    return NextResponse.json({
+      message: "Document deleted successfully",
+      id
+    });
+
+  } catch (error) {
+    console.error('Documents API error:', error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+// Returns the collection named by the `collection` query parameter, or a 404 response
+async function resolveCollection(request: NextRequest): Promise<Collection | NextResponse> {
+  const name = new URL(request.url).searchParams.get('collection') || undefined;
+
+  try {
+    return await collectionManager.get(name);
+  } catch (error) {
+    if (error instanceof CollectionError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 404 }
+      );
+    }
+    throw error;
+  }
+}
@@ -0,0 +1,184 @@
+import { NextRequest, NextResponse } from "next/server";
+import { Collection, CollectionError, collectionManager } from '@/lib/rag/collections';
+import { DocumentInput, IngestionResult, ingestDocument, validateDocumentInput } from '@/lib/rag/document-ingestion';
+import { nearDuplicateDetector } from '@/lib/rag/near-duplicates';
+import { FilterValidationError, MetadataFilter, matchesFilter, validateFilter } from '@/lib/rag/metadata-filter';
+
+const MAX_BULK_DOCUMENTS = 100;
+const MAX_PAGE_SIZE = 100;
+
+// Ingest a single document, or several with { documents: [...] }. Top-level
+// `collection` and `duplicates` apply to every document that does not set its own.
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const inputs: DocumentInput[] = Array.isArray(body?.documents)
+      ? body.documents.map((input: any) => ({ collection: body.collection, duplicates: body.duplicates, ...input }))
+      : [body];
+
+    if (inputs.length === 0) {
+      return NextResponse.json(
+        { error: "At least one document is required" },
+        { status: 400 }
+      );
+    }
+
+    if (inputs.length > MAX_BULK_DOCUMENTS) {
+      return NextResponse.json(
+        { error: `A maximum of ${MAX_BULK_DOCUMENTS} documents can be ingested per request` },
+        { status: 400 }
+      );
+    }
+
+    for (let i = 0; i < inputs.length; i++) {
+      const validationError = validateDocumentInput(inputs[i]);
+      if (validationError) {
+        return NextResponse.json(
+          { error: inputs.length > 1 ? `documents[${i}]: ${validationError}` : validationError },
+          { status: 400 }
+        );
+      }
+    }
+
+    const collections = new Map<string | undefined, Collection>();
+    for (const name of new Set(inputs.map(input => input.collection))) {
+      const collection = await resolveCollection(name);
+      if (collection instanceof NextResponse) return collection;
+      collections.set(name, collection);
+    }
+
+    // Ingest sequentially so a large batch does not flood the embedding provider
+    const results: IngestionResult[] = [];
+    let conflicts = 0;
+    for (const input of inputs) {
+      // POST only creates; replacing a document would drop its created_at and duplicate links
+      if (input.id && await collections.get(input.collection)!.store.getParentDocument(input.id)) {
+        results.push({
+          id: input.id,
+          status: 'failed',
+          chunk_count: 0,
+          error: `Document ${input.id} already exists; update it with PUT /api/documents/${input.id}`
+        });
+        conflicts++;
+        continue;
+      }
+      results.push(await ingestDocument(input));
+    }
+
+    const ingested = results.filter(result => result.status === 'ingested').length;
+    const failed = results.filter(result => result.status === 'failed').length;
+    const summary = {
+      total: results.length,
+      ingested,
+      duplicates: results.length - ingested - failed,
+      failed,
+      total_chunks: results.reduce((sum, result) => sum + result.chunk_count, 0)
+    };
+
+    // Skipped and merged duplicates are handled requests, not failures
+    const status = failed === 0 ? 201 : failed < results.length ? 207 : failed === conflicts ? 409 : 500;
+    return NextResponse.json(
+      Array.isArray(body?.documents) ? { results, summary } : results[0],
+      { status }
+    );
+
+  } catch (error) {
+    console.error('Documents API error:', error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+// List documents of a collection with pagination. Supports source_type,
+// format and a JSON `filter` parameter in the metadata filter language.
+// ?clusters=true lists near-duplicate clusters instead.
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const collectionName = searchParams.get('collection') || undefined;
+    const page = Math.max(1, parseInt(searchParams.get('page') || '1') || 1);
+    const pageSize = Math.min(MAX_PAGE_SIZE, Math.max(1, parseInt(searchParams.get('page_size') || '20') || 20));
+
+    const clauses: MetadataFilter[] = [];
+    const sourceType = searchParams.get('source_type');
+    const format = searchParams.get('format');
+    const filterParam = searchParams.get('filter');
+
+    if (sourceType) clauses.push({ source_type: sourceType });
+    if (format) clauses.push({ format });
+    if (filterParam) {
+      try {
+        clauses.push(validateFilter(JSON.parse(filterParam)));
+      } catch (error) {
+        return NextResponse.json(
+          { error: error instanceof FilterValidationError ? error.message : "filter must be valid JSON" },
+          { status: 400 }
+        );
+      }
+    }
+
+    const collection = await resolveCollection(collectionName);
+    if (collection instanceof NextResponse) return collection;
+
+    if (searchParams.get('clusters') === 'true') {
+      return NextResponse.json({
+        collection: collection.config.name,
+        clusters: await nearDuplicateDetector.getClusters(collection)
+      });
+    }
+
+    const documents = (await collection.store.getParentDocuments())
+      .filter(document => matchesFilter(document.metadata, clauses.length > 0 ? { $and: clauses } : undefined))
+      .sort((a, b) => String(b.metadata.created_at).localeCompare(String(a.metadata.created_at)));
+
+    const total = documents.length;
+    const pageItems = documents.slice((page - 1) * pageSize, page * pageSize);
+
+    return NextResponse.json({
+      collection: collection.config.name,
+      documents: pageItems.map(document => ({
+        id: document.id,
+        title: document.metadata.title,
+        url: document.metadata.url,
+        source_type: document.metadata.source_type,
+        format: document.metadata.format,
+        chunk_count: document.chunkIds.length,
+        content_length: document.content.length,
+        duplicate_of: document.metadata.duplicate_of ?? null,
+        duplicate_count: document.metadata.duplicates?.length ?? 0,
+        created_at: document.metadata.created_at,
+        updated_at: document.metadata.updated_at
+      })),
+      pagination: {
+        page,
+        page_size: pageSize,
+        total,
+        total_pages: Math.ceil(total / pageSize)
+      }
+    });
+
+  } catch (error) {
+    console.error('Documents API error:', error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+// Returns the collection, or a 404 response if it does not exist
+async function resolveCollection(name?: string): Promise<Collection | NextResponse> {
+  try {
+    return await collectionManager.get(name);
+  } catch (error) {
+    if (error instanceof CollectionError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 404 }
+      );
+    }
+    throw error;
+  }
+}
@@ -1,16 +1,43 @@
 import { NextRequest, NextResponse } from "next/server";
 import ZAI from 'z-ai-web-dev-sdk';
+import {
+  ragPipeline,
+  RAGSource,
+  RAGStreamEvent,
+  RetrievalRequestOptions,
+  getRetrievalOptions,
+  validateRetrievalOptions
+} from '@/lib/rag/rag-pipeline';
+import { RefinementOptions, RefinementStep } from '@/lib/rag/answer-refiner';
+import { CitationCheck, CitationMode, citationVerifier } from '@/lib/rag/citation-verifier';
+import { ConfidenceAssessment, assessConfidence } from '@/lib/rag/confidence';
+import { ContextReport } from '@/lib/rag/context-packer';
+import { Collection, CollectionError, collectionManager } from '@/lib/rag/collections';
+import { reciprocalRankFusion } from '@/lib/rag/rank-fusion';
+import { FilterValidationError, MetadataFilter, matchesFilter, translateSearchFilters, validateFilter } from '@/lib/rag/metadata-filter';
 
-interface SearchRequest {
+// Knowledge-base retrieval also takes query_transformations, reranker,
+// rerank_top_n and expand_neighbors
+interface SearchRequest extends RetrievalRequestOptions {
   query: string;
   search_type?: 'hybrid' | 'web' | 'vector';
+  // Knowledge-base collection for vector and hybrid search; the default collection when omitted
+  collection?: string;
   filters?: {
     date_range?: { start: string; end: string };
     sources?: string[];
     language?: string;
+    // Additional conditions in the metadata filter language
+    metadata?: MetadataFilter;
   };
   max_results?: number;
   include_citations?: boolean;
+  // Respond with a server-sent event stream instead of a single JSON body
+  stream?: boolean;
+  // Critique and revise the streamed answer; `true` uses the default settings
+  refine?: boolean | { max_iterations?: number; quality_threshold?: number };
+  // 'flag' reports unsupported citations, 'remove' also strips them from the answer
+  citation_mode?: CitationMode;
 }
 
 interface SearchResult {
@@ -29,14 +56,28 @@ interface Citation {
   url: string;
   snippet: string;
   relevance_score: number;
+  // How well the claims citing this source are supported by it; absent if never cited
+  support_score?: number;
+  supported?: boolean;
+}
+
+interface CitationCheckResult {
+  claim: string;
+  source_index: number;
+  source_id?: string;
+  support_score: number;
+  supported: boolean;
 }
 
 interface SearchResponse {
   query_id: string;
   response: string;
   citations: Citation[];
+  citation_checks: CitationCheckResult[];
   sources: SearchResult[];
   confidence_score: number;
+  // Signals behind confidence_score and a readable explanation
+  confidence_breakdown: ConfidenceAssessment;
   processing_time: number;
   timestamp: string;
 }
@@ -44,7 +85,7 @@ interface SearchResponse {
 export async function POST(request: NextRequest) {
   try {
     const body: SearchRequest = await request.json();
-    const { query, search_type = 'hybrid', filters = {}, max_results = 10, include_citations = true } = body;
+    const { query, search_type = 'hybrid', filters = {}, max_results = 10, include_citations = true, citation_mode = 'flag' } = body;
 
     // Validate input
     if (!query || query.trim().length === 0) {
@@ -54,38 +95,108 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    if (!['flag', 'remove'].includes(citation_mode)) {
+      return NextResponse.json(
+        { error: "citation_mode must be 'flag' or 'remove'" },
+        { status: 400 }
+      );
+    }
+
+    const retrievalError = validateRetrievalOptions(body);
+    if (retrievalError) {
+      return NextResponse.json(
+        { error: retrievalError },
+        { status: 400 }
+      );
+    }
+
+    let metadataFilter: MetadataFilter | undefined;
+    try {
+      metadataFilter = buildMetadataFilter(filters);
+    } catch (error) {
+      if (error instanceof FilterValidationError) {
+        return NextResponse.json(
+          { error: error.message },
+          { status: 400 }
+        );
+      }
+      throw error;
+    }
+
+    let collection: Collection;
+    try {
+      collection = await collectionManager.get(body.collection);
+    } catch (error) {
+      if (error instanceof CollectionError) {
+        return NextResponse.json(
+          { error: error.message },
+          { status: 404 }
+        );
+      }
+      throw error;
+    }
+
     const startTime = Date.now();
     const query_id = `search_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
 
+    if (body.stream) {
+      return streamSearch(request, query_id, { ...body, search_type, citation_mode }, metadataFilter);
+    }
+
     // Initialize ZAI SDK
     const zai = await ZAI.create();
 
-    // Step 1: Perform web search
-    let searchResults: SearchResult[] = [];
-    try {
-      const webSearchResults = await zai.functions.invoke("web_search", {
-        query: query,
-        num: max_results
-      });
+    // Step 1: Search the knowledge-base collection and the web
+    const knowledgeResults = search_type !== 'web'
+      ? await searchKnowledgeBase(collection, query, max_results, metadataFilter, body)
+      : [];
 
-      if (webSearchResults && Array.isArray(webSearchResults)) {
-        searchResults = webSearchResults.map((result: any, index: number) => ({
-          id: `source_${index + 1}`,
-          title: result.name || `Source ${index + 1}`,
-          url: result.url || '',
-          snippet: result.snippet || '',
-          relevance_score: 1 - (result.rank || index) / 10, // Higher rank = higher score
-          source_type: result.host_name || 'web',
-          published_date: result.date || undefined
-        }));
+    let webResults: SearchResult[] = [];
+    if (search_type !== 'vector') {
+      try {
+        const webSearchResults = await zai.functions.invoke("web_search", {
+          query: query,
+          num: max_results,
+          recency_days: getRecencyDays(filters.date_range?.start)
+        });
+
+        if (webSearchResults && Array.isArray(webSearchResults)) {
+          webResults = webSearchResults
+            .filter((result: any) => matchesFilter({
+              source_type: 'web',
+              host_name: result.host_name,
+              url: result.url,
+              title: result.name,
+              published_date: result.date
+            }, metadataFilter))
+            .map((result: any, index: number) => ({
+              id: `source_${index + 1}`,
+              title: result.name || `Source ${index + 1}`,
+              url: result.url || '',
+              snippet: result.snippet || '',
+              relevance_score: 1 - (result.rank || index) / 10, // Higher rank = higher score
+              source_type: result.host_name || 'web',
+              published_date: result.date || undefined
+            }));
+        }
+      } catch (error) {
+        console.error('Web search failed:', error);
       }
-    } catch (error) {
-      console.error('Web search failed:', error);
     }
 
+    // Similarities and web ranks are not comparable, so interleave by rank
+    const searchResults: SearchResult[] = knowledgeResults.length > 0 && webResults.length > 0
+      ? reciprocalRankFusion(
+        [
+          { source: 'knowledge_base', items: knowledgeResults },
+          { source: 'web', items: webResults }
+        ],
+        result => result.id
+      ).slice(0, max_results).map(fused => fused.item)
+      : [...knowledgeResults, ...webResults];
+
     // Step 2: Generate comprehensive response using AI
     let response = '';
-    let confidence_score = 0.5;
 
     if (searchResults.length > 0) {
       // Create context from search results
@@ -112,33 +223,48 @@ export async function POST(request: NextRequest) {
         });
 
         response = completion.choices[0]?.message?.content || 'Unable to generate response';
-        confidence_score = Math.min(0.9, 0.5 + (searchResults.length * 0.05));
       } catch (error) {
         console.error('AI response generation failed:', error);
         response = 'I found some relevant information, but encountered an issue generating a comprehensive response.';
       }
     } else {
       response = 'I apologize, but I couldn\'t find any relevant information for your query. Please try rephrasing your question or search terms.';
-      confidence_score = 0.2;
     }
 
-    // Step 3: Extract citations
+    // Step 3: Verify that cited sources support the claims citing them
+    const evidence = searchResults.map(result => ({ id: result.id, content: `${result.title}\n${result.snippet}` }));
+    const verification = citationVerifier.verify(response, evidence, { mode: citation_mode });
+    response = verification.response;
+    const support = new Map(verification.citations.map(citation => [citation.sourceIndex, citation]));
+
+    // Step 4: Extract citations
     const citations: Citation[] = include_citations ? searchResults.map((result, index) => ({
       id: `cite_${index + 1}`,
       title: result.title,
       url: result.url,
       snippet: result.snippet,
-      relevance_score: result.relevance_score
+      relevance_score: result.relevance_score,
+      support_score: support.get(index + 1)?.supportScore,
+      supported: support.get(index + 1)?.supported
     })) : [];
 
+    // Step 5: Assess confidence from retrieval and citation evidence
+    const confidence = assessConfidence({
+      retrievalScores: searchResults.map(result => result.relevance_score),
+      sources: evidence,
+      verification
+    });
+
     const processingTime = Date.now() - startTime;
 
     const searchResponse: SearchResponse = {
       query_id,
       response,
       citations,
+      citation_checks: include_citations ? verification.checks.map(toCitationCheck) : [],
       sources: searchResults,
-      confidence_score,
+      confidence_score: confidence.score,
+      confidence_breakdown: confidence,
       processing_time: processingTime / 1000,
       timestamp: new Date().toISOString()
     };
@@ -152,4 +278,233 @@ export async function POST(request: NextRequest) {
       { status: 500 }
     );
   }
+}
+
+// Streams the RAG pipeline as server-sent events: `stage`, `sources`,
+// `token` (many), `critique` per refinement round, then `done` with
+// confidence, citations and the critique trail, or `error`
+function streamSearch(
+  request: NextRequest,
+  query_id: string,
+  body: SearchRequest,
+  metadataFilter?: MetadataFilter
+): Response {
+  const encoder = new TextEncoder();
+  const abortController = new AbortController();
+  request.signal.addEventListener('abort', () => abortController.abort());
+
+  const stream = new ReadableStream({
+    async start(controller) {
+      const send = (event: string, data: unknown) => {
+        controller.enqueue(encoder.encode(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`));
+      };
+
+      try {
+        const events = ragPipeline.processQueryStream({
+          query: body.query.trim(),
+          collection: body.collection,
+          filters: metadataFilter,
+          maxResults: body.max_results || 10,
+          includeWebSearch: body.search_type !== 'vector',
+          includeVectorSearch: body.search_type !== 'web',
+          refinement: getRefinementOptions(body.refine),
+          citationMode: body.citation_mode,
+          ...getRetrievalOptions(body)
+        }, abortController.signal);
+
+        for await (const event of events) {
+          if (abortController.signal.aborted) break;
+          sendStreamEvent(send, event, query_id, body.include_citations !== false);
+        }
+      } catch (error) {
+        // After a disconnect the stream is already cancelled and cannot be written to
+        if (abortController.signal.aborted) return;
+        console.error('Search stream error:', error);
+        send('error', { error: "Internal server error" });
+      }
+      if (!abortController.signal.aborted) {
+        controller.close();
+      }
+    },
+    cancel() {
+      abortController.abort();
+    }
+  });
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream; charset=utf-8',
+      'Cache-Control': 'no-cache, no-transform',
+      'Connection': 'keep-alive'
+    }
+  });
+}
+
+function sendStreamEvent(
+  send: (event: string, data: unknown) => void,
+  event: RAGStreamEvent,
+  query_id: string,
+  includeCitations: boolean
+): void {
+  switch (event.type) {
+    case 'stage':
+      send('stage', { query_id, stage: event.stage });
+      break;
+    case 'sources':
+      send('sources', {
+        query_id,
+        sources: event.sources.map(toSearchResult),
+        query_variants: event.queryVariants,
+        context: toContextReport(event.context)
+      });
+      break;
+    case 'token':
+      send('token', { text: event.text });
+      break;
+    case 'critique':
+      send('critique', { query_id, ...toCritiqueStep(event.step) });
+      break;
+    case 'done':
+      send('done', {
+        query_id,
+        // Final answer text, which differs from the streamed tokens after a
+        // revision or when unsupported citations were removed
+        response: event.response,
+        confidence_score: event.confidenceScore,
+        confidence_breakdown: event.confidence,
+        citations: includeCitations ? event.citations.map(citation => ({
+          id: `cite_${citation.index}`,
+          source_id: citation.sourceId,
+          title: citation.title,
+          url: citation.url,
+          support_score: citation.supportScore,
+          supported: citation.supported
+        })) : [],
+        citation_checks: includeCitations ? event.citationChecks.map(toCitationCheck) : [],
+        critiques: event.critiques.map(toCritiqueStep),
+        processing_time: event.processingTime / 1000,
+        timestamp: new Date().toISOString()
+      });
+      break;
+    case 'error':
+      send('error', { query_id, error: event.message });
+      break;
+  }
+}
+
+async function searchKnowledgeBase(
+  collection: Collection,
+  query: string,
+  maxResults: number,
+  filter: MetadataFilter | undefined,
+  options: RetrievalRequestOptions
+): Promise<SearchResult[]> {
+  try {
+    // Query rewriting, neighbour expansion and re-ranking as in the streaming
+    // path; the web is searched separately so its results can be filtered
+    const { ranked } = await ragPipeline.retrieve({
+      query,
+      collection: collection.config.name,
+      filters: filter,
+      maxResults,
+      includeWebSearch: false,
+      ...getRetrievalOptions(options)
+    });
+
+    return ranked.slice(0, maxResults).map(source => ({
+      ...toSearchResult(source),
+      id: `kb_${source.metadata?.document_id || source.id}`,
+      title: source.title || 'Document',
+      relevance_score: Math.max(0, source.score)
+    }));
+  } catch (error) {
+    console.error('Knowledge base search failed:', error);
+    return [];
+  }
+}
+
+function toSearchResult(source: RAGSource): SearchResult {
+  return {
+    id: source.id,
+    title: source.title,
+    url: source.url,
+    snippet: source.content.length > 300 ? source.content.substring(0, 300) + '...' : source.content,
+    relevance_score: source.score,
+    source_type: source.metadata?.source_type === 'web' ? (source.metadata.host_name || 'web') : 'knowledge_base',
+    published_date: source.metadata?.date || source.metadata?.published_date || undefined
+  };
+}
+
+function toContextReport(report: ContextReport) {
+  return {
+    token_budget: report.tokenBudget,
+    tokens_used: report.tokensUsed,
+    included: report.included.map(document => ({
+      id: document.id,
+      title: document.title,
+      tokens: document.tokens,
+      original_tokens: document.originalTokens,
+      trimmed: document.trimmed,
+      duplicate_passages: document.duplicatePassages
+    })),
+    cut: report.cut.map(document => ({
+      id: document.id,
+      title: document.title,
+      original_tokens: document.originalTokens,
+      reason: document.reason
+    }))
+  };
+}
+
+function toCitationCheck(check: CitationCheck): CitationCheckResult {
+  return {
+    claim: check.claim,
+    source_index: check.sourceIndex,
+    source_id: check.sourceId,
+    support_score: check.supportScore,
+    supported: check.supported
+  };
+}
+
+function toCritiqueStep(step: RefinementStep) {
+  return {
+    iteration: step.iteration,
+    score: step.critique.score,
+    unsupported_claims: step.critique.unsupportedClaims,
+    missing_aspects: step.critique.missingAspects,
+    citation_issues: step.critique.citationIssues,
+    summary: step.critique.summary,
+    revised: step.revised,
+    response: step.response
+  };
+}
+
+function getRefinementOptions(refine: SearchRequest['refine']): RefinementOptions | undefined {
+  if (refine === undefined) return undefined;
+  if (refine === false) return { maxIterations: 0 };
+  if (refine === true) return { maxIterations: 2 };
+
+  const options: RefinementOptions = { maxIterations: Math.max(0, Math.min(5, refine.max_iterations ?? 2)) };
+  if (refine.quality_threshold !== undefined) {
+    options.qualityThreshold = refine.quality_threshold;
+  }
+  return options;
+}
+
+function buildMetadataFilter(filters: NonNullable<SearchRequest['filters']>): MetadataFilter | undefined {
+  const clauses = [translateSearchFilters(filters)];
+  if (filters.metadata) {
+    clauses.push(validateFilter(filters.metadata));
+  }
+
+  const defined = clauses.filter((clause): clause is MetadataFilter => !!clause);
+  if (defined.length === 0) return undefined;
+  return defined.length === 1 ? defined[0] : { $and: defined };
+}
+
+function getRecencyDays(start?: string): number | undefined {
+  if (!start) return undefined;
+  const timestamp = Date.parse(start);
+  if (Number.isNaN(timestamp)) return undefined;
+  return Math.max(1, Math.ceil((Date.now() - timestamp) / (1000 * 60 * 60 * 24)));
 }
\ No newline at end of file
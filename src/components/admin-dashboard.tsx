@@ -22,6 +22,7 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { ScrollArea } from '@/components/ui/scroll-area';
 import { Separator } from '@/components/ui/separator';
 import { useToast } from '@/hooks/use-toast';
+import EvaluationPanel from '@/components/evaluation-panel';
 
 interface HealthStatus {
   status: 'healthy' | 'degraded' | 'unhealthy';
@@ -328,6 +329,7 @@ export default function AdminDashboard() {
           <TabsTrigger value="health">Health Checks</TabsTrigger>
           <TabsTrigger value="alerts">Alerts</TabsTrigger>
           <TabsTrigger value="metrics">Metrics</TabsTrigger>
+          <TabsTrigger value="evaluation">Evaluation</TabsTrigger>
           <TabsTrigger value="settings">Settings</TabsTrigger>
         </TabsList>
 
@@ -573,6 +575,10 @@ export default function AdminDashboard() {
           </Card>
         </TabsContent>
 
+        <TabsContent value="evaluation" className="space-y-6">
+          <EvaluationPanel />
+        </TabsContent>
+
         <TabsContent value="settings" className="space-y-6">
           <Card>
             <CardHeader>
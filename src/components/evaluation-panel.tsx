@@ -0,0 +1,390 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { FlaskConical, GitCompare, Play, RefreshCw } from 'lucide-react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { useToast } from '@/hooks/use-toast';
+
+type MetricValues = Record<string, number | null>;
+
+interface RunSummary {
+  id: string;
+  label: string;
+  dataset: { name: string; questions: number; documents: number | null };
+  config: { target: string; collection: string | null; search_type: string | null; reranker: string | null; embedding_model: string };
+  metrics: MetricValues;
+  failed_questions: number;
+  created_at: string;
+  duration_ms: number;
+}
+
+interface QuestionResult {
+  question_id: string;
+  question: string;
+  relevant_document_ids: string[];
+  retrieved_document_ids: string[];
+  answer: string | null;
+  metrics: MetricValues;
+  error?: string;
+}
+
+interface MetricChange {
+  base: number | null;
+  candidate: number | null;
+  delta: number | null;
+}
+
+interface Comparison {
+  base: RunSummary;
+  candidate: RunSummary;
+  metrics: Record<string, MetricChange>;
+  questions: Array<{ question_id: string; question: string; changes: Record<string, MetricChange> }>;
+}
+
+// Metrics shown in the run list; the full set is in the run details
+const HEADLINE_METRICS = ['recall@5', 'mrr', 'ndcg@10', 'faithfulness'];
+
+const formatValue = (value: number | null | undefined) => value === null || value === undefined ? '-' : value.toFixed(3);
+
+const formatDelta = (delta: number | null) => {
+  if (delta === null) return '-';
+  return `${delta >= 0 ? '+' : ''}${delta.toFixed(3)}`;
+};
+
+const deltaColor = (delta: number | null) => {
+  if (delta === null || delta === 0) return 'text-muted-foreground';
+  return delta > 0 ? 'text-green-600' : 'text-red-600';
+};
+
+export default function EvaluationPanel() {
+  const [runs, setRuns] = useState<RunSummary[]>([]);
+  const [datasets, setDatasets] = useState<string[]>([]);
+  const [dataset, setDataset] = useState('');
+  const [target, setTarget] = useState('rag-pipeline');
+  const [label, setLabel] = useState('');
+  const [running, setRunning] = useState(false);
+  const [selectedRun, setSelectedRun] = useState<(RunSummary & { results: QuestionResult[] }) | null>(null);
+  const [baseId, setBaseId] = useState('');
+  const [candidateId, setCandidateId] = useState('');
+  const [comparison, setComparison] = useState<Comparison | null>(null);
+  const { toast } = useToast();
+
+  const fetchRuns = async () => {
+    try {
+      const response = await fetch('/api/admin/evaluation');
+      if (response.ok) {
+        const data = await response.json();
+        setRuns(data.runs);
+        setDatasets(data.datasets);
+        if (!dataset && data.datasets.length > 0) setDataset(data.datasets[0]);
+      }
+    } catch (error) {
+      console.error('Error fetching evaluation runs:', error);
+    }
+  };
+
+  const startRun = async () => {
+    setRunning(true);
+    try {
+      const response = await fetch('/api/admin/evaluation', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ dataset_name: dataset, target, label: label || undefined }),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Evaluation failed');
+      }
+
+      setSelectedRun(data);
+      setCandidateId(data.id);
+      await fetchRuns();
+      toast({
+        title: "Evaluation Complete",
+        description: `${data.dataset.questions} questions evaluated in ${data.duration_ms} ms`,
+      });
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : 'Evaluation failed',
+        variant: "destructive",
+      });
+    } finally {
+      setRunning(false);
+    }
+  };
+
+  const viewRun = async (runId: string) => {
+    try {
+      const response = await fetch(`/api/admin/evaluation?run_id=${encodeURIComponent(runId)}`);
+      if (response.ok) {
+        setSelectedRun(await response.json());
+      }
+    } catch (error) {
+      console.error('Error fetching evaluation run:', error);
+    }
+  };
+
+  const compareRuns = async () => {
+    try {
+      const params = new URLSearchParams({ base: baseId, candidate: candidateId });
+      const response = await fetch(`/api/admin/evaluation?${params}`);
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Comparison failed');
+      }
+      setComparison(data);
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : 'Comparison failed',
+        variant: "destructive",
+      });
+    }
+  };
+
+  useEffect(() => {
+    fetchRuns();
+  }, []);
+
+  const runName = (run: RunSummary) => `${run.label || run.dataset.name} · ${new Date(run.created_at).toLocaleString()}`;
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle>Run Evaluation</CardTitle>
+          <CardDescription>
+            Score retrieval and answers against a golden dataset. Answers come from a deterministic mock model, so runs are reproducible.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <div className="flex flex-wrap items-center gap-2">
+            <Select value={dataset} onValueChange={setDataset}>
+              <SelectTrigger className="w-48">
+                <SelectValue placeholder="Dataset" />
+              </SelectTrigger>
+              <SelectContent>
+                {datasets.map(name => (
+                  <SelectItem key={name} value={name}>{name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Select value={target} onValueChange={setTarget}>
+              <SelectTrigger className="w-48">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="rag-pipeline">RAG pipeline</SelectItem>
+                <SelectItem value="search-agent">Search agent</SelectItem>
+              </SelectContent>
+            </Select>
+            <Input
+              value={label}
+              onChange={(event) => setLabel(event.target.value)}
+              placeholder="Label (optional)"
+              className="w-56"
+            />
+            <Button onClick={startRun} disabled={running || !dataset}>
+              {running ? <RefreshCw className="h-4 w-4 mr-2 animate-spin" /> : <Play className="h-4 w-4 mr-2" />}
+              Run
+            </Button>
+            <Button variant="outline" onClick={fetchRuns}>
+              <RefreshCw className="h-4 w-4 mr-2" />
+              Refresh
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Runs</CardTitle>
+          <CardDescription>Stored evaluation runs, most recent first</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {runs.length > 0 ? (
+            <ScrollArea className="h-72">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Run</TableHead>
+                    <TableHead>Target</TableHead>
+                    {HEADLINE_METRICS.map(name => (
+                      <TableHead key={name} className="text-right">{name}</TableHead>
+                    ))}
+                    <TableHead className="text-right">Failed</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {runs.map(run => (
+                    <TableRow
+                      key={run.id}
+                      className={`cursor-pointer ${selectedRun?.id === run.id ? 'bg-muted' : ''}`}
+                      onClick={() => viewRun(run.id)}
+                    >
+                      <TableCell>
+                        <div className="font-medium">{run.label || run.dataset.name}</div>
+                        <div className="text-xs text-muted-foreground">{new Date(run.created_at).toLocaleString()}</div>
+                      </TableCell>
+                      <TableCell>
+                        <Badge variant="secondary">{run.config.target}</Badge>
+                      </TableCell>
+                      {HEADLINE_METRICS.map(name => (
+                        <TableCell key={name} className="text-right font-mono">{formatValue(run.metrics[name])}</TableCell>
+                      ))}
+                      <TableCell className="text-right">{run.failed_questions}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </ScrollArea>
+          ) : (
+            <div className="text-center py-8">
+              <FlaskConical className="h-12 w-12 mx-auto mb-4 text-muted-foreground" />
+              <p className="text-muted-foreground">No evaluation runs yet</p>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {selectedRun && (
+        <Card>
+          <CardHeader>
+            <CardTitle>{selectedRun.label || selectedRun.dataset.name}</CardTitle>
+            <CardDescription>
+              {selectedRun.config.target} on {selectedRun.config.collection ?? 'the dataset corpus'} · {selectedRun.config.embedding_model} · {selectedRun.duration_ms} ms
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="grid grid-cols-2 md:grid-cols-4 lg:grid-cols-6 gap-4">
+              {Object.entries(selectedRun.metrics).map(([name, value]) => (
+                <div key={name} className="text-center">
+                  <div className="text-xl font-bold">{formatValue(value)}</div>
+                  <div className="text-xs text-muted-foreground">{name}</div>
+                </div>
+              ))}
+            </div>
+            <ScrollArea className="h-72">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Question</TableHead>
+                    <TableHead>Retrieved</TableHead>
+                    <TableHead className="text-right">mrr</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {selectedRun.results.map(result => (
+                    <TableRow key={result.question_id}>
+                      <TableCell className="max-w-md">
+                        <div className="font-medium">{result.question}</div>
+                        {result.error && <div className="text-xs text-red-600">{result.error}</div>}
+                      </TableCell>
+                      <TableCell>
+                        <div className="flex flex-wrap gap-1">
+                          {result.retrieved_document_ids.map(id => (
+                            <Badge key={id} variant={result.relevant_document_ids.includes(id) ? 'default' : 'outline'}>{id}</Badge>
+                          ))}
+                        </div>
+                      </TableCell>
+                      <TableCell className="text-right font-mono">{formatValue(result.metrics.mrr)}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </ScrollArea>
+          </CardContent>
+        </Card>
+      )}
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Compare Runs</CardTitle>
+          <CardDescription>Metric changes from a base run to a candidate run</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="flex flex-wrap items-center gap-2">
+            <Select value={baseId} onValueChange={setBaseId}>
+              <SelectTrigger className="w-72">
+                <SelectValue placeholder="Base run" />
+              </SelectTrigger>
+              <SelectContent>
+                {runs.map(run => (
+                  <SelectItem key={run.id} value={run.id}>{runName(run)}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Select value={candidateId} onValueChange={setCandidateId}>
+              <SelectTrigger className="w-72">
+                <SelectValue placeholder="Candidate run" />
+              </SelectTrigger>
+              <SelectContent>
+                {runs.map(run => (
+                  <SelectItem key={run.id} value={run.id}>{runName(run)}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button onClick={compareRuns} disabled={!baseId || !candidateId}>
+              <GitCompare className="h-4 w-4 mr-2" />
+              Compare
+            </Button>
+          </div>
+
+          {comparison && (
+            <div className="space-y-4">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Metric</TableHead>
+                    <TableHead className="text-right">Base</TableHead>
+                    <TableHead className="text-right">Candidate</TableHead>
+                    <TableHead className="text-right">Change</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {Object.entries(comparison.metrics).map(([name, change]) => (
+                    <TableRow key={name}>
+                      <TableCell>{name}</TableCell>
+                      <TableCell className="text-right font-mono">{formatValue(change.base)}</TableCell>
+                      <TableCell className="text-right font-mono">{formatValue(change.candidate)}</TableCell>
+                      <TableCell className={`text-right font-mono ${deltaColor(change.delta)}`}>{formatDelta(change.delta)}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+
+              {comparison.questions.length > 0 ? (
+                <div className="space-y-2">
+                  <h3 className="text-sm font-medium">Changed questions</h3>
+                  {comparison.questions.map(question => (
+                    <div key={question.question_id} className="border rounded-lg p-3">
+                      <p className="text-sm">{question.question}</p>
+                      <div className="flex flex-wrap gap-3 mt-1">
+                        {Object.entries(question.changes).map(([name, change]) => (
+                          <span key={name} className={`text-xs font-mono ${deltaColor(change.delta)}`}>
+                            {name} {formatDelta(change.delta)}
+                          </span>
+                        ))}
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              ) : (
+                <p className="text-sm text-muted-foreground">No question changed between these runs</p>
+              )}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -35,15 +35,53 @@ interface SearchResponse {
   citations: Citation[];
   sources: SearchResult[];
   confidence_score: number;
+  confidence_breakdown?: { explanation: string };
   processing_time: number;
   timestamp: string;
 }
 
+type SearchStage = 'retrieving' | 'ranking' | 'generating' | 'refining';
+
+const STAGE_LABELS: Record<SearchStage, string> = {
+  retrieving: 'Retrieving sources...',
+  ranking: 'Ranking results...',
+  generating: 'Generating answer...',
+  refining: 'Reviewing answer...',
+};
+
+// Parses a server-sent event stream into (event, data) pairs
+async function* readEventStream(response: Response): AsyncGenerator<{ event: string; data: any }> {
+  const reader = response.body!.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    buffer += decoder.decode(value, { stream: true });
+
+    const messages = buffer.split('\n\n');
+    buffer = messages.pop() || '';
+
+    for (const message of messages) {
+      let event = 'message';
+      let data = '';
+      for (const line of message.split('\n')) {
+        if (line.startsWith('event:')) event = line.slice(6).trim();
+        if (line.startsWith('data:')) data += line.slice(5).trim();
+      }
+      if (data) yield { event, data: JSON.parse(data) };
+    }
+  }
+}
+
 export default function SearchInterface() {
   const [query, setQuery] = useState('');
   const [searchType, setSearchType] = useState<'hybrid' | 'web' | 'vector'>('hybrid');
   const [isLoading, setIsLoading] = useState(false);
   const [searchResults, setSearchResults] = useState<SearchResponse | null>(null);
+  const [stage, setStage] = useState<SearchStage | null>(null);
+  const [isStreaming, setIsStreaming] = useState(false);
   const { toast } = useToast();
 
   const handleSearch = async () => {
@@ -57,7 +95,9 @@ export default function SearchInterface() {
     }
 
     setIsLoading(true);
+    setIsStreaming(true);
     setSearchResults(null);
+    setStage(null);
 
     try {
       const response = await fetch('/api/search', {
@@ -70,20 +110,61 @@ export default function SearchInterface() {
           search_type: searchType,
           max_results: 10,
           include_citations: true,
+          stream: true,
         }),
       });
 
-      if (!response.ok) {
+      if (!response.ok || !response.body) {
         throw new Error('Search failed');
       }
 
-      const data: SearchResponse = await response.json();
-      setSearchResults(data);
-
-      toast({
-        title: "Search Complete",
-        description: `Found ${data.sources.length} sources in ${data.processing_time.toFixed(2)}s`,
-      });
+      let sourceCount = 0;
+      for await (const { event, data } of readEventStream(response)) {
+        switch (event) {
+          case 'stage':
+            setStage(data.stage);
+            break;
+          case 'sources':
+            sourceCount = data.sources.length;
+            setSearchResults({
+              query_id: data.query_id,
+              response: '',
+              citations: [],
+              sources: data.sources,
+              confidence_score: 0,
+              processing_time: 0,
+              timestamp: new Date().toISOString(),
+            });
+            // Sources are on screen, so the spinner is no longer needed
+            setIsLoading(false);
+            break;
+          case 'token':
+            setSearchResults(prev => prev ? { ...prev, response: prev.response + data.text } : prev);
+            break;
+          case 'critique':
+            // A revised answer replaces the streamed draft
+            if (data.revised && data.response) {
+              setSearchResults(prev => prev ? { ...prev, response: data.response } : prev);
+            }
+            break;
+          case 'done':
+            setSearchResults(prev => prev ? {
+              ...prev,
+              citations: data.citations,
+              confidence_score: data.confidence_score,
+              confidence_breakdown: data.confidence_breakdown,
+              processing_time: data.processing_time,
+              timestamp: data.timestamp,
+            } : prev);
+            toast({
+              title: "Search Complete",
+              description: `Found ${sourceCount} sources in ${data.processing_time.toFixed(2)}s`,
+            });
+            break;
+          case 'error':
+            throw new Error(data.error);
+        }
+      }
     } catch (error) {
       toast({
         title: "Search Error",
@@ -92,6 +173,8 @@ export default function SearchInterface() {
       });
     } finally {
       setIsLoading(false);
+      setIsStreaming(false);
+      setStage(null);
     }
   };
 
@@ -109,7 +192,7 @@ export default function SearchInterface() {
 
   const formatResponse = (response: string) => {
     // Simple formatting for citations in the response
-    return response.replace(/\[Source (\d+)\]/g, (match, sourceNum) => {
+    return response.replace(/\[(?:Source|Document) (\d+)\]/g, (match, sourceNum) => {
       const sourceIndex = parseInt(sourceNum) - 1;
       const source = searchResults?.sources[sourceIndex];
       if (source) {
@@ -179,13 +262,22 @@ export default function SearchInterface() {
                 <div className="flex items-center justify-between">
                   <CardTitle>Answer</CardTitle>
                   <div className="flex items-center gap-2">
-                    <Badge variant="outline">
-                      Confidence: {formatConfidenceScore(searchResults.confidence_score)}
-                    </Badge>
-                    <Badge variant="outline">
-                      <Clock className="h-3 w-3 mr-1" />
-                      {searchResults.processing_time.toFixed(2)}s
-                    </Badge>
+                    {isStreaming ? (
+                      <Badge variant="outline">
+                        <Loader2 className="h-3 w-3 mr-1 animate-spin" />
+                        {stage ? STAGE_LABELS[stage] : 'Working...'}
+                      </Badge>
+                    ) : (
+                      <>
+                        <Badge variant="outline" title={searchResults.confidence_breakdown?.explanation}>
+                          Confidence: {formatConfidenceScore(searchResults.confidence_score)}
+                        </Badge>
+                        <Badge variant="outline">
+                          <Clock className="h-3 w-3 mr-1" />
+                          {searchResults.processing_time.toFixed(2)}s
+                        </Badge>
+                      </>
+                    )}
                   </div>
                 </div>
                 <CardDescription>
@@ -288,7 +380,9 @@ export default function SearchInterface() {
         <Card>
           <CardContent className="p-12 text-center">
             <Loader2 className="h-8 w-8 animate-spin mx-auto mb-4" />
-            <p className="text-muted-foreground">Searching and analyzing sources...</p>
+            <p className="text-muted-foreground">
+              {stage ? STAGE_LABELS[stage] : 'Searching and analyzing sources...'}
+            </p>
           </CardContent>
         </Card>
       )}
@@ -205,6 +205,7 @@ export class AgentCoordinator {
       case 'search':
       case 'web-search':
       case 'vector-search':
+      case 'keyword-search':
       case 'hybrid-search':
         // Find search agent
         return availableAgents.find(agent => 
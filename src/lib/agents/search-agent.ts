@@ -1,11 +1,23 @@
 import { BaseAgent, AgentMessage, AgentCapabilities } from './base-agent';
 import ZAI from 'z-ai-web-dev-sdk';
+import { RankedList, reciprocalRankFusion } from '@/lib/rag/rank-fusion';
+import { collectionManager } from '@/lib/rag/collections';
+
+// Per-source weights for reciprocal-rank fusion in hybrid search
+export interface HybridWeights {
+  web?: number;
+  vector?: number;
+  keyword?: number;
+}
 
 export interface SearchQuery {
   query: string;
-  searchType: 'web' | 'vector' | 'hybrid';
+  searchType: 'web' | 'vector' | 'keyword' | 'hybrid';
   filters?: Record<string, any>;
   maxResults?: number;
+  weights?: HybridWeights;
+  // Knowledge-base collection for vector and keyword search; the default collection when omitted
+  collection?: string;
 }
 
 export interface SearchResult {
@@ -20,6 +32,8 @@ export interface SearchResult {
 
 export class SearchAgent extends BaseAgent {
   private zai: ZAI | null = null;
+  private fusionWeights: Required<HybridWeights>;
+  private rrfK: number;
   private searchStats: {
     totalSearches: number;
     successfulSearches: number;
@@ -27,15 +41,18 @@ export class SearchAgent extends BaseAgent {
     averageResponseTime: number;
   };
 
-  constructor(id: string) {
+  constructor(id: string, options: { fusionWeights?: HybridWeights; rrfK?: number } = {}) {
     const capabilities: AgentCapabilities = {
       search: true,
       processing: false,
       safety: false,
-      specialized: ['web-search', 'vector-search', 'hybrid-search']
+      specialized: ['web-search', 'vector-search', 'keyword-search', 'hybrid-search']
     };
 
     super(id, 'search-agent', capabilities);
+
+    this.fusionWeights = { web: 1, vector: 1, keyword: 1, ...options.fusionWeights };
+    this.rrfK = options.rrfK ?? 60;
     
     this.searchStats = {
       totalSearches: 0,
@@ -69,6 +86,8 @@ export class SearchAgent extends BaseAgent {
           return await this.handleWebSearch(message.payload);
         case 'vector-search':
           return await this.handleVectorSearch(message.payload);
+        case 'keyword-search':
+          return await this.handleKeywordSearch(message.payload);
         case 'get-stats':
           return this.searchStats;
         default:
@@ -98,6 +117,8 @@ export class SearchAgent extends BaseAgent {
         return await this.handleWebSearch(payload);
       case 'vector':
         return await this.handleVectorSearch(payload);
+      case 'keyword':
+        return await this.handleKeywordSearch(payload);
       case 'hybrid':
         return await this.handleHybridSearch(payload);
       default:
@@ -145,25 +166,24 @@ export class SearchAgent extends BaseAgent {
   }
 
   private async handleVectorSearch(payload: SearchQuery): Promise<SearchResult[]> {
-    // Import vector store dynamically to avoid circular dependencies
-    const { vectorStore, embeddingGenerator } = await import('@/lib/rag/vector-store');
-
     try {
-      // Generate query embedding
-      const queryEmbedding = await embeddingGenerator.generateEmbedding(payload.query);
+      const { store, embeddingProvider } = await collectionManager.get(payload.collection);
+
+      // Generate query embedding with the collection's provider
+      const queryEmbedding = await embeddingProvider.generateEmbedding(payload.query);
       
-      // Perform similarity search
-      const vectorResults = await vectorStore.similaritySearch(
+      // Retrieve the best-matching chunk of each document
+      const vectorResults = await store.searchBestChunks(
         queryEmbedding,
         payload.maxResults || 5,
         payload.filters
       );
 
       const searchResults: SearchResult[] = vectorResults.map((result: any, index: number) => ({
-        id: `vector_${result.id}`,
+        id: `vector_${result.metadata.document_id || result.id}`,
         title: result.metadata.title || 'Document',
         url: result.metadata.url || '',
-        snippet: result.content.substring(0, 200) + '...',
+        snippet: this.buildSnippet(result.content),
         relevanceScore: result.score,
         sourceType: 'vector',
         metadata: result.metadata
@@ -179,36 +199,82 @@ export class SearchAgent extends BaseAgent {
     }
   }
 
-  private async handleHybridSearch(payload: SearchQuery): Promise<SearchResult[]> {
+  private async handleKeywordSearch(payload: SearchQuery): Promise<SearchResult[]> {
     try {
-      // Execute both web and vector searches in parallel
-      const [webResults, vectorResults] = await Promise.allSettled([
-        this.handleWebSearch({ ...payload, maxResults: Math.floor((payload.maxResults || 10) / 2) }),
-        this.handleVectorSearch({ ...payload, maxResults: Math.ceil((payload.maxResults || 10) / 2) })
-      ]);
+      const { store } = await collectionManager.get(payload.collection);
+      const keywordResults = await store.keywordSearch(
+        payload.query,
+        payload.maxResults || 5,
+        payload.filters
+      );
 
-      const results: SearchResult[] = [];
-      
-      if (webResults.status === 'fulfilled') {
-        results.push(...webResults.value);
-      } else {
-        this.log(`Web search in hybrid failed: ${webResults.reason}`, 'warn');
-      }
+      const searchResults: SearchResult[] = keywordResults.map((result: any) => ({
+        id: `vector_${result.metadata.document_id || result.id}`,
+        title: result.metadata.title || 'Document',
+        url: result.metadata.url || '',
+        snippet: this.buildSnippet(result.content),
+        relevanceScore: result.score,
+        sourceType: 'keyword',
+        metadata: result.metadata
+      }));
 
-      if (vectorResults.status === 'fulfilled') {
-        results.push(...vectorResults.value);
-      } else {
-        this.log(`Vector search in hybrid failed: ${vectorResults.reason}`, 'warn');
-      }
+      this.searchStats.successfulSearches++;
+      this.log(`Keyword search completed with ${searchResults.length} results`);
+      return searchResults;
 
-      // Sort by relevance score and return top results
-      const sortedResults = results
-        .sort((a, b) => b.relevanceScore - a.relevanceScore)
-        .slice(0, payload.maxResults || 10);
+    } catch (error) {
+      this.log(`Keyword search failed: ${error}`, 'error');
+      throw error;
+    }
+  }
+
+  private async handleHybridSearch(payload: SearchQuery): Promise<SearchResult[]> {
+    try {
+      const maxResults = payload.maxResults || 10;
+      const weights = { ...this.fusionWeights, ...payload.weights };
+
+      // Execute web, vector and keyword searches in parallel
+      const sources: Array<[keyof HybridWeights, (query: SearchQuery) => Promise<SearchResult[]>]> = [
+        ['web', query => this.handleWebSearch(query)],
+        ['vector', query => this.handleVectorSearch(query)],
+        ['keyword', query => this.handleKeywordSearch(query)]
+      ];
+      const activeSources = sources.filter(([source]) => (weights[source] ?? 0) > 0);
+
+      const settled = await Promise.allSettled(
+        activeSources.map(([, search]) => search({ ...payload, maxResults }))
+      );
+
+      const rankedLists: RankedList<SearchResult>[] = [];
+      settled.forEach((outcome, index) => {
+        const source = activeSources[index][0];
+        if (outcome.status === 'fulfilled') {
+          rankedLists.push({ source, items: outcome.value, weight: weights[source] });
+        } else {
+          this.log(`${source} search in hybrid failed: ${outcome.reason}`, 'warn');
+        }
+      });
+
+      // Fuse by rank, since cosine, BM25 and web rank scores are not comparable
+      const fused = reciprocalRankFusion(rankedLists, result => this.fusionKey(result), this.rrfK);
+      const maxFusedScore = rankedLists.reduce((sum, list) => sum + (list.weight ?? 1), 0) / (this.rrfK + 1);
+
+      const fusedResults: SearchResult[] = fused
+        .slice(0, maxResults)
+        .map(({ item, score, ranks }) => ({
+          ...item,
+          relevanceScore: maxFusedScore > 0 ? score / maxFusedScore : 0,
+          metadata: {
+            ...item.metadata,
+            originalScore: item.relevanceScore,
+            fusionScore: score,
+            sourceRanks: ranks
+          }
+        }));
 
       this.searchStats.successfulSearches++;
-      this.log(`Hybrid search completed with ${sortedResults.length} results`);
-      return sortedResults;
+      this.log(`Hybrid search completed with ${fusedResults.length} results`);
+      return fusedResults;
 
     } catch (error) {
       this.log(`Hybrid search failed: ${error}`, 'error');
@@ -216,6 +282,20 @@ export class SearchAgent extends BaseAgent {
     }
   }
 
+  // Knowledge-base results from vector and keyword search share a document id
+  private fusionKey(result: SearchResult): string {
+    if (result.metadata?.document_id) {
+      return `kb:${result.metadata.document_id}`;
+    }
+    return result.url || result.id;
+  }
+
+  private buildSnippet(content: string, maxLength: number = 300): string {
+    if (content.length <= maxLength) return content;
+    const cut = content.lastIndexOf(' ', maxLength);
+    return content.substring(0, cut > 0 ? cut : maxLength) + '...';
+  }
+
   private calculateRelevanceScore(result: any, rank: number): number {
     let score = 1.0;
     
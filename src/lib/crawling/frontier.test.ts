@@ -0,0 +1,95 @@
+import { describe, expect, it } from 'vitest';
+import { CrawlFrontier, FrontierStrategy, matchesGlob } from './frontier';
+
+const SITE = 'https://example.com';
+
+// Seed -> a, b; a -> a1; b -> b1
+function crawlOrder(strategy: FrontierStrategy, frontier = new CrawlFrontier(strategy, 3)): string[] {
+  const links: Record<string, string[]> = { '/': ['/a', '/b'], '/a': ['/a1'], '/b': ['/b1'] };
+  const order: string[] = [];
+
+  frontier.add(`${SITE}/`, 0);
+  let entry;
+  while ((entry = frontier.next())) {
+    const path = entry.url.slice(SITE.length);
+    order.push(path);
+    (links[path] || []).forEach(link => frontier.add(`${SITE}${link}`, entry!.depth + 1, entry!.url));
+  }
+  return order;
+}
+
+describe('CrawlFrontier', () => {
+  it('crawls breadth-first', () => {
+    expect(crawlOrder('bfs')).toEqual(['/', '/a', '/b', '/a1', '/b1']);
+  });
+
+  it('crawls depth-first', () => {
+    expect(crawlOrder('dfs')).toEqual(['/', '/b', '/b1', '/a', '/a1']);
+  });
+
+  it('crawls the highest score first under the priority strategy', () => {
+    const frontier = new CrawlFrontier('priority', 3, { urlPatterns: [{ pattern: '*/B*', weight: 2 }] });
+    expect(crawlOrder('priority', frontier)).toEqual(['/', '/b', '/b1', '/a', '/a1']);
+  });
+
+  it('scores topic terms in anchor text and path', () => {
+    const frontier = new CrawlFrontier('priority', 2, { topic: 'vector databases' });
+    frontier.add(`${SITE}/about`, 1, undefined, 'About us');
+    frontier.add(`${SITE}/blog/1`, 1, undefined, 'Comparing vector databases');
+    frontier.add(`${SITE}/vectors`, 1);
+
+    expect(frontier.next()).toMatchObject({ url: `${SITE}/blog/1`, score: 1 });
+    expect(frontier.next()).toMatchObject({ url: `${SITE}/vectors`, score: 0.5 });
+    expect(frontier.next()).toMatchObject({ url: `${SITE}/about`, score: 0 });
+  });
+
+  it('skips visited URLs and URLs past the maximum depth', () => {
+    const frontier = new CrawlFrontier('bfs', 1);
+    frontier.markVisited(`${SITE}/seen`);
+
+    expect(frontier.add(`${SITE}/seen`, 0)).toBe(false);
+    expect(frontier.add(`${SITE}/deep`, 2)).toBe(false);
+    expect(frontier.add(`${SITE}/ok`, 1)).toBe(true);
+    expect(frontier.add(`${SITE}/ok`, 1)).toBe(false);
+  });
+
+  it('moves a rediscovered URL up to its smaller depth', () => {
+    const frontier = new CrawlFrontier('bfs', 3);
+    frontier.add(`${SITE}/x`, 3, `${SITE}/deep`);
+    frontier.add(`${SITE}/y`, 2);
+    expect(frontier.add(`${SITE}/x`, 1, `${SITE}/`)).toBe(true);
+
+    expect(frontier.next()).toMatchObject({ url: `${SITE}/x`, depth: 1, parent: `${SITE}/` });
+    expect(frontier.next()).toMatchObject({ url: `${SITE}/y` });
+    expect(frontier.next()).toBeUndefined();
+  });
+
+  it.each<FrontierStrategy>(['bfs', 'dfs', 'priority'])('pops %s seeds newest first', strategy => {
+    const frontier = new CrawlFrontier(strategy);
+    frontier.addSeeds([
+      { url: `${SITE}/old`, lastModified: '2023-01-01' },
+      { url: `${SITE}/undated` },
+      { url: `${SITE}/new`, lastModified: '2024-06-01' }
+    ]);
+
+    const order = [frontier.next(), frontier.next(), frontier.next()].map(entry => entry?.url.slice(SITE.length));
+    expect(order).toEqual(['/new', '/old', '/undated']);
+  });
+});
+
+describe('matchesGlob', () => {
+  it('matches * and ? wildcards against the whole text', () => {
+    expect(matchesGlob('*/docs/*', 'https://example.com/docs/intro')).toBe(true);
+    expect(matchesGlob('*/docs/*', 'https://example.com/blog/docs')).toBe(false);
+    expect(matchesGlob('https://example.com/v?/api', 'https://example.com/v2/api')).toBe(true);
+    expect(matchesGlob('https://example.com/v?/api', 'https://example.com/v10/api')).toBe(false);
+    expect(matchesGlob('*.pdf', 'https://example.com/report.pdf?x=1')).toBe(false);
+    expect(matchesGlob('**', '')).toBe(true);
+  });
+
+  it('stays fast on patterns that make regular expressions backtrack', () => {
+    const started = Date.now();
+    expect(matchesGlob('*a*a*a*a*a*a*a*a*b', 'a'.repeat(2000))).toBe(false);
+    expect(Date.now() - started).toBeLessThan(1000);
+  });
+});
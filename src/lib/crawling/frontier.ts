@@ -0,0 +1,205 @@
+import { tokenize } from '@/lib/rag/embeddings';
+
+// The queue of URLs a crawl still has to visit. Every URL carries its hop
+// depth: the seed is depth 0 and a link found on a depth-d page is depth d+1.
+// A URL rediscovered at a smaller depth moves up to that depth.
+//
+// Ordering strategies:
+// - bfs: shallowest first, in discovery order
+// - dfs: most recently discovered first
+// - priority: highest score first, ties broken breadth-first. A URL scores
+//   the weights of the URL patterns it matches, plus up to 1 for the share of
+//   topic terms found in its anchor text and URL path. Patterns are globs
+//   rather than regular expressions, so a caller-supplied pattern cannot
+//   backtrack for long on a URL.
+// Seeds from sitemaps and feeds all sit at depth 0 and are queued so that the
+// most recently modified come out first under every strategy.
+
+export type FrontierStrategy = 'bfs' | 'dfs' | 'priority';
+
+export const FRONTIER_STRATEGIES: FrontierStrategy[] = ['bfs', 'dfs', 'priority'];
+
+export interface UrlPattern {
+  // Glob matched against the full URL, ignoring case: * matches any run of
+  // characters and ? one character, e.g. "*/docs/*"
+  pattern: string;
+  weight: number;
+}
+
+export interface PriorityOptions {
+  topic?: string;
+  urlPatterns?: UrlPattern[];
+}
+
+export interface FrontierEntry {
+  url: string;
+  depth: number;
+  // Page the URL was found on; unset for the seed
+  parent?: string;
+  anchorText?: string;
+  score: number;
+}
+
+interface QueuedEntry extends FrontierEntry {
+  order: number;
+}
+
+export class CrawlFrontier {
+  private queue: QueuedEntry[] = [];
+  // Smallest depth each URL has been queued at
+  private depths: Map<string, number> = new Map();
+  private visited: Set<string> = new Set();
+  private order = 0;
+  private topicTerms: Set<string>;
+  private patterns: UrlPattern[];
+
+  constructor(
+    private strategy: FrontierStrategy = 'bfs',
+    private maxDepth: number = 2,
+    priority: PriorityOptions = {}
+  ) {
+    this.topicTerms = new Set(tokenize(priority.topic || ''));
+    this.patterns = (priority.urlPatterns || []).map(({ pattern, weight }) => ({ pattern: pattern.toLowerCase(), weight }));
+  }
+
+  get size(): number {
+    return this.queue.length;
+  }
+
+  // Queues a URL unless it was visited, is past maxDepth, or is already
+  // queued at the same or a smaller depth. Returns whether it was queued.
+  add(url: string, depth: number, parent?: string, anchorText?: string): boolean {
+    if (depth > this.maxDepth || this.visited.has(url)) return false;
+
+    const queuedDepth = this.depths.get(url);
+    if (queuedDepth !== undefined && queuedDepth <= depth) return false;
+    this.depths.set(url, depth);
+
+    this.push({ url, depth, parent, anchorText, score: this.score(url, anchorText), order: this.order++ });
+    return true;
+  }
+
+  // Queues depth-0 seeds newest lastModified first; undated seeds go last
+  addSeeds(seeds: Array<{ url: string; lastModified?: string }>): void {
+    const time = (seed: { lastModified?: string }) => (seed.lastModified ? Date.parse(seed.lastModified) : 0);
+    const sorted = [...seeds].sort((a, b) => time(b) - time(a));
+    // Depth-first pops the most recently queued seed first
+    if (this.strategy === 'dfs') sorted.reverse();
+    sorted.forEach(seed => this.add(seed.url, 0));
+  }
+
+  // Next URL to crawl, marked as visited
+  next(): FrontierEntry | undefined {
+    while (this.queue.length > 0) {
+      const { order: _order, ...entry } = this.pop();
+      // Entries superseded by a shallower rediscovery are dropped here
+      if (this.visited.has(entry.url) || this.depths.get(entry.url) !== entry.depth) continue;
+
+      this.markVisited(entry.url);
+      return entry;
+    }
+    return undefined;
+  }
+
+  // Records a URL reached some other way, e.g. as a redirect target
+  markVisited(url: string): void {
+    this.visited.add(url);
+    this.depths.delete(url);
+  }
+
+  isVisited(url: string): boolean {
+    return this.visited.has(url);
+  }
+
+  private score(url: string, anchorText?: string): number {
+    if (this.strategy !== 'priority') return 0;
+
+    const lowerUrl = url.toLowerCase();
+    let score = this.patterns.reduce((sum, { pattern, weight }) => sum + (matchesGlob(pattern, lowerUrl) ? weight : 0), 0);
+
+    if (this.topicTerms.size > 0) {
+      let path = url;
+      try {
+        path = new URL(url).pathname;
+      } catch {
+        // Score the raw string
+      }
+      const terms = new Set(tokenize(`${anchorText || ''} ${path}`));
+      const matched = Array.from(this.topicTerms).filter(term => terms.has(term)).length;
+      score += matched / this.topicTerms.size;
+    }
+    return score;
+  }
+
+  // Binary heap ordered by compare(); for bfs and dfs it reduces to a FIFO or LIFO
+  private push(entry: QueuedEntry): void {
+    const queue = this.queue;
+    queue.push(entry);
+    let index = queue.length - 1;
+    while (index > 0) {
+      const parent = (index - 1) >> 1;
+      if (this.compare(queue[index], queue[parent]) >= 0) break;
+      [queue[index], queue[parent]] = [queue[parent], queue[index]];
+      index = parent;
+    }
+  }
+
+  private pop(): QueuedEntry {
+    const queue = this.queue;
+    const top = queue[0];
+    const last = queue.pop()!;
+    if (queue.length > 0) {
+      queue[0] = last;
+      let index = 0;
+      while (true) {
+        const left = index * 2 + 1;
+        const right = left + 1;
+        let smallest = index;
+        if (left < queue.length && this.compare(queue[left], queue[smallest]) < 0) smallest = left;
+        if (right < queue.length && this.compare(queue[right], queue[smallest]) < 0) smallest = right;
+        if (smallest === index) break;
+        [queue[index], queue[smallest]] = [queue[smallest], queue[index]];
+        index = smallest;
+      }
+    }
+    return top;
+  }
+
+  // Negative when a should be crawled before b
+  private compare(a: QueuedEntry, b: QueuedEntry): number {
+    switch (this.strategy) {
+      case 'dfs':
+        return b.order - a.order;
+      case 'priority':
+        return (b.score - a.score) || (a.depth - b.depth) || (a.order - b.order);
+      default:
+        return (a.depth - b.depth) || (a.order - b.order);
+    }
+  }
+}
+
+// Wildcard match in O(pattern x text) time: on a mismatch only the most recent
+// * is retried one character further, never earlier ones
+export function matchesGlob(pattern: string, text: string): boolean {
+  let p = 0;
+  let t = 0;
+  let star = -1;
+  let starText = 0;
+
+  while (t < text.length) {
+    if (p < pattern.length && (pattern[p] === '?' || pattern[p] === text[t])) {
+      p++;
+      t++;
+    } else if (p < pattern.length && pattern[p] === '*') {
+      star = p++;
+      starText = t;
+    } else if (star !== -1) {
+      p = star + 1;
+      t = ++starText;
+    } else {
+      return false;
+    }
+  }
+  while (p < pattern.length && pattern[p] === '*') p++;
+  return p === pattern.length;
+}
@@ -0,0 +1,142 @@
+import { decodeHtmlEntities, htmlToText } from '@/lib/rag/document-parser';
+
+// Pulls the readable part of a crawled HTML page: title, main text and the
+// links it contains. The main text comes from the largest <main>, <article>
+// or role="main" element; pages without one fall back to <body> minus
+// navigation, headers, footers, sidebars and forms.
+
+export interface ExtractedPage {
+  title?: string;
+  content: string;
+  description?: string;
+  // Absolute http(s) URLs without fragments, in document order, deduplicated
+  links: string[];
+  // Text of the first non-empty anchor pointing at each link
+  anchorTexts: Record<string, string>;
+}
+
+const MAIN_PATTERNS = [
+  /<main\b[^>]*>([\s\S]*?)<\/main>/gi,
+  /<article\b[^>]*>([\s\S]*?)<\/article>/gi,
+  /<(div|section)\b[^>]*\brole=["']main["'][^>]*>([\s\S]*?)<\/\1>/gi
+];
+const BOILERPLATE_PATTERN = /<(nav|header|footer|aside|form)\b[^>]*>[\s\S]*?<\/\1>/gi;
+// Main elements with less text than this are ignored in favour of the whole body
+const MIN_MAIN_TEXT_LENGTH = 200;
+const MAX_ANCHOR_TEXT_LENGTH = 200;
+
+export function extractPage(html: string, pageUrl: string): ExtractedPage {
+  const cleaned = html
+    .replace(/<!--[\s\S]*?-->/g, '')
+    .replace(/<(script|style|noscript|template|svg)\b[^>]*>[\s\S]*?<\/\1>/gi, '');
+
+  const anchorTexts = extractLinks(cleaned, pageUrl);
+  return {
+    title: extractTitle(cleaned),
+    content: extractMainText(cleaned),
+    description: extractMeta(cleaned, 'description'),
+    links: Array.from(anchorTexts.keys()),
+    anchorTexts: Object.fromEntries(Array.from(anchorTexts).filter(([, text]) => text))
+  };
+}
+
+const FEED_TYPES = ['application/rss+xml', 'application/atom+xml'];
+
+// RSS and Atom feeds the page advertises with <link rel="alternate">
+export function extractFeedLinks(html: string, pageUrl: string): string[] {
+  const feeds = new Set<string>();
+  for (const tag of html.match(/<link\b[^>]*>/gi) || []) {
+    const rel = attribute(tag, 'rel')?.toLowerCase().split(/\s+/) || [];
+    const type = attribute(tag, 'type')?.toLowerCase().trim();
+    const href = attribute(tag, 'href');
+    if (!href || !rel.includes('alternate') || !type || !FEED_TYPES.includes(type)) continue;
+
+    try {
+      feeds.add(new URL(decodeHtmlEntities(href.trim()), pageUrl).toString());
+    } catch {
+      // Skip hrefs that are not valid URLs
+    }
+  }
+  return Array.from(feeds);
+}
+
+function extractTitle(html: string): string | undefined {
+  const title = html.match(/<title[^>]*>([\s\S]*?)<\/title>/i)?.[1]
+    ?? extractMeta(html, 'og:title')
+    ?? html.match(/<h1\b[^>]*>([\s\S]*?)<\/h1>/i)?.[1];
+
+  if (title === undefined) return undefined;
+  const text = decodeHtmlEntities(title.replace(/<[^>]+>/g, '')).replace(/\s+/g, ' ').trim();
+  return text || undefined;
+}
+
+function extractMeta(html: string, name: string): string | undefined {
+  for (const tag of html.match(/<meta\b[^>]*>/gi) || []) {
+    const key = attribute(tag, 'name') ?? attribute(tag, 'property');
+    if (key?.toLowerCase() === name) {
+      const content = attribute(tag, 'content');
+      return content ? decodeHtmlEntities(content).trim() : undefined;
+    }
+  }
+  return undefined;
+}
+
+function extractMainText(html: string): string {
+  const candidates = MAIN_PATTERNS.flatMap(pattern =>
+    Array.from(html.matchAll(pattern), match => htmlToText(match[match.length - 1]).content)
+  );
+  const main = candidates.sort((a, b) => b.length - a.length)[0];
+  if (main && main.length >= MIN_MAIN_TEXT_LENGTH) {
+    return main;
+  }
+
+  const body = html.match(/<body\b[^>]*>([\s\S]*)<\/body>/i)?.[1]
+    ?? html.replace(/<head\b[^>]*>[\s\S]*?<\/head>/i, '');
+  const text = htmlToText(body.replace(BOILERPLATE_PATTERN, '')).content;
+
+  // Pages that are all boilerplate still get their main element, however short
+  return text || main || '';
+}
+
+// Links in document order, each with its anchor text ('' when it has none)
+function extractLinks(html: string, pageUrl: string): Map<string, string> {
+  const baseHref = html.match(/<base\b[^>]*>/i)?.[0];
+  let base = pageUrl;
+  if (baseHref) {
+    const href = attribute(baseHref, 'href');
+    try {
+      if (href) base = new URL(decodeHtmlEntities(href), pageUrl).toString();
+    } catch {
+      // Keep the page URL when <base> is malformed
+    }
+  }
+
+  const links = new Map<string, string>();
+  // The anchor text stops short of the next <a>, so an unclosed anchor can't swallow it
+  for (const [, tag, inner = ''] of html.matchAll(/(<a\b[^>]*>)(?:((?:(?!<a\b)[\s\S])*?)<\/a>)?/gi)) {
+    const href = attribute(tag, 'href');
+    if (!href) continue;
+
+    const rel = attribute(tag, 'rel')?.toLowerCase().split(/\s+/) || [];
+    if (rel.includes('nofollow')) continue;
+
+    try {
+      const url = new URL(decodeHtmlEntities(href.trim()), base);
+      if (url.protocol !== 'http:' && url.protocol !== 'https:') continue;
+      url.hash = '';
+      const key = url.toString();
+      if (!links.get(key)) {
+        const text = decodeHtmlEntities(inner.replace(/<[^>]+>/g, ' ')).replace(/\s+/g, ' ').trim();
+        links.set(key, text.slice(0, MAX_ANCHOR_TEXT_LENGTH));
+      }
+    } catch {
+      // Skip hrefs that are not valid URLs
+    }
+  }
+  return links;
+}
+
+function attribute(tag: string, name: string): string | undefined {
+  const match = tag.match(new RegExp(`\\s${name}\\s*=\\s*(?:"([^"]*)"|'([^']*)'|([^\\s"'>]+))`, 'i'));
+  return match ? match[1] ?? match[2] ?? match[3] : undefined;
+}
@@ -0,0 +1,347 @@
+import { LookupAddress } from 'dns';
+import { lookup } from 'dns/promises';
+import { isIP } from 'net';
+import { Agent, Response, fetch } from 'undici';
+import { constants, gunzipSync } from 'zlib';
+
+// HTTP fetching for the crawler: follows redirects itself so every hop can be
+// checked, gives up after a timeout, and stops reading a body at a size limit.
+// Gzipped files such as sitemap.xml.gz are decompressed, within the same limit.
+// Hosts that resolve to loopback, private or link-local addresses are refused,
+// on every redirect hop, unless CRAWL_ALLOW_PRIVATE_HOSTS=true (for local testing).
+// The check runs again inside the connection's own DNS lookup, so a host that
+// re-resolves to a private address after the first check is still refused.
+
+export interface FetchOptions {
+  // Covers the whole request, redirects and body included
+  timeoutMs?: number;
+  // Bodies are cut at this many bytes and marked as truncated
+  maxBytes?: number;
+  maxRedirects?: number;
+  userAgent?: string;
+  // Accepted media types; a response type matches when it starts with one of them
+  contentTypes?: string[];
+  signal?: AbortSignal;
+}
+
+export interface FetchedPage {
+  // URL the content was served from, after redirects
+  url: string;
+  // Every URL that redirected, in order
+  redirects: string[];
+  statusCode: number;
+  contentType: string;
+  lastModified?: string;
+  body: string;
+  bytes: number;
+  truncated: boolean;
+}
+
+export type FetchErrorCode =
+  | 'invalid_url'
+  | 'blocked_host'
+  | 'timeout'
+  | 'network'
+  | 'too_many_redirects'
+  | 'http_status'
+  | 'unsupported_content_type'
+  | 'decompression';
+
+export class FetchError extends Error {
+  constructor(message: string, public readonly code: FetchErrorCode, public readonly statusCode?: number) {
+    super(message);
+    this.name = 'FetchError';
+  }
+}
+
+// Product token matched against robots.txt user-agent lines
+export const CRAWLER_NAME = 'ConversationalSearchCrawler';
+export const DEFAULT_USER_AGENT = `Mozilla/5.0 (compatible; ${CRAWLER_NAME}/1.0)`;
+
+const DEFAULT_TIMEOUT_MS = 10000;
+const DEFAULT_MAX_BYTES = 2 * 1024 * 1024;
+const DEFAULT_MAX_REDIRECTS = 5;
+const REDIRECT_STATUSES = new Set([301, 302, 303, 307, 308]);
+
+// Connects only to addresses that pass the public-address check
+const publicAddressAgent = new Agent({ connect: { lookup: publicAddressLookup } });
+
+export async function fetchPage(url: string, options: FetchOptions = {}): Promise<FetchedPage> {
+  const timeoutMs = options.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+  const maxRedirects = options.maxRedirects ?? DEFAULT_MAX_REDIRECTS;
+
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), timeoutMs);
+  const abort = () => controller.abort();
+  options.signal?.addEventListener('abort', abort);
+
+  const redirects: string[] = [];
+  let currentUrl = url;
+
+  try {
+    currentUrl = await checkUrl(url);
+    while (true) {
+      let response: Response;
+      try {
+        response = await fetch(currentUrl, {
+          redirect: 'manual',
+          signal: controller.signal,
+          dispatcher: process.env.CRAWL_ALLOW_PRIVATE_HOSTS === 'true' ? undefined : publicAddressAgent,
+          headers: {
+            'User-Agent': options.userAgent || DEFAULT_USER_AGENT,
+            'Accept': (options.contentTypes?.length ? options.contentTypes.join(', ') + ', ' : '') + '*/*;q=0.1'
+          }
+        });
+      } catch (error) {
+        throw networkError(error, controller, options.signal, currentUrl, timeoutMs);
+      }
+
+      if (REDIRECT_STATUSES.has(response.status)) {
+        const location = response.headers.get('location');
+        await response.body?.cancel();
+        if (!location) {
+          throw new FetchError(`Redirect from ${currentUrl} has no Location header`, 'http_status', response.status);
+        }
+        if (redirects.length >= maxRedirects) {
+          throw new FetchError(`More than ${maxRedirects} redirects from ${url}`, 'too_many_redirects', response.status);
+        }
+        redirects.push(currentUrl);
+        currentUrl = await checkUrl(new URL(location, currentUrl).toString());
+        continue;
+      }
+
+      if (!response.ok) {
+        await response.body?.cancel();
+        throw new FetchError(`${currentUrl} responded with status ${response.status}`, 'http_status', response.status);
+      }
+
+      const contentType = (response.headers.get('content-type') || '').toLowerCase();
+      const mediaType = contentType.split(';')[0].trim();
+      if (options.contentTypes?.length && !options.contentTypes.some(type => mediaType.startsWith(type.toLowerCase()))) {
+        await response.body?.cancel();
+        throw new FetchError(`Unsupported content type "${mediaType || 'unknown'}" at ${currentUrl}`, 'unsupported_content_type', response.status);
+      }
+
+      let body: { data: Uint8Array; truncated: boolean };
+      try {
+        body = await readBody(response, options.maxBytes ?? DEFAULT_MAX_BYTES);
+      } catch (error) {
+        throw networkError(error, controller, options.signal, currentUrl, timeoutMs);
+      }
+
+      const data = isGzip(body.data) ? gunzip(body.data, options.maxBytes ?? DEFAULT_MAX_BYTES, currentUrl) : body.data;
+
+      return {
+        url: currentUrl,
+        redirects,
+        statusCode: response.status,
+        contentType,
+        lastModified: response.headers.get('last-modified') || undefined,
+        body: decodeBody(data, contentType),
+        bytes: body.data.length,
+        truncated: body.truncated
+      };
+    }
+  } finally {
+    clearTimeout(timer);
+    options.signal?.removeEventListener('abort', abort);
+  }
+}
+
+async function checkUrl(url: string): Promise<string> {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    throw new FetchError(`Invalid URL "${url}"`, 'invalid_url');
+  }
+  if (parsed.protocol !== 'http:' && parsed.protocol !== 'https:') {
+    throw new FetchError(`Unsupported protocol in ${url}`, 'invalid_url');
+  }
+  await checkHost(parsed.hostname);
+  parsed.hash = '';
+  return parsed.toString();
+}
+
+// Throws unless every address the host resolves to is public
+export async function checkHost(hostname: string): Promise<void> {
+  if (process.env.CRAWL_ALLOW_PRIVATE_HOSTS === 'true') return;
+
+  const host = hostname.replace(/^\[|\]$/g, '');
+  if (isIP(host)) {
+    assertPublic(host, [host]);
+  } else {
+    assertPublic(host, (await resolveHost(host)).map(entry => entry.address));
+  }
+}
+
+async function resolveHost(host: string): Promise<LookupAddress[]> {
+  try {
+    return await lookup(host, { all: true, verbatim: true });
+  } catch (error) {
+    throw new FetchError(`Failed to resolve ${host}: ${error instanceof Error ? error.message : String(error)}`, 'network');
+  }
+}
+
+function assertPublic(host: string, addresses: string[]): void {
+  const blocked = addresses.find(isNonPublicAddress);
+  if (blocked) {
+    throw new FetchError(`Refusing to fetch ${host}: it resolves to the non-public address ${blocked}`, 'blocked_host');
+  }
+}
+
+// dns.lookup for the fetch agent. Sockets connect to the addresses checked
+// here; IP literals skip lookup and were checked by checkHost.
+function publicAddressLookup(
+  hostname: string,
+  options: { all?: boolean },
+  callback: (error: Error | null, address: string | LookupAddress[], family?: number) => void
+): void {
+  resolveHost(hostname).then(entries => {
+    assertPublic(hostname, entries.map(entry => entry.address));
+    if (options.all) {
+      callback(null, entries);
+    } else {
+      callback(null, entries[0].address, entries[0].family);
+    }
+  }).catch(error => callback(error, ''));
+}
+
+// Loopback, private, link-local, unspecified, multicast and reserved ranges,
+// including IPv4 addresses embedded in IPv6 (mapped, compatible, NAT64, 6to4)
+function isNonPublicAddress(address: string): boolean {
+  if (isIP(address) === 4) {
+    const [a, b] = address.split('.').map(Number);
+    return a === 0 || a === 10 || a === 127 || a >= 224
+      || (a === 100 && b >= 64 && b <= 127)
+      || (a === 169 && b === 254)
+      || (a === 172 && b >= 16 && b <= 31)
+      || (a === 192 && b === 168)
+      || (a === 198 && (b === 18 || b === 19));
+  }
+
+  const groups = parseIPv6(address);
+  if (!groups) return true;
+  const embedded = (high: number, low: number) => `${high >> 8}.${high & 0xff}.${low >> 8}.${low & 0xff}`;
+  const zeros = (start: number, end: number) => groups.slice(start, end).every(group => group === 0);
+
+  // ::ffff:a.b.c.d (mapped) and ::a.b.c.d (compatible, which includes :: and ::1)
+  if (zeros(0, 5) && (groups[5] === 0xffff || groups[5] === 0)) {
+    return isNonPublicAddress(embedded(groups[6], groups[7]));
+  }
+  // NAT64 64:ff9b::/96; the local-use 64:ff9b:1::/48 only reaches private networks
+  if (groups[0] === 0x64 && groups[1] === 0xff9b) {
+    return zeros(2, 6) ? isNonPublicAddress(embedded(groups[6], groups[7])) : groups[2] === 1;
+  }
+  // 6to4 2002:a.b.c.d::/48
+  if (groups[0] === 0x2002) {
+    return isNonPublicAddress(embedded(groups[1], groups[2]));
+  }
+
+  return (groups[0] & 0xfe00) === 0xfc00 // unique local fc00::/7
+    || groups[0] >= 0xfe80 // link-local, site-local and multicast
+    || (groups[0] === 0x2001 && (groups[1] === 0 || groups[1] === 0xdb8)) // Teredo, documentation
+    || (groups[0] === 0x100 && zeros(1, 4)); // discard-only 100::/64
+}
+
+// Eight 16-bit groups of an IPv6 address, or null when it cannot be parsed
+function parseIPv6(address: string): number[] | null {
+  let text = address.toLowerCase().replace(/%.*$/, '');
+  const dotted = text.match(/^(.*:)(\d+\.\d+\.\d+\.\d+)$/);
+  if (dotted) {
+    if (isIP(dotted[2]) !== 4) return null;
+    const [a, b, c, d] = dotted[2].split('.').map(Number);
+    text = `${dotted[1]}${((a << 8) | b).toString(16)}:${((c << 8) | d).toString(16)}`;
+  }
+
+  const halves = text.split('::');
+  if (halves.length > 2) return null;
+  const parse = (part: string) => (part ? part.split(':') : []).map(group => (/^[0-9a-f]{1,4}$/.test(group) ? parseInt(group, 16) : NaN));
+  const head = parse(halves[0]);
+  const tail = halves.length === 2 ? parse(halves[1]) : [];
+  const missing = 8 - head.length - tail.length;
+  if ((halves.length === 2 ? missing < 1 : missing !== 0)) return null;
+
+  const groups = [...head, ...new Array(missing).fill(0), ...tail];
+  return groups.some(Number.isNaN) ? null : groups;
+}
+
+function networkError(
+  error: unknown,
+  controller: AbortController,
+  signal: AbortSignal | undefined,
+  url: string,
+  timeoutMs: number
+): FetchError {
+  if (controller.signal.aborted && !signal?.aborted) {
+    return new FetchError(`Fetching ${url} timed out after ${timeoutMs} ms`, 'timeout');
+  }
+  // Raised by publicAddressLookup while connecting
+  if (error instanceof Error && error.cause instanceof FetchError) {
+    return error.cause;
+  }
+  return new FetchError(`Failed to fetch ${url}: ${error instanceof Error ? error.message : String(error)}`, 'network');
+}
+
+async function readBody(response: Response, maxBytes: number): Promise<{ data: Uint8Array; truncated: boolean }> {
+  if (!response.body) {
+    return { data: new Uint8Array(0), truncated: false };
+  }
+
+  const reader = response.body.getReader();
+  const parts: Uint8Array[] = [];
+  let size = 0;
+  let truncated = false;
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+
+    if (size + value.length > maxBytes) {
+      parts.push(value.subarray(0, maxBytes - size));
+      size = maxBytes;
+      truncated = true;
+      await reader.cancel();
+      break;
+    }
+    parts.push(value);
+    size += value.length;
+  }
+
+  const data = new Uint8Array(size);
+  let offset = 0;
+  for (const part of parts) {
+    data.set(part, offset);
+    offset += part.length;
+  }
+  return { data, truncated };
+}
+
+// fetch already undoes Content-Encoding, so a gzip header here means a gzipped file
+function isGzip(data: Uint8Array): boolean {
+  return data.length > 2 && data[0] === 0x1f && data[1] === 0x8b;
+}
+
+function gunzip(data: Uint8Array, maxBytes: number, url: string): Uint8Array {
+  try {
+    // Sync flush tolerates a body that was truncated mid-stream
+    return gunzipSync(data, { finishFlush: constants.Z_SYNC_FLUSH, maxOutputLength: maxBytes });
+  } catch (error) {
+    const reason = error instanceof RangeError ? `exceeds ${maxBytes} bytes` : 'is not valid gzip';
+    throw new FetchError(`Decompressed body of ${url} ${reason}`, 'decompression');
+  }
+}
+
+// Charset from the Content-Type header, else from a <meta> tag, else UTF-8
+function decodeBody(data: Uint8Array, contentType: string): string {
+  const head = new TextDecoder('latin1').decode(data.subarray(0, 1024));
+  const charset = contentType.match(/charset=["']?([\w-]+)/)?.[1]
+    || head.match(/<meta[^>]+charset=["']?([\w-]+)/i)?.[1]
+    || 'utf-8';
+
+  try {
+    return new TextDecoder(charset.toLowerCase()).decode(data);
+  } catch {
+    return new TextDecoder('utf-8').decode(data);
+  }
+}
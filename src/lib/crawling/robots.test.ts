@@ -0,0 +1,83 @@
+import { describe, expect, it } from 'vitest';
+import { RobotsFile } from './robots';
+
+const ROBOTS_TXT = `
+# Example site
+User-agent: *
+Disallow: /private
+Allow: /private/press
+Crawl-delay: 5
+
+User-agent: FriendlyBot/2.1
+User-agent: OtherBot
+Disallow: /search*?q=
+Disallow: /*.pdf$ # documents
+Allow: /
+
+Sitemap: https://example.com/sitemap.xml
+user-agent: friendlybot
+disallow: /drafts
+`;
+
+const robots = RobotsFile.parse(ROBOTS_TXT);
+
+function allowed(agent: string, path: string): boolean {
+  return robots.forAgent(agent).check(`https://example.com${path}`).allowed;
+}
+
+describe('RobotsFile', () => {
+  it('groups consecutive user-agent lines and collects sitemaps', () => {
+    expect(robots.groups.map(group => group.userAgents)).toEqual([['*'], ['friendlybot/2.1', 'otherbot'], ['friendlybot']]);
+    expect(robots.sitemaps).toEqual(['https://example.com/sitemap.xml']);
+  });
+
+  it('falls back to the * group for unnamed agents', () => {
+    const policy = robots.forAgent('SomeCrawler');
+    expect(policy.group?.crawlDelay).toBe(5);
+    expect(allowed('SomeCrawler', '/private/notes')).toBe(false);
+    expect(allowed('SomeCrawler', '/public')).toBe(true);
+  });
+
+  it('merges every group naming the agent, ignoring case and version', () => {
+    const policy = robots.forAgent('FRIENDLYBOT');
+    expect(policy.group?.crawlDelay).toBeUndefined();
+    expect(allowed('FriendlyBot', '/drafts/one')).toBe(false);
+    expect(allowed('FriendlyBot', '/private/notes')).toBe(true);
+  });
+
+  it('lets the longest matching rule decide, with Allow winning ties', () => {
+    expect(robots.forAgent('bot').check('https://example.com/private/press/2024')).toEqual({
+      allowed: true,
+      rule: 'Allow: /private/press'
+    });
+
+    const tie = RobotsFile.parse('User-agent: *\nDisallow: /page\nAllow: /page');
+    expect(tie.forAgent('bot').check('https://example.com/page').allowed).toBe(true);
+  });
+
+  it('supports * wildcards and $ anchors', () => {
+    expect(allowed('OtherBot', '/search/all?q=test')).toBe(false);
+    expect(allowed('OtherBot', '/search/all')).toBe(true);
+    expect(allowed('OtherBot', '/files/report.pdf')).toBe(false);
+    expect(allowed('OtherBot', '/files/report.pdf?download=1')).toBe(true);
+  });
+
+  it('always allows robots.txt itself', () => {
+    const strict = RobotsFile.parse('User-agent: *\nDisallow: /');
+    expect(strict.forAgent('bot').check('https://example.com/robots.txt').allowed).toBe(true);
+    expect(strict.forAgent('bot').check('https://example.com/').allowed).toBe(false);
+  });
+
+  it('matches patterns written with raw non-ASCII characters', () => {
+    const file = RobotsFile.parse('User-agent: *\nDisallow: /café');
+    expect(file.forAgent('bot').check('https://example.com/caf%C3%A9/menu').allowed).toBe(false);
+  });
+
+  it('allows everything when unavailable and nothing when unreachable', () => {
+    expect(new RobotsFile('unavailable').forAgent('bot').check('https://example.com/a').allowed).toBe(true);
+    expect(new RobotsFile('unreachable').forAgent('bot').check('https://example.com/a')).toEqual({
+      allowed: false,
+      rule: 'robots.txt unreachable'
+    });
+  });
+});
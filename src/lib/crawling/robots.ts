@@ -0,0 +1,211 @@
+import { CRAWLER_NAME, FetchError, fetchPage } from './page-fetcher';
+
+// robots.txt support (RFC 9309). Files are fetched once per origin and cached.
+// The crawler follows the groups naming its product token (CRAWLER_NAME,
+// case-insensitive), else the "*" groups. Within a group the longest
+// matching Allow/Disallow pattern decides, with Allow winning ties; "*"
+// matches any run of characters and a trailing "$" anchors at the end.
+//
+// Failures follow the RFC: an unavailable robots.txt (4xx, too many
+// redirects) allows everything, while an unreachable one (5xx, network error)
+// disallows everything until the cache entry expires.
+
+export interface RobotsRule {
+  allow: boolean;
+  pattern: string;
+}
+
+export interface RobotsGroup {
+  userAgents: string[];
+  rules: RobotsRule[];
+  // Seconds between requests, as declared by the site
+  crawlDelay?: number;
+}
+
+export interface RobotsVerdict {
+  allowed: boolean;
+  // The deciding rule as written in robots.txt, e.g. "Disallow: /private"
+  rule?: string;
+}
+
+export interface RobotsPolicy {
+  status: 'parsed' | 'unavailable' | 'unreachable';
+  group?: RobotsGroup;
+  sitemaps: string[];
+  check(url: string): RobotsVerdict;
+}
+
+interface CachedRobots {
+  expiresAt: number;
+  file: Promise<RobotsFile>;
+}
+
+const CACHE_TTL_MS = 24 * 60 * 60 * 1000;
+// Unreachable files are retried sooner than parsed ones
+const UNREACHABLE_TTL_MS = 10 * 60 * 1000;
+// Google's limit; anything past it is ignored
+const MAX_ROBOTS_BYTES = 500 * 1024;
+const ROBOTS_TIMEOUT_MS = 10000;
+
+export class RobotsFile {
+  constructor(
+    readonly status: RobotsPolicy['status'],
+    readonly groups: RobotsGroup[] = [],
+    readonly sitemaps: string[] = []
+  ) {}
+
+  static parse(text: string): RobotsFile {
+    const groups: RobotsGroup[] = [];
+    const sitemaps: string[] = [];
+    let current: RobotsGroup | null = null;
+    // Consecutive user-agent lines open one group
+    let collectingAgents = false;
+
+    for (const rawLine of text.split(/\r?\n|\r/)) {
+      const line = rawLine.replace(/#.*$/, '').trim();
+      const separator = line.indexOf(':');
+      if (separator === -1) continue;
+
+      const field = line.slice(0, separator).trim().toLowerCase();
+      const value = line.slice(separator + 1).trim();
+
+      switch (field) {
+        case 'user-agent':
+          if (!current || !collectingAgents) {
+            current = { userAgents: [], rules: [] };
+            groups.push(current);
+          }
+          current.userAgents.push(value.toLowerCase());
+          collectingAgents = true;
+          break;
+        case 'allow':
+        case 'disallow':
+          collectingAgents = false;
+          // An empty Disallow allows everything, which is the default anyway
+          if (current && value) current.rules.push({ allow: field === 'allow', pattern: value });
+          break;
+        case 'crawl-delay': {
+          collectingAgents = false;
+          const delay = parseFloat(value);
+          if (current && Number.isFinite(delay) && delay >= 0) current.crawlDelay = delay;
+          break;
+        }
+        case 'sitemap':
+          if (value) sitemaps.push(value);
+          break;
+      }
+    }
+
+    return new RobotsFile('parsed', groups, sitemaps);
+  }
+
+  forAgent(productToken: string): RobotsPolicy {
+    const group = this.selectGroup(productToken.toLowerCase());
+    const status = this.status;
+
+    return {
+      status,
+      group,
+      sitemaps: this.sitemaps,
+      check: (url: string) => {
+        if (status === 'unreachable') {
+          return { allowed: false, rule: 'robots.txt unreachable' };
+        }
+        return group ? matchRules(group.rules, url) : { allowed: true };
+      }
+    };
+  }
+
+  // Groups naming the same agent are merged
+  private selectGroup(productToken: string): RobotsGroup | undefined {
+    // "User-agent: Crawler/1.0" names the same agent as "User-agent: Crawler"
+    const named = this.groups.filter(group => group.userAgents.some(agent => agent.split('/')[0] === productToken));
+    const matching = named.length > 0 ? named : this.groups.filter(group => group.userAgents.includes('*'));
+
+    if (matching.length === 0) return undefined;
+    return {
+      userAgents: Array.from(new Set(matching.flatMap(group => group.userAgents))),
+      rules: matching.flatMap(group => group.rules),
+      crawlDelay: matching.find(group => group.crawlDelay !== undefined)?.crawlDelay
+    };
+  }
+}
+
+function matchRules(rules: RobotsRule[], url: string): RobotsVerdict {
+  const { pathname, search } = new URL(url);
+  if (pathname === '/robots.txt') return { allowed: true };
+
+  const path = pathname + search;
+  let best: RobotsRule | undefined;
+
+  for (const rule of rules) {
+    if (!patternToRegExp(rule.pattern).test(path)) continue;
+    if (!best || rule.pattern.length > best.pattern.length
+      || (rule.pattern.length === best.pattern.length && rule.allow && !best.allow)) {
+      best = rule;
+    }
+  }
+
+  if (!best) return { allowed: true };
+  return { allowed: best.allow, rule: `${best.allow ? 'Allow' : 'Disallow'}: ${best.pattern}` };
+}
+
+function patternToRegExp(pattern: string): RegExp {
+  const anchored = pattern.endsWith('$');
+  const body = (anchored ? pattern.slice(0, -1) : pattern)
+    .split('*')
+    .map(part => normalizePath(part).replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+    .join('.*');
+  return new RegExp(`^${body}${anchored ? '$' : ''}`);
+}
+
+// Percent-encodes characters that URL paths always carry encoded, so patterns
+// written with raw characters match
+function normalizePath(value: string): string {
+  return value.replace(/[^\x21-\x7e]/g, char => encodeURIComponent(char));
+}
+
+export class RobotsCache {
+  private entries: Map<string, CachedRobots> = new Map();
+
+  // The robots.txt policy that applies to the URL
+  async getPolicy(url: string, productToken: string = CRAWLER_NAME): Promise<RobotsPolicy> {
+    const origin = new URL(url).origin;
+    let entry = this.entries.get(origin);
+
+    if (!entry || entry.expiresAt <= Date.now()) {
+      entry = { expiresAt: Date.now() + CACHE_TTL_MS, file: this.load(origin) };
+      this.entries.set(origin, entry);
+
+      const cached = entry;
+      cached.file.then(file => {
+        if (file.status === 'unreachable') cached.expiresAt = Date.now() + UNREACHABLE_TTL_MS;
+      });
+    }
+
+    return (await entry.file).forAgent(productToken);
+  }
+
+  clear(): void {
+    this.entries.clear();
+  }
+
+  private async load(origin: string): Promise<RobotsFile> {
+    try {
+      const page = await fetchPage(`${origin}/robots.txt`, {
+        timeoutMs: ROBOTS_TIMEOUT_MS,
+        maxBytes: MAX_ROBOTS_BYTES
+      });
+      return RobotsFile.parse(page.body);
+    } catch (error) {
+      if (error instanceof FetchError && (error.code === 'too_many_redirects' || (error.code === 'http_status'
+        && error.statusCode !== undefined && error.statusCode >= 400 && error.statusCode < 500))) {
+        return new RobotsFile('unavailable');
+      }
+      console.error(`Failed to fetch robots.txt for ${origin}:`, error);
+      return new RobotsFile('unreachable');
+    }
+  }
+}
+
+export const robotsCache = new RobotsCache();
@@ -0,0 +1,173 @@
+import { decodeHtmlEntities } from '@/lib/rag/document-parser';
+import { extractFeedLinks } from './html-extractor';
+import { FetchedPage } from './page-fetcher';
+import { robotsCache } from './robots';
+
+// Finds crawl seeds in XML sitemaps and RSS/Atom feeds.
+// - Sitemaps: the seed URL when it points at an .xml or .xml.gz file, else the
+//   robots.txt Sitemap lines, else /sitemap.xml. Sitemap indexes are followed.
+// - Feeds: the seed URL when it serves a feed, else the feeds the seed page
+//   links to with <link rel="alternate">.
+// Dates (sitemap <lastmod>, feed pubDate/updated) are normalized to ISO 8601.
+
+export type SeedMode = 'links' | 'sitemap' | 'feed';
+
+export const SEED_MODES: SeedMode[] = ['links', 'sitemap', 'feed'];
+
+export interface DiscoveredSeed {
+  url: string;
+  lastModified?: string;
+}
+
+// Fetches a sitemap, feed or seed page; the crawler passes one that honours
+// robots.txt and the worker pool limits
+export type SeedFetcher = (url: string) => Promise<FetchedPage>;
+
+const MAX_SITEMAPS = 50;
+const MAX_FEEDS = 10;
+const MAX_SEEDS = 10000;
+
+export async function discoverSitemapSeeds(seedUrl: string, fetcher: SeedFetcher): Promise<DiscoveredSeed[]> {
+  const pending = /\.xml(\.gz)?$/i.test(new URL(seedUrl).pathname) ? [seedUrl] : await sitemapLocations(seedUrl);
+  const visited = new Set<string>();
+  const seeds = new Map<string, DiscoveredSeed>();
+
+  while (pending.length > 0 && visited.size < MAX_SITEMAPS && seeds.size < MAX_SEEDS) {
+    const url = pending.shift()!;
+    if (visited.has(url)) continue;
+    visited.add(url);
+
+    let page: FetchedPage;
+    try {
+      page = await fetcher(url);
+    } catch (error) {
+      console.error(`Failed to fetch sitemap ${url}:`, error);
+      continue;
+    }
+
+    const { sitemaps, urls } = parseSitemap(page.body, page.url);
+    pending.push(...sitemaps.map(sitemap => sitemap.url));
+    urls.forEach(seed => addSeed(seeds, seed));
+  }
+
+  return Array.from(seeds.values());
+}
+
+export async function discoverFeedSeeds(seedUrl: string, fetcher: SeedFetcher): Promise<DiscoveredSeed[]> {
+  const page = await fetcher(seedUrl);
+  if (isFeed(page.body)) {
+    return parseFeed(page.body, page.url).slice(0, MAX_SEEDS);
+  }
+
+  const seeds = new Map<string, DiscoveredSeed>();
+  for (const feedUrl of extractFeedLinks(page.body, page.url).slice(0, MAX_FEEDS)) {
+    try {
+      const feed = await fetcher(feedUrl);
+      parseFeed(feed.body, feed.url).forEach(seed => addSeed(seeds, seed));
+    } catch (error) {
+      console.error(`Failed to fetch feed ${feedUrl}:`, error);
+    }
+  }
+  return Array.from(seeds.values());
+}
+
+// <loc> and <lastmod> of a <urlset> or <sitemapindex>; a document can only be
+// one of the two, so one list is always empty
+export function parseSitemap(xml: string, sitemapUrl: string): { sitemaps: DiscoveredSeed[]; urls: DiscoveredSeed[] } {
+  const entries = (tag: string) => elements(xml, tag).flatMap(entry => {
+    const url = resolveUrl(elementText(entry, 'loc'), sitemapUrl);
+    return url ? [{ url, lastModified: toIsoDate(elementText(entry, 'lastmod')) }] : [];
+  });
+
+  return { sitemaps: entries('sitemap'), urls: entries('url') };
+}
+
+// Item links of an RSS 2.0/1.0 feed or entry links of an Atom feed
+export function parseFeed(xml: string, feedUrl: string): DiscoveredSeed[] {
+  const rssItems = elements(xml, 'item').map(item => ({
+    link: elementText(item, 'link') || permalinkGuid(item),
+    date: elementText(item, 'pubDate') || elementText(item, 'dc:date') || elementText(item, 'updated')
+  }));
+  const atomEntries = elements(xml, 'entry').map(entry => ({
+    link: atomLink(entry),
+    date: elementText(entry, 'updated') || elementText(entry, 'published')
+  }));
+
+  return [...rssItems, ...atomEntries].flatMap(({ link, date }) => {
+    const url = resolveUrl(link, feedUrl);
+    return url ? [{ url, lastModified: toIsoDate(date) }] : [];
+  });
+}
+
+async function sitemapLocations(seedUrl: string): Promise<string[]> {
+  const origin = new URL(seedUrl).origin;
+  const robots = await robotsCache.getPolicy(seedUrl);
+  const listed = robots.sitemaps.flatMap(sitemap => {
+    const url = resolveUrl(sitemap, origin);
+    return url ? [url] : [];
+  });
+  return listed.length > 0 ? listed : [`${origin}/sitemap.xml`];
+}
+
+function isFeed(body: string): boolean {
+  const head = body.slice(0, 2000).replace(/<\?[\s\S]*?\?>|<!--[\s\S]*?-->/g, '').trimStart();
+  return /^<(rss|feed|rdf:RDF)\b/i.test(head);
+}
+
+// Keeps the newest date when a URL is listed more than once
+function addSeed(seeds: Map<string, DiscoveredSeed>, seed: DiscoveredSeed): void {
+  const existing = seeds.get(seed.url);
+  if (existing) {
+    if (seed.lastModified && (!existing.lastModified || seed.lastModified > existing.lastModified)) {
+      existing.lastModified = seed.lastModified;
+    }
+  } else if (seeds.size < MAX_SEEDS) {
+    seeds.set(seed.url, { ...seed });
+  }
+}
+
+function elements(xml: string, tag: string): string[] {
+  const pattern = new RegExp(`<${tag}\\b[^>]*>([\\s\\S]*?)</${tag}>`, 'gi');
+  return Array.from(xml.matchAll(pattern), match => match[1]);
+}
+
+function elementText(xml: string, tag: string): string | undefined {
+  const inner = elements(xml, tag)[0];
+  if (inner === undefined) return undefined;
+  const text = decodeHtmlEntities(inner.replace(/<!\[CDATA\[([\s\S]*?)\]\]>/g, '$1')).trim();
+  return text || undefined;
+}
+
+function permalinkGuid(item: string): string | undefined {
+  const guid = item.match(/<guid\b([^>]*)>([\s\S]*?)<\/guid>/i);
+  if (!guid || /isPermaLink\s*=\s*["']false["']/i.test(guid[1])) return undefined;
+  return decodeHtmlEntities(guid[2]).trim() || undefined;
+}
+
+// The rel="alternate" link, or the first link without a rel
+function atomLink(entry: string): string | undefined {
+  const links = (entry.match(/<link\b[^>]*>/gi) || []).map(tag => ({
+    href: tag.match(/\shref\s*=\s*["']([^"']*)["']/i)?.[1],
+    rel: tag.match(/\srel\s*=\s*["']([^"']*)["']/i)?.[1]
+  }));
+  const link = links.find(({ rel }) => rel === 'alternate') ?? links.find(({ rel }) => !rel);
+  return link?.href ? decodeHtmlEntities(link.href) : undefined;
+}
+
+function resolveUrl(value: string | undefined, base: string): string | undefined {
+  if (!value) return undefined;
+  try {
+    const url = new URL(value, base);
+    if (url.protocol !== 'http:' && url.protocol !== 'https:') return undefined;
+    url.hash = '';
+    return url.toString();
+  } catch {
+    return undefined;
+  }
+}
+
+function toIsoDate(value: string | undefined): string | undefined {
+  if (!value) return undefined;
+  const time = Date.parse(value);
+  return Number.isNaN(time) ? undefined : new Date(time).toISOString();
+}
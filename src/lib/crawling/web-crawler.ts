@@ -1,11 +1,36 @@
-import ZAI from 'z-ai-web-dev-sdk';
+import { DuplicateMode, NearDuplicateIndex, computeSignature, getDuplicatePolicyFromEnv } from '@/lib/rag/near-duplicates';
+import { FetchedPage, fetchPage } from './page-fetcher';
+import { RobotsPolicy, robotsCache } from './robots';
+import { CrawlFrontier, FrontierEntry, FrontierStrategy, PriorityOptions } from './frontier';
+import { crawlWorkerPool } from './worker-pool';
+import { DiscoveredSeed, SeedMode, discoverFeedSeeds, discoverSitemapSeeds } from './seed-discovery';
+import { extractPage } from './html-extractor';
 
 export interface CrawlRequest {
   url: string;
+  // links follows links from url; sitemap and feed crawl only the URLs listed
+  // in the site's sitemaps or feeds, newest first. See seed-discovery.ts
+  seedMode?: SeedMode;
+  // Link hops from the seed URL; the seed is depth 0
   maxDepth?: number;
   maxPages?: number;
+  // Frontier order, breadth-first by default; see frontier.ts
+  strategy?: FrontierStrategy;
+  priority?: PriorityOptions;
   includeExternalLinks?: boolean;
   contentTypes?: string[];
+  // Per-page fetch limits; see page-fetcher.ts for the defaults
+  timeoutMs?: number;
+  maxBytes?: number;
+  maxRedirects?: number;
+  userAgent?: string;
+  // Minimum gap between requests to one host; a longer robots.txt Crawl-delay wins
+  hostDelayMs?: number;
+  // Pages this job fetches at once; the shared worker pool limits apply on top
+  concurrency?: number;
+  // Handling of pages that nearly duplicate an earlier page of the same crawl
+  duplicateMode?: DuplicateMode;
+  duplicateThreshold?: number;
 }
 
 export interface CrawlResult {
@@ -17,17 +42,42 @@ export interface CrawlResult {
     contentLength: number;
     wordCount: number;
     crawlTime: string;
+    // Link hops from the seed URL
+    depth?: number;
+    // Page this one was first found on
+    parentUrl?: string;
     statusCode?: number;
     contentType?: string;
     lastModified?: string;
+    description?: string;
+    // Requested URL when the page was reached through redirects
+    redirectedFrom?: string;
+    // The body was cut at the maxBytes limit
+    truncated?: boolean;
+    // Set on pages kept as near-duplicates of an earlier result
+    duplicateOf?: string;
+    duplicateSimilarity?: number;
+    // Near-duplicate pages merged into this result
+    duplicateUrls?: string[];
   };
 }
 
+export interface SkippedUrl {
+  url: string;
+  reason: 'robots_disallow' | 'robots_unreachable';
+  // The robots.txt rule that blocked the URL, e.g. "Disallow: /private"
+  rule?: string;
+  skippedAt: string;
+}
+
 export interface CrawlJob {
   id: string;
   request: CrawlRequest;
   status: 'pending' | 'crawling' | 'completed' | 'failed';
   results: CrawlResult[];
+  // URLs that were not fetched because robots.txt disallows them
+  skippedUrls: SkippedUrl[];
+  queuedAt: string;
   startTime?: string;
   endTime?: string;
   error?: string;
@@ -35,26 +85,38 @@ export interface CrawlJob {
     totalPages: number;
     successfulPages: number;
     failedPages: number;
+    // Near-duplicate pages that were skipped or merged
+    duplicatePages: number;
+    // URLs blocked by robots.txt
+    skippedPages: number;
     averageResponseTime: number;
+    // ms the job waited for a free job slot before it started
+    queueWaitTime: number;
+    // Average ms each page waited for a worker pool slot
+    averageSlotWaitTime: number;
+    // Successful pages per second of crawling
+    pagesPerSecond: number;
+    // URLs found in sitemaps or feeds
+    seedUrls: number;
   };
 }
 
+const DEFAULT_CONTENT_TYPES = ['text/html'];
+const DEFAULT_HOST_DELAY_MS = 100;
+const DEFAULT_MAX_DEPTH = 2;
+const DEFAULT_JOB_CONCURRENCY = 4;
+const DEFAULT_MAX_CONCURRENT_JOBS = 3;
+// Crawl-delay values past this are capped rather than stalling the crawl
+const MAX_CRAWL_DELAY_MS = 60000;
+// Sitemaps can list up to 50,000 URLs, so they get more room than pages
+const SEED_MAX_BYTES = 10 * 1024 * 1024;
+
 class WebCrawler {
   private activeJobs: Map<string, CrawlJob> = new Map();
-  private maxConcurrentJobs: number = 3;
-  private zai: ZAI | null = null;
-
-  constructor() {
-    this.initialize();
-  }
-
-  private async initialize(): Promise<void> {
-    try {
-      this.zai = await ZAI.create();
-    } catch (error) {
-      console.error('Failed to initialize ZAI for web crawler:', error);
-    }
-  }
+  private maxConcurrentJobs: number = parseInt(process.env.CRAWL_MAX_CONCURRENT_JOBS || '', 10) || DEFAULT_MAX_CONCURRENT_JOBS;
+  private runningJobs: number = 0;
+  // Jobs waiting for one of the maxConcurrentJobs slots, oldest first
+  private jobQueue: string[] = [];
 
   async startCrawl(request: CrawlRequest): Promise<string> {
     const jobId = this.generateJobId();
@@ -63,24 +125,47 @@ class WebCrawler {
       request,
       status: 'pending',
       results: [],
+      skippedUrls: [],
+      queuedAt: new Date().toISOString(),
       stats: {
         totalPages: 0,
         successfulPages: 0,
         failedPages: 0,
-        averageResponseTime: 0
+        duplicatePages: 0,
+        skippedPages: 0,
+        averageResponseTime: 0,
+        queueWaitTime: 0,
+        averageSlotWaitTime: 0,
+        pagesPerSecond: 0,
+        seedUrls: 0
       }
     };
 
     this.activeJobs.set(jobId, job);
-    
-    // Start crawling in background
-    this.executeCrawl(jobId).catch(error => {
-      console.error(`Crawl job ${jobId} failed:`, error);
-    });
+    this.jobQueue.push(jobId);
+    this.startQueuedJobs();
 
     return jobId;
   }
 
+  // Starts queued jobs in the background while job slots are free
+  private startQueuedJobs(): void {
+    while (this.runningJobs < this.maxConcurrentJobs && this.jobQueue.length > 0) {
+      const jobId = this.jobQueue.shift()!;
+      if (this.activeJobs.get(jobId)?.status !== 'pending') continue;
+
+      this.runningJobs++;
+      this.executeCrawl(jobId)
+        .catch(error => {
+          console.error(`Crawl job ${jobId} failed:`, error);
+        })
+        .finally(() => {
+          this.runningJobs--;
+          this.startQueuedJobs();
+        });
+    }
+  }
+
   async getCrawlJob(jobId: string): Promise<CrawlJob | undefined> {
     return this.activeJobs.get(jobId);
   }
@@ -95,6 +180,7 @@ class WebCrawler {
       job.status = 'failed';
       job.error = 'Crawl stopped by user';
       job.endTime = new Date().toISOString();
+      this.jobQueue = this.jobQueue.filter(id => id !== jobId);
       return true;
     }
     return false;
@@ -106,57 +192,140 @@ class WebCrawler {
 
     job.status = 'crawling';
     job.startTime = new Date().toISOString();
+    job.stats.queueWaitTime = Date.parse(job.startTime) - Date.parse(job.queuedAt);
 
     try {
-      const urlsToCrawl = new Set<string>([job.request.url]);
-      const crawledUrls = new Set<string>();
+      const frontier = new CrawlFrontier(
+        job.request.strategy,
+        job.request.maxDepth ?? DEFAULT_MAX_DEPTH,
+        job.request.priority
+      );
+      if (job.request.seedMode && job.request.seedMode !== 'links') {
+        const seeds = (await this.discoverSeeds(job.request, job.request.seedMode))
+          .filter(seed => this.isValidUrl(seed.url, job.request));
+        if (seeds.length === 0) {
+          throw new Error(`No ${job.request.seedMode} URLs found for ${job.request.url}`);
+        }
+        job.stats.seedUrls = seeds.length;
+        frontier.addSeeds(seeds);
+      } else {
+        frontier.add(job.request.url, 0);
+      }
       const results: CrawlResult[] = [];
       const responseTimes: number[] = [];
+      const slotWaitTimes: number[] = [];
+      const duplicatePolicy = {
+        ...getDuplicatePolicyFromEnv(),
+        ...(job.request.duplicateMode !== undefined && { mode: job.request.duplicateMode }),
+        ...(job.request.duplicateThreshold !== undefined && { threshold: job.request.duplicateThreshold })
+      };
+      const duplicateIndex = new NearDuplicateIndex();
+      const maxPages = job.request.maxPages || 50;
+      const concurrency = Math.max(1, job.request.concurrency ?? DEFAULT_JOB_CONCURRENCY);
 
-      while (urlsToCrawl.size > 0 && results.length < (job.request.maxPages || 50)) {
-        const currentUrl = urlsToCrawl.values().next().value;
-        urlsToCrawl.delete(currentUrl);
-
-        if (crawledUrls.has(currentUrl)) continue;
-        crawledUrls.add(currentUrl);
+      const crawlEntry = async (entry: FrontierEntry): Promise<void> => {
+        const currentUrl = entry.url;
 
-        const startTime = Date.now();
-        
         try {
-          const result = await this.crawlSingleUrl(currentUrl, job.request);
-          const responseTime = Date.now() - startTime;
-          responseTimes.push(responseTime);
+          const robots = await robotsCache.getPolicy(currentUrl);
+          const verdict = robots.check(currentUrl);
+          if (!verdict.allowed) {
+            job.skippedUrls.push({
+              url: currentUrl,
+              reason: robots.status === 'unreachable' ? 'robots_unreachable' : 'robots_disallow',
+              rule: verdict.rule,
+              skippedAt: new Date().toISOString()
+            });
+            job.stats.skippedPages++;
+            return;
+          }
 
-          results.push(result);
+          const { value: { result, anchorTexts }, waitTime } = await crawlWorkerPool.run(currentUrl, this.hostDelay(job.request, robots), async () => {
+            const startTime = Date.now();
+            const page = await this.crawlSingleUrl(currentUrl, job.request);
+            responseTimes.push(Date.now() - startTime);
+            return page;
+          });
+          slotWaitTimes.push(waitTime);
+          result.metadata.depth = entry.depth;
+          if (entry.parent) result.metadata.parentUrl = entry.parent;
+
+          // Redirects can land on a page that was already crawled
+          if (result.url !== currentUrl) {
+            if (frontier.isVisited(result.url)) return;
+            frontier.markVisited(result.url);
+          }
           job.stats.successfulPages++;
 
-          // Extract links for further crawling
-          if (this.shouldContinueCrawling(job, results.length)) {
-            const newLinks = this.extractLinks(result, job.request);
-            newLinks.forEach(link => {
-              if (!crawledUrls.has(link) && this.isValidUrl(link, job.request)) {
-                urlsToCrawl.add(link);
+          if (duplicatePolicy.mode === 'off') {
+            results.push(result);
+          } else {
+            const signature = computeSignature(result.content);
+            const [match] = duplicateIndex.find(signature, duplicatePolicy.threshold);
+
+            if (!match) {
+              duplicateIndex.add(result.url, signature);
+              results.push(result);
+            } else if (duplicatePolicy.mode === 'keep') {
+              result.metadata.duplicateOf = match.id;
+              result.metadata.duplicateSimilarity = match.similarity;
+              results.push(result);
+            } else {
+              if (duplicatePolicy.mode === 'merge') {
+                const original = results.find(existing => existing.url === match.id);
+                if (original) {
+                  original.metadata.duplicateUrls = [...(original.metadata.duplicateUrls || []), result.url];
+                }
               }
-            });
+              job.stats.duplicatePages++;
+            }
+          }
+
+          // Extract links for further crawling
+          if (this.shouldContinueCrawling(job, results.length, entry.depth)) {
+            for (const link of this.extractLinks(result, job.request)) {
+              frontier.add(link, entry.depth + 1, result.url, anchorTexts[link]);
+            }
           }
 
         } catch (error) {
           console.error(`Failed to crawl ${currentUrl}:`, error);
           job.stats.failedPages++;
         }
+      };
 
-        // Small delay to be respectful
-        await this.delay(100);
+      // Keeps up to `concurrency` pages in flight, never more than could
+      // still fit under maxPages
+      const inFlight = new Set<Promise<void>>();
+      while (job.status === 'crawling') {
+        while (inFlight.size < concurrency && results.length + inFlight.size < maxPages) {
+          const entry = frontier.next();
+          if (!entry) break;
+          const task: Promise<void> = crawlEntry(entry).finally(() => inFlight.delete(task));
+          inFlight.add(task);
+        }
+        if (inFlight.size === 0) break;
+        await Promise.race(inFlight);
       }
+      // A stopped job still lets its in-flight pages finish
+      await Promise.all(inFlight);
 
+      const elapsedSeconds = (Date.now() - Date.parse(job.startTime)) / 1000;
       job.results = results;
       job.stats.totalPages = results.length;
       job.stats.averageResponseTime = responseTimes.length > 0 
         ? responseTimes.reduce((a, b) => a + b, 0) / responseTimes.length 
         : 0;
+      job.stats.averageSlotWaitTime = slotWaitTimes.length > 0
+        ? slotWaitTimes.reduce((a, b) => a + b, 0) / slotWaitTimes.length
+        : 0;
+      job.stats.pagesPerSecond = elapsedSeconds > 0 ? job.stats.successfulPages / elapsedSeconds : 0;
 
-      job.status = 'completed';
-      job.endTime = new Date().toISOString();
+      // stopCrawl has already marked a stopped job as failed
+      if (job.status === 'crawling') {
+        job.status = 'completed';
+        job.endTime = new Date().toISOString();
+      }
 
     } catch (error) {
       job.status = 'failed';
@@ -165,90 +334,56 @@ class WebCrawler {
     }
   }
 
-  private async crawlSingleUrl(url: string, request: CrawlRequest): Promise<CrawlResult> {
-    if (!this.zai) {
-      throw new Error('ZAI not initialized');
-    }
+  private async crawlSingleUrl(
+    url: string,
+    request: CrawlRequest
+  ): Promise<{ result: CrawlResult; anchorTexts: Record<string, string> }> {
+    const page = await fetchPage(url, {
+      timeoutMs: request.timeoutMs,
+      maxBytes: request.maxBytes,
+      maxRedirects: request.maxRedirects,
+      userAgent: request.userAgent,
+      contentTypes: request.contentTypes ?? DEFAULT_CONTENT_TYPES
+    });
 
-    try {
-      // Use ZAI's web search capability to get page content
-      // This is a simplified approach - in production, you'd use a proper web scraping library
-      const searchResults = await this.zai.functions.invoke("web_search", {
-        query: `site:${new URL(url).hostname} ${this.extractSearchQuery(url)}`,
-        num: 1
-      });
-
-      if (!Array.isArray(searchResults) || searchResults.length === 0) {
-        throw new Error('No content found for URL');
+    const isHtml = /html|xml/.test(page.contentType) || page.contentType === '';
+    const extracted = isHtml
+      ? extractPage(page.body, page.url)
+      : { title: undefined, content: page.body.trim(), description: undefined, links: [], anchorTexts: {} };
+
+    const result: CrawlResult = {
+      url: page.url,
+      title: extracted.title || this.titleFromUrl(page.url),
+      content: extracted.content,
+      links: extracted.links,
+      metadata: {
+        contentLength: extracted.content.length,
+        wordCount: extracted.content.split(/\s+/).filter(word => word).length,
+        crawlTime: new Date().toISOString(),
+        statusCode: page.statusCode,
+        contentType: page.contentType.split(';')[0].trim() || undefined,
+        lastModified: page.lastModified,
+        description: extracted.description,
+        ...(page.redirects.length > 0 ? { redirectedFrom: url } : {}),
+        ...(page.truncated ? { truncated: true } : {})
       }
-
-      const result = searchResults[0];
-      
-      return {
-        url: url,
-        title: result.name || 'Untitled',
-        content: result.snippet || '',
-        links: this.extractLinksFromContent(result.snippet || ''),
-        metadata: {
-          contentLength: (result.snippet || '').length,
-          wordCount: (result.snippet || '').split(/\s+/).length,
-          crawlTime: new Date().toISOString(),
-          statusCode: 200,
-          contentType: 'text/html',
-          lastModified: result.date || new Date().toISOString()
-        }
-      };
-
-    } catch (error) {
-      throw new Error(`Failed to crawl ${url}: ${error}`);
-    }
+    };
+    return { result, anchorTexts: extracted.anchorTexts };
   }
 
-  private extractSearchQuery(url: string): string {
+  private titleFromUrl(url: string): string {
+    const { hostname, pathname } = new URL(url);
+    const segment = pathname.split('/').filter(part => part).pop();
+    if (!segment) return hostname;
     try {
-      const urlObj = new URL(url);
-      const pathParts = urlObj.pathname.split('/').filter(p => p);
-      return pathParts[pathParts.length - 1] || urlObj.hostname;
+      return decodeURIComponent(segment);
     } catch {
-      return url;
+      return segment;
     }
   }
 
   private extractLinks(result: CrawlResult, request: CrawlRequest): string[] {
-    const links = new Set<string>();
-    
-    // Extract links from content (simplified)
-    const urlRegex = /https?:\/\/[^\s<>"{}|\\^`[\]]+/g;
-    const matches = result.content.match(urlRegex);
-    
-    if (matches) {
-      matches.forEach(link => {
-        if (this.isValidUrl(link, request)) {
-          links.add(link);
-        }
-      });
-    }
-
-    // Add the links from the result
-    result.links.forEach(link => {
-      if (this.isValidUrl(link, request)) {
-        links.add(link);
-      }
-    });
-
-    return Array.from(links);
-  }
-
-  private extractLinksFromContent(content: string): string[] {
-    const links = new Set<string>();
-    const urlRegex = /https?:\/\/[^\s<>"{}|\\^`[\]]+/g;
-    const matches = content.match(urlRegex);
-    
-    if (matches) {
-      matches.forEach(link => links.add(link));
-    }
-
-    return Array.from(links);
+    return result.links.filter(link => this.isValidUrl(link, request));
   }
 
   private isValidUrl(url: string, request: CrawlRequest): boolean {
@@ -268,44 +403,71 @@ class WebCrawler {
     }
   }
 
-  private shouldContinueCrawling(job: CrawlJob, currentCount: number): boolean {
+  private async discoverSeeds(request: CrawlRequest, mode: Exclude<SeedMode, 'links'>): Promise<DiscoveredSeed[]> {
+    // Sitemaps and feeds are fetched like pages, minus the content type filter
+    const fetcher = async (url: string): Promise<FetchedPage> => {
+      const robots = await robotsCache.getPolicy(url);
+      const verdict = robots.check(url);
+      if (!verdict.allowed) {
+        throw new Error(`robots.txt disallows ${url}${verdict.rule ? ` (${verdict.rule})` : ''}`);
+      }
+      const { value } = await crawlWorkerPool.run(url, this.hostDelay(request, robots), () => fetchPage(url, {
+        timeoutMs: request.timeoutMs,
+        maxBytes: Math.max(request.maxBytes ?? 0, SEED_MAX_BYTES),
+        maxRedirects: request.maxRedirects,
+        userAgent: request.userAgent
+      }));
+      return value;
+    };
+
+    return mode === 'sitemap'
+      ? discoverSitemapSeeds(request.url, fetcher)
+      : discoverFeedSeeds(request.url, fetcher);
+  }
+
+  // Gap between requests to one host: hostDelayMs, or a longer robots.txt Crawl-delay
+  private hostDelay(request: CrawlRequest, robots: RobotsPolicy): number {
+    const crawlDelayMs = Math.min((robots.group?.crawlDelay ?? 0) * 1000, MAX_CRAWL_DELAY_MS);
+    return Math.max(request.hostDelayMs ?? DEFAULT_HOST_DELAY_MS, crawlDelayMs);
+  }
+
+  private shouldContinueCrawling(job: CrawlJob, currentCount: number, depth: number): boolean {
     if (currentCount >= (job.request.maxPages || 50)) {
       return false;
     }
 
-    // Check depth (simplified - just based on URL depth)
-    const baseUrl = new URL(job.request.url);
-    const currentDepth = this.getUrlDepth(baseUrl);
-    return currentDepth <= (job.request.maxDepth || 2);
-  }
+    // Sitemap and feed crawls stay on the listed URLs
+    if (job.request.seedMode && job.request.seedMode !== 'links') {
+      return false;
+    }
 
-  private getUrlDepth(url: URL): number {
-    return url.pathname.split('/').filter(p => p).length;
+    // Links found at maxDepth would be one hop too far
+    return depth < (job.request.maxDepth ?? DEFAULT_MAX_DEPTH);
   }
 
   private generateJobId(): string {
     return `crawl_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
   }
 
-  private delay(ms: number): Promise<void> {
-    return new Promise(resolve => setTimeout(resolve, ms));
-  }
-
   async getStats(): Promise<{
     activeJobs: number;
+    queuedJobs: number;
     totalJobs: number;
     completedJobs: number;
     failedJobs: number;
     totalPagesCrawled: number;
+    workerPool: ReturnType<typeof crawlWorkerPool.getStats>;
   }> {
     const jobs = Array.from(this.activeJobs.values());
     
     return {
       activeJobs: jobs.filter(job => job.status === 'crawling').length,
+      queuedJobs: jobs.filter(job => job.status === 'pending').length,
       totalJobs: jobs.length,
       completedJobs: jobs.filter(job => job.status === 'completed').length,
       failedJobs: jobs.filter(job => job.status === 'failed').length,
-      totalPagesCrawled: jobs.reduce((sum, job) => sum + job.results.length, 0)
+      totalPagesCrawled: jobs.reduce((sum, job) => sum + job.results.length, 0),
+      workerPool: crawlWorkerPool.getStats()
     };
   }
 }
@@ -0,0 +1,124 @@
+// Fetch slots shared by every crawl job. A request starts once the pool is
+// below its global limit, its host is below the per-host limit, and the
+// previous request to that host started at least intervalMs earlier. Waiting
+// requests are served in arrival order, passing over those whose host is busy.
+
+export interface WorkerPoolLimits {
+  maxConcurrency: number;
+  maxPerHost: number;
+}
+
+interface Waiter {
+  host: string;
+  intervalMs: number;
+  enqueuedAt: number;
+  resolve: (waitTime: number) => void;
+}
+
+interface HostState {
+  active: number;
+  // Earliest time the next request to the host may start
+  nextStartAt: number;
+}
+
+const DEFAULT_MAX_CONCURRENCY = 8;
+const DEFAULT_MAX_PER_HOST = 2;
+
+export function getWorkerPoolLimitsFromEnv(): WorkerPoolLimits {
+  const maxConcurrency = parseInt(process.env.CRAWL_MAX_CONCURRENCY || '', 10);
+  const maxPerHost = parseInt(process.env.CRAWL_MAX_PER_HOST || '', 10);
+
+  return {
+    maxConcurrency: maxConcurrency > 0 ? maxConcurrency : DEFAULT_MAX_CONCURRENCY,
+    maxPerHost: maxPerHost > 0 ? maxPerHost : DEFAULT_MAX_PER_HOST
+  };
+}
+
+export class CrawlWorkerPool {
+  private active = 0;
+  private hosts: Map<string, HostState> = new Map();
+  private waiting: Waiter[] = [];
+  private timer: ReturnType<typeof setTimeout> | null = null;
+
+  constructor(private limits: WorkerPoolLimits = getWorkerPoolLimitsFromEnv()) {}
+
+  // Runs the task in a slot for the URL's host. waitTime is how long, in ms,
+  // the task queued for its slot.
+  async run<T>(url: string, intervalMs: number, task: () => Promise<T>): Promise<{ value: T; waitTime: number }> {
+    const host = new URL(url).host;
+    const waitTime = await new Promise<number>(resolve => {
+      this.waiting.push({ host, intervalMs, enqueuedAt: Date.now(), resolve });
+      this.schedule();
+    });
+
+    try {
+      return { value: await task(), waitTime };
+    } finally {
+      this.active--;
+      this.hosts.get(host)!.active--;
+      this.schedule();
+    }
+  }
+
+  getStats(): WorkerPoolLimits & { activeRequests: number; waitingRequests: number; activeHosts: number } {
+    return {
+      ...this.limits,
+      activeRequests: this.active,
+      waitingRequests: this.waiting.length,
+      activeHosts: Array.from(this.hosts.values()).filter(state => state.active > 0).length
+    };
+  }
+
+  private schedule(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+
+    const now = Date.now();
+    let wakeAt = Infinity;
+
+    for (let i = 0; i < this.waiting.length && this.active < this.limits.maxConcurrency;) {
+      const waiter = this.waiting[i];
+      let state = this.hosts.get(waiter.host);
+      if (!state) {
+        state = { active: 0, nextStartAt: 0 };
+        this.hosts.set(waiter.host, state);
+      }
+
+      if (state.active >= this.limits.maxPerHost) {
+        i++;
+        continue;
+      }
+      if (state.nextStartAt > now) {
+        wakeAt = Math.min(wakeAt, state.nextStartAt);
+        i++;
+        continue;
+      }
+
+      this.waiting.splice(i, 1);
+      this.active++;
+      state.active++;
+      state.nextStartAt = now + waiter.intervalMs;
+      waiter.resolve(now - waiter.enqueuedAt);
+    }
+
+    // Hosts with nothing running or pending and no delay left are forgotten
+    for (const [host, state] of this.hosts) {
+      if (state.active === 0 && state.nextStartAt <= now && !this.waiting.some(waiter => waiter.host === host)) {
+        this.hosts.delete(host);
+      }
+    }
+
+    // Slots freed by finishing requests reschedule on their own; only host
+    // delays need a timer
+    if (wakeAt < Infinity && this.active < this.limits.maxConcurrency) {
+      this.timer = setTimeout(() => {
+        this.timer = null;
+        this.schedule();
+      }, wakeAt - now);
+    }
+  }
+}
+
+export const crawlWorkerPool = new CrawlWorkerPool();
@@ -0,0 +1,155 @@
+import fs from 'fs/promises';
+import path from 'path';
+
+// Golden datasets for offline evaluation: questions with the ids of the
+// documents that answer them and an optional reference answer. A dataset can
+// bring its own corpus in `documents`; it is then evaluated in a scratch
+// collection instead of a live one. Files use the same snake_case naming as
+// the HTTP API and live in evaluation/datasets/<name>.json.
+
+export interface GoldenDocument {
+  id: string;
+  title: string;
+  content: string;
+  url?: string;
+  metadata?: Record<string, any>;
+}
+
+export interface GoldenQuestion {
+  id: string;
+  question: string;
+  relevant_document_ids: string[];
+  // Graded relevance for nDCG (higher is more relevant); relevant documents
+  // without a grade count as 1
+  relevance_grades?: Record<string, number>;
+  reference_answer?: string;
+  filters?: Record<string, any>;
+}
+
+export interface GoldenDataset {
+  name: string;
+  description?: string;
+  documents?: GoldenDocument[];
+  questions: GoldenQuestion[];
+}
+
+export class DatasetError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'DatasetError';
+  }
+}
+
+export const DATASET_DIR = path.join(process.cwd(), 'evaluation', 'datasets');
+
+const DATASET_NAME_PATTERN = /^[a-z0-9][a-z0-9_-]{0,63}$/;
+
+export function validateDataset(value: any): GoldenDataset {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    throw new DatasetError('Dataset must be a JSON object');
+  }
+  if (typeof value.name !== 'string' || value.name.trim() === '') {
+    throw new DatasetError('Dataset name is required');
+  }
+  if (!Array.isArray(value.questions) || value.questions.length === 0) {
+    throw new DatasetError('Dataset must contain at least one question');
+  }
+
+  if (value.documents !== undefined) {
+    if (!Array.isArray(value.documents)) {
+      throw new DatasetError('documents must be an array');
+    }
+    const ids = new Set<string>();
+    value.documents.forEach((document: any, index: number) => {
+      if (typeof document?.id !== 'string' || document.id === '') {
+        throw new DatasetError(`documents[${index}]: id is required`);
+      }
+      if (ids.has(document.id)) {
+        throw new DatasetError(`documents[${index}]: duplicate id "${document.id}"`);
+      }
+      if (typeof document.content !== 'string' || document.content.trim() === '') {
+        throw new DatasetError(`documents[${index}]: content is required`);
+      }
+      ids.add(document.id);
+    });
+  }
+
+  const questionIds = new Set<string>();
+  value.questions.forEach((question: any, index: number) => {
+    const prefix = `questions[${index}]`;
+    if (typeof question?.id !== 'string' || question.id === '') {
+      throw new DatasetError(`${prefix}: id is required`);
+    }
+    if (questionIds.has(question.id)) {
+      throw new DatasetError(`${prefix}: duplicate id "${question.id}"`);
+    }
+    if (typeof question.question !== 'string' || question.question.trim() === '') {
+      throw new DatasetError(`${prefix}: question is required`);
+    }
+    if (!Array.isArray(question.relevant_document_ids) || question.relevant_document_ids.length === 0
+      || !question.relevant_document_ids.every((id: any) => typeof id === 'string')) {
+      throw new DatasetError(`${prefix}: relevant_document_ids must be a non-empty array of strings`);
+    }
+    if (question.relevance_grades !== undefined && (
+      typeof question.relevance_grades !== 'object' || question.relevance_grades === null
+      || !Object.values(question.relevance_grades).every(grade => typeof grade === 'number' && grade >= 0)
+    )) {
+      throw new DatasetError(`${prefix}: relevance_grades must map document ids to non-negative numbers`);
+    }
+    if (question.reference_answer !== undefined && typeof question.reference_answer !== 'string') {
+      throw new DatasetError(`${prefix}: reference_answer must be a string`);
+    }
+    questionIds.add(question.id);
+  });
+
+  return {
+    name: value.name,
+    description: value.description,
+    documents: value.documents?.map((document: any) => ({
+      id: document.id,
+      title: document.title || document.id,
+      content: document.content,
+      url: document.url,
+      metadata: document.metadata
+    })),
+    questions: value.questions
+  };
+}
+
+export async function loadDataset(filePath: string): Promise<GoldenDataset> {
+  let raw: string;
+  try {
+    raw = await fs.readFile(filePath, 'utf-8');
+  } catch (error: any) {
+    throw new DatasetError(error?.code === 'ENOENT' ? `Dataset file ${filePath} not found` : `Failed to read ${filePath}: ${error}`);
+  }
+
+  try {
+    return validateDataset(JSON.parse(raw));
+  } catch (error) {
+    if (error instanceof DatasetError) throw error;
+    throw new DatasetError(`Dataset file ${filePath} is not valid JSON`);
+  }
+}
+
+// Loads evaluation/datasets/<name>.json
+export async function loadNamedDataset(name: string): Promise<GoldenDataset> {
+  if (!DATASET_NAME_PATTERN.test(name)) {
+    throw new DatasetError(`Invalid dataset name "${name}"`);
+  }
+  return loadDataset(path.join(DATASET_DIR, `${name}.json`));
+}
+
+export async function listDatasets(): Promise<string[]> {
+  try {
+    const files = await fs.readdir(DATASET_DIR);
+    return files
+      .filter(file => file.endsWith('.json'))
+      .map(file => file.slice(0, -'.json'.length))
+      .filter(name => DATASET_NAME_PATTERN.test(name))
+      .sort();
+  } catch (error: any) {
+    if (error?.code === 'ENOENT') return [];
+    throw error;
+  }
+}
@@ -0,0 +1,454 @@
+import { db } from '@/lib/db';
+import { AgentMessage } from '@/lib/agents/base-agent';
+import { SearchAgent, SearchResult } from '@/lib/agents/search-agent';
+import { Collection, collectionManager } from '@/lib/rag/collections';
+import { RAGPipeline, RAGSource, getPipelineOptionsFromEnv } from '@/lib/rag/rag-pipeline';
+import { RerankerType } from '@/lib/rag/rerankers';
+import { GoldenDataset, GoldenQuestion } from './dataset';
+import { MockLLM } from './mock-llm';
+import { answerFaithfulness, contextCoverage, mean, ndcgAtK, recallAtK, reciprocalRank, tokenF1 } from './metrics';
+
+// Offline evaluation of retrieval and answers against a golden dataset. The
+// RAG pipeline runs with MockLLM, so answers are reproducible and a run costs
+// no model calls; the search agent is evaluated on retrieval only. Every run
+// is stored (EvaluationRun table, or memory when the database is unavailable)
+// so two runs can be compared metric by metric and question by question.
+// Records use the same snake_case naming as the HTTP API.
+
+export type EvaluationTarget = 'rag-pipeline' | 'search-agent';
+export type EvaluationSearchType = 'vector' | 'keyword' | 'hybrid';
+
+export interface EvaluationOptions {
+  target?: EvaluationTarget;
+  // Collection to evaluate when the dataset has no documents of its own
+  collection?: string;
+  // Cut-offs for recall@k and nDCG@k
+  k?: number[];
+  // Search type for the search-agent target
+  searchType?: EvaluationSearchType;
+  // Re-ranker for the rag-pipeline target; RAG_RERANKER by default
+  reranker?: RerankerType;
+  label?: string;
+}
+
+// Metric name ("recall@5", "mrr", "faithfulness", ...) to value. Answer
+// metrics are null when the target gives no answer or there is no reference.
+export type MetricValues = Record<string, number | null>;
+
+export interface QuestionResult {
+  question_id: string;
+  question: string;
+  relevant_document_ids: string[];
+  // Ranked, one entry per document
+  retrieved_document_ids: string[];
+  answer: string | null;
+  metrics: MetricValues;
+  latency_ms: number;
+  error?: string;
+}
+
+export interface EvaluationRun {
+  id: string;
+  label: string;
+  dataset: { name: string; questions: number; documents: number | null };
+  config: {
+    target: EvaluationTarget;
+    // Null when the dataset's own documents were evaluated in a scratch collection
+    collection: string | null;
+    k: number[];
+    search_type: EvaluationSearchType | null;
+    reranker: RerankerType | null;
+    embedding_model: string;
+  };
+  // Means over all questions
+  metrics: MetricValues;
+  failed_questions: number;
+  results: QuestionResult[];
+  created_at: string;
+  duration_ms: number;
+}
+
+export type EvaluationRunSummary = Omit<EvaluationRun, 'results'>;
+
+export interface MetricChange {
+  base: number | null;
+  candidate: number | null;
+  delta: number | null;
+}
+
+export interface RunComparison {
+  base: EvaluationRunSummary;
+  candidate: EvaluationRunSummary;
+  metrics: Record<string, MetricChange>;
+  // Questions whose metrics changed, largest drop first
+  questions: Array<{ question_id: string; question: string; changes: Record<string, MetricChange> }>;
+  only_in_base: string[];
+  only_in_candidate: string[];
+}
+
+export class EvaluationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'EvaluationError';
+  }
+}
+
+export const EVALUATION_TARGETS: EvaluationTarget[] = ['rag-pipeline', 'search-agent'];
+const SEARCH_TYPES: EvaluationSearchType[] = ['vector', 'keyword', 'hybrid'];
+const RERANKERS: RerankerType[] = ['lexical', 'none'];
+const DEFAULT_K = [1, 3, 5, 10];
+const MAX_K = 20;
+
+export class Evaluator {
+  // Runs kept here once the database has failed
+  private runs: Map<string, EvaluationRun> = new Map();
+  private persist = true;
+
+  async run(dataset: GoldenDataset, options: EvaluationOptions = {}): Promise<EvaluationRun> {
+    const config = this.resolveOptions(options);
+    const startTime = Date.now();
+
+    const scratch = dataset.documents ? await this.indexCorpus(dataset) : undefined;
+    const collection = scratch ?? await collectionManager.get(config.collection ?? undefined);
+
+    try {
+      const ask = config.target === 'rag-pipeline'
+        ? this.createPipelineRunner(collection, config)
+        : this.createSearchAgentRunner(collection, config);
+
+      // Sequential, so latencies are comparable and the embedding provider is not flooded
+      const results: QuestionResult[] = [];
+      for (const question of dataset.questions) {
+        results.push(await this.evaluateQuestion(question, ask, config.k));
+      }
+
+      const metricNames = Array.from(new Set(results.flatMap(result => Object.keys(result.metrics))));
+      const run: EvaluationRun = {
+        id: `eval_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+        label: options.label || '',
+        dataset: {
+          name: dataset.name,
+          questions: dataset.questions.length,
+          documents: dataset.documents?.length ?? null
+        },
+        config: {
+          ...config,
+          collection: scratch ? null : collection.config.name,
+          embedding_model: collection.embeddingProvider.id
+        },
+        metrics: Object.fromEntries(metricNames.map(name => [name, mean(results.map(result => result.metrics[name] ?? null))])),
+        failed_questions: results.filter(result => result.error).length,
+        results,
+        created_at: new Date().toISOString(),
+        duration_ms: Date.now() - startTime
+      };
+
+      await this.save(run);
+      return run;
+    } finally {
+      if (scratch) collectionManager.discardScratch(scratch);
+    }
+  }
+
+  async getRun(id: string): Promise<EvaluationRun | undefined> {
+    return this.stored(
+      async () => {
+        const row = await db.evaluationRun.findUnique({ where: { id } });
+        return row ? JSON.parse(row.run) as EvaluationRun : undefined;
+      },
+      () => this.runs.get(id)
+    );
+  }
+
+  // Most recent first
+  async listRuns(datasetName?: string): Promise<EvaluationRunSummary[]> {
+    return this.stored(
+      async () => {
+        const rows = await db.evaluationRun.findMany({
+          where: datasetName ? { dataset: datasetName } : undefined,
+          orderBy: { createdAt: 'desc' }
+        });
+        return rows.map((row: any) => this.summarize(JSON.parse(row.run)));
+      },
+      () => Array.from(this.runs.values())
+        .filter(run => !datasetName || run.dataset.name === datasetName)
+        .reverse()
+        .map(run => this.summarize(run))
+    );
+  }
+
+  async deleteRun(id: string): Promise<boolean> {
+    return this.stored(
+      async () => (await db.evaluationRun.deleteMany({ where: { id } })).count > 0,
+      () => this.runs.delete(id)
+    );
+  }
+
+  async compare(baseId: string, candidateId: string): Promise<RunComparison> {
+    const [base, candidate] = await Promise.all([this.getRun(baseId), this.getRun(candidateId)]);
+    if (!base) throw new EvaluationError(`Evaluation run ${baseId} not found`);
+    if (!candidate) throw new EvaluationError(`Evaluation run ${candidateId} not found`);
+
+    const baseResults = new Map(base.results.map(result => [result.question_id, result]));
+    const candidateResults = new Map(candidate.results.map(result => [result.question_id, result]));
+
+    const questions = candidate.results
+      .filter(result => baseResults.has(result.question_id))
+      .map(result => ({
+        question_id: result.question_id,
+        question: result.question,
+        changes: Object.fromEntries(
+          Object.entries(this.compareMetrics(baseResults.get(result.question_id)!.metrics, result.metrics))
+            .filter(([, change]) => change.delta !== 0)
+        )
+      }))
+      .filter(question => Object.keys(question.changes).length > 0)
+      .sort((a, b) => this.worstDelta(a.changes) - this.worstDelta(b.changes));
+
+    return {
+      base: this.summarize(base),
+      candidate: this.summarize(candidate),
+      metrics: this.compareMetrics(base.metrics, candidate.metrics),
+      questions,
+      only_in_base: base.results.filter(result => !candidateResults.has(result.question_id)).map(result => result.question_id),
+      only_in_candidate: candidate.results.filter(result => !baseResults.has(result.question_id)).map(result => result.question_id)
+    };
+  }
+
+  private resolveOptions(options: EvaluationOptions): Omit<EvaluationRun['config'], 'embedding_model'> {
+    const target = options.target ?? 'rag-pipeline';
+    if (!EVALUATION_TARGETS.includes(target)) {
+      throw new EvaluationError(`target must be one of ${EVALUATION_TARGETS.join(', ')}`);
+    }
+
+    const k = Array.from(new Set(options.k ?? DEFAULT_K)).sort((a, b) => a - b);
+    if (k.length === 0 || !k.every(value => Number.isInteger(value) && value >= 1 && value <= MAX_K)) {
+      throw new EvaluationError(`k must be a list of integers between 1 and ${MAX_K}`);
+    }
+
+    const searchType = options.searchType ?? 'hybrid';
+    if (target === 'search-agent' && !SEARCH_TYPES.includes(searchType)) {
+      throw new EvaluationError(`searchType must be one of ${SEARCH_TYPES.join(', ')}`);
+    }
+
+    const reranker = options.reranker ?? getPipelineOptionsFromEnv().reranker ?? 'lexical';
+    if (target === 'rag-pipeline' && !RERANKERS.includes(reranker)) {
+      // The llm re-ranker calls the live model, which would make runs irreproducible
+      throw new EvaluationError(`reranker must be one of ${RERANKERS.join(', ')} for evaluation runs`);
+    }
+
+    return {
+      target,
+      collection: options.collection ?? null,
+      k,
+      search_type: target === 'search-agent' ? searchType : null,
+      reranker: target === 'rag-pipeline' ? reranker : null
+    };
+  }
+
+  private async indexCorpus(dataset: GoldenDataset): Promise<Collection> {
+    const collection = await collectionManager.createScratch('evaluation');
+    // Only used for indexing; questions go through a pipeline per run
+    const pipeline = new RAGPipeline({ client: new MockLLM() });
+
+    try {
+      for (const document of dataset.documents!) {
+        await pipeline.addDocumentToStore(
+          {
+            id: document.id,
+            content: document.content,
+            metadata: {
+              ...document.metadata,
+              title: document.title,
+              url: document.url ?? '',
+              source_type: document.metadata?.source_type || 'document'
+            }
+          },
+          {},
+          collection.config.name
+        );
+      }
+      return collection;
+    } catch (error) {
+      collectionManager.discardScratch(collection);
+      throw error;
+    }
+  }
+
+  private createPipelineRunner(
+    collection: Collection,
+    config: Omit<EvaluationRun['config'], 'embedding_model'>
+  ): QuestionRunner {
+    const pipeline = new RAGPipeline({
+      ...getPipelineOptionsFromEnv(),
+      client: new MockLLM(),
+      reranker: config.reranker!,
+      refinement: { maxIterations: 0 }
+    });
+
+    return async question => {
+      const request = {
+        query: question.question,
+        collection: collection.config.name,
+        filters: question.filters,
+        maxResults: config.k[config.k.length - 1],
+        includeWebSearch: false
+      };
+      const documentId = (source: RAGSource) => source.metadata?.document_id || source.id;
+
+      // Retrieval is ranked before context packing, so budget changes do not
+      // look like retrieval regressions; packing is measured by context_coverage
+      const { ranked } = await pipeline.retrieve(request);
+      const result = await pipeline.processQuery(request);
+
+      return {
+        ranked: ranked.map(documentId),
+        packed: result.sources.map(documentId),
+        answer: result.response,
+        sources: result.sources
+      };
+    };
+  }
+
+  private createSearchAgentRunner(
+    collection: Collection,
+    config: Omit<EvaluationRun['config'], 'embedding_model'>
+  ): QuestionRunner {
+    // Never initialized: knowledge-base search does not need the Z.ai client
+    const agent = new SearchAgent('evaluation-search-agent');
+
+    return async question => {
+      const message: AgentMessage = {
+        id: `msg_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+        type: 'search',
+        from: 'evaluator',
+        to: agent.getId(),
+        payload: {
+          query: question.question,
+          searchType: config.search_type,
+          filters: question.filters,
+          maxResults: config.k[config.k.length - 1],
+          collection: collection.config.name,
+          weights: { web: 0 }
+        },
+        timestamp: new Date().toISOString()
+      };
+
+      const results: SearchResult[] = await agent.processMessage(message);
+      return { ranked: results.map(result => result.metadata?.document_id || result.id) };
+    };
+  }
+
+  private async evaluateQuestion(question: GoldenQuestion, ask: QuestionRunner, k: number[]): Promise<QuestionResult> {
+    const relevant = new Set(question.relevant_document_ids);
+    const grades = new Map(question.relevant_document_ids.map(id => [id, question.relevance_grades?.[id] ?? 1]));
+    const startTime = Date.now();
+
+    let outcome: QuestionOutcome = { ranked: [] };
+    let error: string | undefined;
+    try {
+      outcome = await ask(question);
+    } catch (caught) {
+      console.error(`Evaluation of question ${question.id} failed:`, caught);
+      error = caught instanceof Error ? caught.message : String(caught);
+    }
+
+    // Chunks of one document count once, at their best rank
+    const ranked = Array.from(new Set(outcome.ranked));
+    const metrics: MetricValues = {};
+    k.forEach(cutoff => { metrics[`recall@${cutoff}`] = recallAtK(ranked, relevant, cutoff); });
+    metrics.mrr = reciprocalRank(ranked, relevant);
+    k.forEach(cutoff => { metrics[`ndcg@${cutoff}`] = ndcgAtK(ranked, grades, cutoff); });
+
+    if (outcome.packed) {
+      metrics.context_coverage = contextCoverage(ranked, outcome.packed, relevant);
+    }
+
+    if (outcome.answer !== undefined) {
+      const faithfulness = answerFaithfulness(outcome.answer, outcome.sources ?? []);
+      metrics.faithfulness = faithfulness.faithfulness;
+      metrics.citation_coverage = faithfulness.citationCoverage;
+      metrics.answer_f1 = question.reference_answer ? tokenF1(outcome.answer, question.reference_answer) : null;
+    }
+
+    return {
+      question_id: question.id,
+      question: question.question,
+      relevant_document_ids: question.relevant_document_ids,
+      retrieved_document_ids: ranked,
+      answer: outcome.answer ?? null,
+      metrics,
+      latency_ms: Date.now() - startTime,
+      ...(error ? { error } : {})
+    };
+  }
+
+  private compareMetrics(base: MetricValues, candidate: MetricValues): Record<string, MetricChange> {
+    const names = Array.from(new Set([...Object.keys(base), ...Object.keys(candidate)]));
+
+    return Object.fromEntries(names.map(name => {
+      const baseValue = base[name] ?? null;
+      const candidateValue = candidate[name] ?? null;
+      return [name, {
+        base: baseValue,
+        candidate: candidateValue,
+        delta: baseValue !== null && candidateValue !== null ? candidateValue - baseValue : null
+      }];
+    }));
+  }
+
+  private worstDelta(changes: Record<string, MetricChange>): number {
+    return Math.min(0, ...Object.values(changes).map(change => change.delta ?? 0));
+  }
+
+  private summarize(run: EvaluationRun): EvaluationRunSummary {
+    const { results: _results, ...summary } = run;
+    return summary;
+  }
+
+  private async save(run: EvaluationRun): Promise<void> {
+    await this.stored(
+      async () => {
+        await db.evaluationRun.create({
+          data: {
+            id: run.id,
+            label: run.label,
+            dataset: run.dataset.name,
+            target: run.config.target,
+            metrics: JSON.stringify(run.metrics),
+            run: JSON.stringify(run),
+            createdAt: new Date(run.created_at)
+          }
+        });
+      },
+      () => { this.runs.set(run.id, run); }
+    );
+  }
+
+  // Runs the database operation, or the in-memory fallback once the database has failed
+  private async stored<T>(operation: () => Promise<T>, fallback: () => T): Promise<T> {
+    if (this.persist) {
+      try {
+        return await operation();
+      } catch (error) {
+        console.error('Evaluation run storage failed, keeping runs in memory only:', error);
+        this.persist = false;
+      }
+    }
+    return fallback();
+  }
+}
+
+interface QuestionOutcome {
+  // Document ids before context packing
+  ranked: string[];
+  // Document ids that made it into the generation context
+  packed?: string[];
+  // Only set for targets that generate an answer
+  answer?: string;
+  sources?: Array<{ id: string; content: string }>;
+}
+
+type QuestionRunner = (question: GoldenQuestion) => Promise<QuestionOutcome>;
+
+export const evaluator = new Evaluator();
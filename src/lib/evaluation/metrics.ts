@@ -0,0 +1,84 @@
+import { tokenize } from '@/lib/rag/embeddings';
+import { VerifiableSource, citationVerifier } from '@/lib/rag/citation-verifier';
+
+// Retrieval metrics over a ranked list of document ids, and answer metrics
+// that compare an answer with its sources and with a reference answer.
+
+// Share of the relevant documents found in the top k
+export function recallAtK(ranked: string[], relevant: Set<string>, k: number): number {
+  if (relevant.size === 0) return 0;
+  return ranked.slice(0, k).filter(id => relevant.has(id)).length / relevant.size;
+}
+
+// Share of the retrieved relevant documents that survived context packing;
+// null when no relevant document was retrieved
+export function contextCoverage(ranked: string[], packed: string[], relevant: Set<string>): number | null {
+  const retrieved = ranked.filter(id => relevant.has(id));
+  if (retrieved.length === 0) return null;
+  const inContext = new Set(packed);
+  return retrieved.filter(id => inContext.has(id)).length / retrieved.length;
+}
+
+// 1 / rank of the first relevant document, 0 when none was retrieved
+export function reciprocalRank(ranked: string[], relevant: Set<string>): number {
+  const index = ranked.findIndex(id => relevant.has(id));
+  return index === -1 ? 0 : 1 / (index + 1);
+}
+
+// Normalised discounted cumulative gain with exponential gains (2^grade - 1)
+export function ndcgAtK(ranked: string[], grades: Map<string, number>, k: number): number {
+  const dcg = (values: number[]) => values
+    .slice(0, k)
+    .reduce((sum, grade, index) => sum + (Math.pow(2, grade) - 1) / Math.log2(index + 2), 0);
+
+  const ideal = dcg(Array.from(grades.values()).sort((a, b) => b - a));
+  if (ideal === 0) return 0;
+  return dcg(ranked.map(id => grades.get(id) ?? 0)) / ideal;
+}
+
+// Token-level F1 between an answer and a reference answer
+export function tokenF1(answer: string, reference: string): number {
+  const answerTokens = tokenize(answer);
+  const referenceTokens = tokenize(reference);
+  if (answerTokens.length === 0 || referenceTokens.length === 0) return 0;
+
+  const remaining = new Map<string, number>();
+  referenceTokens.forEach(token => remaining.set(token, (remaining.get(token) ?? 0) + 1));
+
+  let overlap = 0;
+  for (const token of answerTokens) {
+    const count = remaining.get(token) ?? 0;
+    if (count > 0) {
+      overlap++;
+      remaining.set(token, count - 1);
+    }
+  }
+  if (overlap === 0) return 0;
+
+  const precision = overlap / answerTokens.length;
+  const recall = overlap / referenceTokens.length;
+  return (2 * precision * recall) / (precision + recall);
+}
+
+export interface AnswerFaithfulness {
+  // Share of citations whose source supports the cited sentence
+  faithfulness: number;
+  // Share of the answer's sentences that cite a source
+  citationCoverage: number;
+}
+
+export function answerFaithfulness(answer: string, sources: VerifiableSource[]): AnswerFaithfulness {
+  const { checks, claimCount } = citationVerifier.verify(answer, sources);
+  const citedClaims = new Set(checks.map(check => check.claim)).size;
+
+  return {
+    faithfulness: checks.length > 0 ? checks.filter(check => check.supported).length / checks.length : 0,
+    citationCoverage: claimCount > 0 ? citedClaims / claimCount : 0
+  };
+}
+
+// Mean of the values that are present; null when there are none
+export function mean(values: Array<number | null>): number | null {
+  const present = values.filter((value): value is number => value !== null);
+  return present.length > 0 ? present.reduce((sum, value) => sum + value, 0) / present.length : null;
+}
@@ -0,0 +1,92 @@
+import type { CreateChatCompletionBody, FunctionArgs, FunctionName, FunctionResult } from 'z-ai-web-dev-sdk';
+import { tokenize } from '@/lib/rag/embeddings';
+import { ChatClient } from '@/lib/rag/rag-pipeline';
+
+// Deterministic stand-in for the chat model in evaluation runs. It answers a
+// generation prompt extractively: the context sentences sharing the most
+// terms with the query, each cited as [Document N]. Web search finds nothing.
+// The same prompt always gives the same answer, so differences between runs
+// come from retrieval, ranking and context packing, not from sampling.
+
+const MAX_SENTENCES = 3;
+
+export const MOCK_NO_ANSWER = 'The provided documents do not contain enough information to answer this question.';
+
+interface PromptDocument {
+  index: number;
+  content: string;
+}
+
+export class MockLLM implements ChatClient {
+  chat: ChatClient['chat'] = {
+    completions: {
+      create: async (body: CreateChatCompletionBody) => this.complete(body)
+    }
+  };
+
+  functions: ChatClient['functions'] = {
+    invoke: async <T extends FunctionName>(_name: T, _args: FunctionArgs<T>) => [] as FunctionResult<T>
+  };
+
+  private complete(body: CreateChatCompletionBody) {
+    const prompt = [...body.messages].reverse().find(message => message.role === 'user')?.content || '';
+    const query = prompt.match(/^Query: (.*)$/m)?.[1] || '';
+
+    return {
+      id: 'mock-completion',
+      object: 'chat.completion',
+      model: 'mock',
+      choices: [{
+        index: 0,
+        finish_reason: 'stop',
+        message: { role: 'assistant', content: this.answer(query, this.parseDocuments(prompt)) }
+      }]
+    };
+  }
+
+  private answer(query: string, documents: PromptDocument[]): string {
+    const queryTerms = new Set(tokenize(query));
+
+    const sentences = documents.flatMap(document =>
+      (document.content.match(/[^.!?\n]+[.!?]*/g) || [])
+        .map(sentence => sentence.trim())
+        .filter(sentence => sentence.length > 0)
+        .map((sentence, position) => ({
+          text: sentence.replace(/[.!?]*$/, ''),
+          document: document.index,
+          position,
+          overlap: new Set(tokenize(sentence).filter(term => queryTerms.has(term))).size
+        }))
+    );
+
+    // Ties go to the earlier document, then the earlier sentence
+    const selected = sentences
+      .filter(sentence => sentence.overlap > 0)
+      .sort((a, b) => b.overlap - a.overlap || a.document - b.document || a.position - b.position)
+      .slice(0, MAX_SENTENCES);
+
+    if (selected.length === 0) {
+      return MOCK_NO_ANSWER;
+    }
+    return selected.map(sentence => `${sentence.text} [Document ${sentence.document}].`).join(' ');
+  }
+
+  // Reads the "Document N:\nTitle: ...\nContent: ...\nURL: ..." blocks of the generation prompt
+  private parseDocuments(prompt: string): PromptDocument[] {
+    const documents: PromptDocument[] = [];
+    const blocks = prompt.split(/^Document (\d+):\n/m);
+
+    for (let i = 1; i + 1 < blocks.length; i += 2) {
+      const block = blocks[i + 1];
+      const start = block.indexOf('Content: ');
+      const end = block.lastIndexOf('\nURL: ');
+      if (start === -1) continue;
+
+      documents.push({
+        index: parseInt(blocks[i], 10),
+        content: block.slice(start + 'Content: '.length, end > start ? end : undefined)
+      });
+    }
+    return documents;
+  }
+}
@@ -0,0 +1,212 @@
+import ZAI from 'z-ai-web-dev-sdk';
+import type { ChatClient } from './rag-pipeline';
+
+// Reflection loop for generated answers: a critic prompt reviews the draft
+// against the retrieved documents, and the answer is revised until the
+// critique score reaches the quality threshold or the iteration cap is hit.
+
+export interface RefinementSource {
+  title: string;
+  url: string;
+  content: string;
+}
+
+export interface RefinementOptions {
+  // Maximum critique rounds; 0 disables refinement
+  maxIterations?: number;
+  // Critique score in [0, 1] at which the answer is accepted
+  qualityThreshold?: number;
+}
+
+export interface AnswerCritique {
+  // Overall quality in [0, 1]
+  score: number;
+  // Statements not backed by any of the documents
+  unsupportedClaims: string[];
+  // Parts of the question the answer does not address
+  missingAspects: string[];
+  // Claims without a [Document N] citation, or citing the wrong document
+  citationIssues: string[];
+  summary: string;
+}
+
+export interface RefinementStep {
+  iteration: number;
+  critique: AnswerCritique;
+  // Whether the answer was revised after this critique
+  revised: boolean;
+  // The revised answer, when `revised` is true
+  response?: string;
+}
+
+export class AnswerRefiner {
+  // Created with ZAI.create() on first use when not given
+  constructor(private zai: ChatClient | null = null) {}
+
+  // Yields one step per critique round so callers can report progress
+  async *refineSteps(
+    query: string,
+    draft: string,
+    sources: RefinementSource[],
+    options: RefinementOptions = {}
+  ): AsyncGenerator<RefinementStep> {
+    const maxIterations = options.maxIterations ?? 2;
+    const qualityThreshold = options.qualityThreshold ?? 0.8;
+    let answer = draft;
+
+    for (let iteration = 1; iteration <= maxIterations; iteration++) {
+      const critique = await this.critique(query, answer, sources);
+      if (!critique) return;
+
+      const hasIssues = critique.unsupportedClaims.length > 0
+        || critique.missingAspects.length > 0
+        || critique.citationIssues.length > 0;
+
+      if (critique.score >= qualityThreshold || !hasIssues) {
+        yield { iteration, critique, revised: false };
+        return;
+      }
+
+      const revision = await this.revise(query, answer, critique, sources);
+      if (!revision) {
+        yield { iteration, critique, revised: false };
+        return;
+      }
+
+      answer = revision;
+      yield { iteration, critique, revised: true, response: answer };
+    }
+  }
+
+  async refine(
+    query: string,
+    draft: string,
+    sources: RefinementSource[],
+    options: RefinementOptions = {}
+  ): Promise<{ response: string; steps: RefinementStep[] }> {
+    let response = draft;
+    const steps: RefinementStep[] = [];
+
+    for await (const step of this.refineSteps(query, draft, sources, options)) {
+      steps.push(step);
+      if (step.response) response = step.response;
+    }
+
+    return { response, steps };
+  }
+
+  // Returns null if the critic call fails or its reply cannot be parsed
+  async critique(query: string, answer: string, sources: RefinementSource[]): Promise<AnswerCritique | null> {
+    try {
+      const zai = await this.getClient();
+      const completion = await zai.chat.completions.create({
+        messages: [
+          {
+            role: 'system',
+            content: `You are a strict reviewer of answers produced from reference documents. Check the answer for:
+            1. unsupported claims: statements not backed by any of the documents
+            2. missing aspects: parts of the question the answer does not address although the documents cover them
+            3. citation gaps: claims without a [Document N] citation, or citing a document that does not support them
+            Respond with only a JSON object:
+            {"score": 0-10, "unsupported_claims": [...], "missing_aspects": [...], "citation_issues": [...], "summary": "..."}`
+          },
+          {
+            role: 'user',
+            content: `Question: ${query}\n\nDocuments:\n${this.formatSources(sources)}\n\nAnswer:\n${answer}`
+          }
+        ],
+        temperature: 0,
+        max_tokens: 600
+      });
+
+      const critique = this.parseCritique(completion.choices[0]?.message?.content || '');
+      if (!critique) {
+        console.error('Answer critique returned an unparseable response');
+      }
+      return critique;
+    } catch (error) {
+      console.error('Answer critique failed:', error);
+      return null;
+    }
+  }
+
+  // Returns null if the revision call fails or comes back empty
+  async revise(
+    query: string,
+    answer: string,
+    critique: AnswerCritique,
+    sources: RefinementSource[]
+  ): Promise<string | null> {
+    const issues = [
+      ...critique.unsupportedClaims.map(claim => `- Unsupported claim: ${claim}`),
+      ...critique.missingAspects.map(aspect => `- Missing aspect: ${aspect}`),
+      ...critique.citationIssues.map(issue => `- Citation issue: ${issue}`)
+    ].join('\n');
+
+    try {
+      const zai = await this.getClient();
+      const completion = await zai.chat.completions.create({
+        messages: [
+          {
+            role: 'system',
+            content: `You revise answers so that they are fully supported by the provided documents.
+            Remove or correct unsupported claims, address missing aspects where the documents allow it, and cite every claim using [Document X] notation.
+            Return only the revised answer.`
+          },
+          {
+            role: 'user',
+            content: `Question: ${query}\n\nDocuments:\n${this.formatSources(sources)}\n\nCurrent answer:\n${answer}\n\nReviewer feedback:\n${issues}`
+          }
+        ],
+        temperature: 0.3,
+        max_tokens: 1500
+      });
+
+      const revised = completion.choices[0]?.message?.content?.trim();
+      return revised || null;
+    } catch (error) {
+      console.error('Answer revision failed:', error);
+      return null;
+    }
+  }
+
+  private async getClient(): Promise<ChatClient> {
+    if (!this.zai) {
+      this.zai = await ZAI.create();
+    }
+    return this.zai;
+  }
+
+  // Same numbering as the generation prompt, so [Document N] references line up
+  private formatSources(sources: RefinementSource[]): string {
+    return sources.map((source, index) =>
+      `Document ${index + 1}:\nTitle: ${source.title}\nContent: ${source.content}\nURL: ${source.url}\n`
+    ).join('\n');
+  }
+
+  private parseCritique(text: string): AnswerCritique | null {
+    const match = text.match(/\{[\s\S]*\}/);
+    if (!match) return null;
+
+    try {
+      const parsed = JSON.parse(match[0]);
+      const score = Number(parsed.score);
+      if (!Number.isFinite(score)) return null;
+
+      const toList = (value: unknown): string[] =>
+        Array.isArray(value) ? value.map(item => String(item).trim()).filter(item => item.length > 0) : [];
+
+      return {
+        score: Math.max(0, Math.min(10, score)) / 10,
+        unsupportedClaims: toList(parsed.unsupported_claims),
+        missingAspects: toList(parsed.missing_aspects),
+        citationIssues: toList(parsed.citation_issues),
+        summary: typeof parsed.summary === 'string' ? parsed.summary : ''
+      };
+    } catch {
+      return null;
+    }
+  }
+}
+
+export const answerRefiner = new AnswerRefiner();
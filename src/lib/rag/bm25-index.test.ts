@@ -0,0 +1,47 @@
+import { describe, expect, it } from 'vitest';
+import { BM25Index } from './bm25-index';
+
+function buildIndex(): BM25Index {
+  const index = new BM25Index();
+  index.add('cats', 'Cats are small domesticated carnivores. Cats purr.');
+  index.add('dogs', 'Dogs are loyal companions and popular pets.');
+  index.add('pets', 'Popular pets include cats, dogs and fish.');
+  return index;
+}
+
+describe('BM25Index', () => {
+  it('ranks documents by term frequency and rarity', () => {
+    const ids = buildIndex().search('cats purr').map(result => result.id);
+    expect(ids).toEqual(['cats', 'pets']);
+  });
+
+  it('matches stemmed forms of the query terms', () => {
+    expect(buildIndex().search('companion').map(result => result.id)).toEqual(['dogs']);
+  });
+
+  it('scores a term the way the BM25 formula does', () => {
+    const index = new BM25Index({ k1: 1.2, b: 0 });
+    index.add('a', 'apple apple');
+    index.add('b', 'banana');
+
+    const idf = Math.log(1 + (2 - 1 + 0.5) / (1 + 0.5));
+    const expected = idf * (2 * 2.2) / (2 + 1.2);
+    expect(index.search('apple')[0].score).toBeCloseTo(expected, 10);
+  });
+
+  it('forgets removed and replaced documents', () => {
+    const index = buildIndex();
+    expect(index.remove('cats')).toBe(true);
+    expect(index.remove('cats')).toBe(false);
+    index.add('pets', 'Goldfish only.');
+
+    expect(index.size).toBe(2);
+    expect(index.search('cats')).toEqual([]);
+    expect(index.search('goldfish').map(result => result.id)).toEqual(['pets']);
+  });
+
+  it('skips documents the accept filter rejects', () => {
+    const ids = buildIndex().search('cats', 10, id => id !== 'cats').map(result => result.id);
+    expect(ids).toEqual(['pets']);
+  });
+});
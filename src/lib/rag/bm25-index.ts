@@ -0,0 +1,125 @@
+import { tokenize } from './embeddings';
+
+// In-process Okapi BM25 inverted index over knowledge-base chunks.
+
+export interface BM25Options {
+  // Term frequency saturation
+  k1?: number;
+  // Document length normalization (0 = none, 1 = full)
+  b?: number;
+}
+
+// Approximate V8 cost of an empty Map and of one Map entry
+const MAP_BYTES = 80;
+const ENTRY_BYTES = 32;
+
+export class BM25Index {
+  // term -> (doc id -> term frequency)
+  private postings: Map<string, Map<string, number>> = new Map();
+  private docLengths: Map<string, number> = new Map();
+  private docTerms: Map<string, string[]> = new Map();
+  private totalLength: number = 0;
+  private k1: number;
+  private b: number;
+
+  constructor(options: BM25Options = {}) {
+    this.k1 = options.k1 ?? 1.2;
+    this.b = options.b ?? 0.75;
+  }
+
+  get size(): number {
+    return this.docLengths.size;
+  }
+
+  // Rough size of the postings: one map entry per (term, document) pair plus the term strings
+  memoryBytes(): number {
+    let bytes = 0;
+    for (const [term, documents] of this.postings) {
+      bytes += MAP_BYTES + term.length * 2 + documents.size * ENTRY_BYTES;
+    }
+    for (const terms of this.docTerms.values()) {
+      bytes += ENTRY_BYTES + terms.length * 8;
+    }
+    return bytes;
+  }
+
+  add(id: string, text: string): void {
+    if (this.docLengths.has(id)) {
+      this.remove(id);
+    }
+
+    const tokens = tokenize(text);
+    const frequencies = new Map<string, number>();
+    for (const token of tokens) {
+      frequencies.set(token, (frequencies.get(token) || 0) + 1);
+    }
+
+    for (const [term, frequency] of frequencies) {
+      if (!this.postings.has(term)) {
+        this.postings.set(term, new Map());
+      }
+      this.postings.get(term)!.set(id, frequency);
+    }
+
+    this.docLengths.set(id, tokens.length);
+    this.docTerms.set(id, Array.from(frequencies.keys()));
+    this.totalLength += tokens.length;
+  }
+
+  remove(id: string): boolean {
+    const terms = this.docTerms.get(id);
+    if (!terms) return false;
+
+    for (const term of terms) {
+      const posting = this.postings.get(term);
+      if (!posting) continue;
+      posting.delete(id);
+      if (posting.size === 0) {
+        this.postings.delete(term);
+      }
+    }
+
+    this.totalLength -= this.docLengths.get(id) || 0;
+    this.docLengths.delete(id);
+    this.docTerms.delete(id);
+    return true;
+  }
+
+  clear(): void {
+    this.postings.clear();
+    this.docLengths.clear();
+    this.docTerms.clear();
+    this.totalLength = 0;
+  }
+
+  search(
+    query: string,
+    limit: number = 10,
+    accept?: (id: string) => boolean
+  ): Array<{ id: string; score: number }> {
+    const documentCount = this.docLengths.size;
+    if (documentCount === 0) return [];
+
+    const averageLength = this.totalLength / documentCount || 1;
+    const scores = new Map<string, number>();
+
+    for (const term of new Set(tokenize(query))) {
+      const posting = this.postings.get(term);
+      if (!posting) continue;
+
+      const idf = Math.log(1 + (documentCount - posting.size + 0.5) / (posting.size + 0.5));
+      for (const [id, frequency] of posting) {
+        if (accept && !accept(id)) continue;
+        const length = this.docLengths.get(id) || 0;
+        const termScore = idf * (frequency * (this.k1 + 1)) /
+          (frequency + this.k1 * (1 - this.b + this.b * length / averageLength));
+        scores.set(id, (scores.get(id) || 0) + termScore);
+      }
+    }
+
+    return Array.from(scores.entries())
+      .map(([id, score]) => ({ id, score }))
+      .sort((a, b) => b.score - a.score)
+      .slice(0, limit);
+  }
+}
@@ -0,0 +1,64 @@
+import { describe, expect, it } from 'vitest';
+import { ChunkingStrategy, DocumentChunker } from './chunker';
+
+const chunker = new DocumentChunker();
+
+const prose = Array.from({ length: 40 }, (_, i) => `Sentence number ${i} talks about topic ${i % 7}.`).join(' ');
+
+const markdown = [
+  '# Guide',
+  'Intro text for the guide.',
+  '## Install',
+  'Run the installer. Then restart.',
+  '## Usage',
+  'Call the API with a token.'
+].join('\n');
+
+describe('DocumentChunker', () => {
+  it.each<ChunkingStrategy>(['token-window', 'sentence', 'markdown'])('keeps %s chunk offsets pointing at their text', strategy => {
+    for (const content of [prose, markdown]) {
+      const chunks = chunker.chunk('doc', content, { strategy, chunkSize: 12, chunkOverlap: 3 });
+      expect(chunks.length).toBeGreaterThan(1);
+      chunks.forEach((chunk, index) => {
+        expect(chunk.chunkIndex).toBe(index);
+        expect(chunk.id).toBe(`doc_chunk_${index}`);
+        expect(content.slice(chunk.startOffset, chunk.endOffset)).toBe(chunk.content);
+      });
+    }
+  });
+
+  it('covers every token of the document', () => {
+    const chunks = chunker.chunk('doc', prose, { strategy: 'sentence', chunkSize: 20, chunkOverlap: 5 });
+    const covered = new Set<number>();
+    chunks.forEach(chunk => {
+      for (let i = chunk.startOffset; i < chunk.endOffset; i++) covered.add(i);
+    });
+    for (const match of prose.matchAll(/\S+/g)) {
+      expect(covered.has(match.index!)).toBe(true);
+    }
+  });
+
+  it('overlaps token windows by chunkOverlap tokens', () => {
+    const content = Array.from({ length: 30 }, (_, i) => `w${i}`).join(' ');
+    const chunks = chunker.chunk('doc', content, { strategy: 'token-window', chunkSize: 10, chunkOverlap: 4 });
+
+    expect(chunks.map(chunk => chunk.content.split(' ')[0])).toEqual(['w0', 'w6', 'w12', 'w18', 'w24']);
+    chunks.forEach(chunk => expect(chunk.content.split(' ').length).toBeLessThanOrEqual(10));
+  });
+
+  it('only breaks sentence chunks at sentence ends', () => {
+    const chunks = chunker.chunk('doc', prose, { strategy: 'sentence', chunkSize: 15, chunkOverlap: 0 });
+    chunks.forEach(chunk => expect(chunk.content).toMatch(/^Sentence .*\.$/));
+  });
+
+  it('labels markdown chunks with their heading path', () => {
+    const chunks = chunker.chunk('doc', markdown, { strategy: 'markdown', chunkSize: 50 });
+    expect(chunks.map(chunk => chunk.heading)).toEqual(['Guide', 'Guide > Install', 'Guide > Usage']);
+  });
+
+  it('returns one chunk for an empty document', () => {
+    expect(chunker.chunk('doc', '   ')).toEqual([
+      { id: 'doc_chunk_0', documentId: 'doc', chunkIndex: 0, content: '   ', startOffset: 0, endOffset: 3 }
+    ]);
+  });
+});
@@ -0,0 +1,237 @@
+// Splits knowledge-base documents into retrievable chunks.
+// Token counts are approximated by whitespace-separated words; every chunk
+// keeps the character offsets of its span in the parent document.
+
+export type ChunkingStrategy = 'token-window' | 'sentence' | 'markdown';
+
+export interface ChunkingOptions {
+  strategy?: ChunkingStrategy;
+  // Target chunk size in tokens
+  chunkSize?: number;
+  // Tokens shared between consecutive chunks
+  chunkOverlap?: number;
+}
+
+export interface TextChunk {
+  id: string;
+  documentId: string;
+  chunkIndex: number;
+  content: string;
+  startOffset: number;
+  endOffset: number;
+  heading?: string;
+}
+
+interface Span {
+  start: number;
+  end: number;
+  tokens: number;
+}
+
+const DEFAULT_OPTIONS: Required<ChunkingOptions> = {
+  strategy: 'sentence',
+  chunkSize: 256,
+  chunkOverlap: 32
+};
+
+export class DocumentChunker {
+  chunk(documentId: string, content: string, options: ChunkingOptions = {}): TextChunk[] {
+    const config = { ...DEFAULT_OPTIONS, ...options };
+    if (config.chunkSize <= 0) {
+      throw new Error('chunkSize must be positive');
+    }
+    config.chunkOverlap = Math.max(0, Math.min(config.chunkOverlap, config.chunkSize - 1));
+
+    let spans: Array<Span & { heading?: string }>;
+    switch (config.strategy) {
+      case 'token-window':
+        spans = this.tokenWindowSpans(content, 0, content.length, config);
+        break;
+      case 'sentence':
+        spans = this.sentenceSpans(content, 0, content.length, config);
+        break;
+      case 'markdown':
+        spans = this.markdownSpans(content, config);
+        break;
+      default:
+        throw new Error(`Unknown chunking strategy: ${config.strategy}`);
+    }
+
+    const chunks = spans
+      .map(span => ({ ...span, ...this.trimSpan(content, span.start, span.end) }))
+      .filter(span => span.end > span.start)
+      .map((span, index) => ({
+        id: `${documentId}_chunk_${index}`,
+        documentId,
+        chunkIndex: index,
+        content: content.slice(span.start, span.end),
+        startOffset: span.start,
+        endOffset: span.end,
+        ...(span.heading ? { heading: span.heading } : {})
+      }));
+
+    // Empty or whitespace-only documents still get a single chunk
+    if (chunks.length === 0) {
+      return [{
+        id: `${documentId}_chunk_0`,
+        documentId,
+        chunkIndex: 0,
+        content,
+        startOffset: 0,
+        endOffset: content.length
+      }];
+    }
+
+    return chunks;
+  }
+
+  // Fixed windows of chunkSize tokens, advancing by chunkSize - chunkOverlap
+  private tokenWindowSpans(content: string, start: number, end: number, config: Required<ChunkingOptions>): Span[] {
+    const tokens = this.tokenSpans(content, start, end);
+    const spans: Span[] = [];
+    const step = config.chunkSize - config.chunkOverlap;
+
+    for (let i = 0; i < tokens.length; i += step) {
+      const window = tokens.slice(i, i + config.chunkSize);
+      spans.push({ start: window[0].start, end: window[window.length - 1].end, tokens: window.length });
+      if (i + config.chunkSize >= tokens.length) break;
+    }
+
+    return spans;
+  }
+
+  // Packs whole sentences up to chunkSize tokens, carrying trailing sentences as overlap
+  private sentenceSpans(content: string, start: number, end: number, config: Required<ChunkingOptions>): Span[] {
+    const sentences = this.splitSentences(content, start, end);
+    const spans: Span[] = [];
+    let current: Span[] = [];
+    let currentTokens = 0;
+
+    const flush = () => {
+      if (current.length === 0) return;
+      spans.push({ start: current[0].start, end: current[current.length - 1].end, tokens: currentTokens });
+
+      const carried: Span[] = [];
+      let carriedTokens = 0;
+      for (let i = current.length - 1; i > 0; i--) {
+        if (carriedTokens + current[i].tokens > config.chunkOverlap) break;
+        carried.unshift(current[i]);
+        carriedTokens += current[i].tokens;
+      }
+      current = carried;
+      currentTokens = carriedTokens;
+    };
+
+    for (const sentence of sentences) {
+      // Sentences longer than a chunk fall back to token windows
+      if (sentence.tokens > config.chunkSize) {
+        flush();
+        current = [];
+        currentTokens = 0;
+        spans.push(...this.tokenWindowSpans(content, sentence.start, sentence.end, config));
+        continue;
+      }
+
+      if (currentTokens + sentence.tokens > config.chunkSize) {
+        flush();
+        if (currentTokens + sentence.tokens > config.chunkSize) {
+          current = [];
+          currentTokens = 0;
+        }
+      }
+      current.push(sentence);
+      currentTokens += sentence.tokens;
+    }
+
+    if (current.length > 0 && (spans.length === 0 || current[current.length - 1].end > spans[spans.length - 1].end)) {
+      spans.push({ start: current[0].start, end: current[current.length - 1].end, tokens: currentTokens });
+    }
+
+    return spans;
+  }
+
+  // One section per heading, with oversized sections split by sentence
+  private markdownSpans(content: string, config: Required<ChunkingOptions>): Array<Span & { heading?: string }> {
+    const headingRegex = /^(#{1,6})[ \t]+(.+?)[ \t#]*$/gm;
+    const sections: Array<{ start: number; end: number; heading?: string }> = [];
+    const headingPath: string[] = [];
+    let sectionStart = 0;
+    let sectionHeading: string | undefined;
+    let match: RegExpExecArray | null;
+
+    while ((match = headingRegex.exec(content)) !== null) {
+      if (match.index > sectionStart) {
+        sections.push({ start: sectionStart, end: match.index, heading: sectionHeading });
+      }
+
+      const level = match[1].length;
+      headingPath.length = level - 1;
+      headingPath[level - 1] = match[2].trim();
+      sectionHeading = headingPath.filter(Boolean).join(' > ');
+      sectionStart = match.index;
+    }
+    sections.push({ start: sectionStart, end: content.length, heading: sectionHeading });
+
+    const spans: Array<Span & { heading?: string }> = [];
+    for (const section of sections) {
+      const tokens = this.tokenSpans(content, section.start, section.end).length;
+      if (tokens === 0) continue;
+
+      if (tokens <= config.chunkSize) {
+        spans.push({ start: section.start, end: section.end, tokens, heading: section.heading });
+      } else {
+        spans.push(
+          ...this.sentenceSpans(content, section.start, section.end, config)
+            .map(span => ({ ...span, heading: section.heading }))
+        );
+      }
+    }
+
+    return spans;
+  }
+
+  private splitSentences(content: string, start: number, end: number): Span[] {
+    const sentenceRegex = /[^.!?\n]+(?:[.!?]+["')\]]*|\n+|$)/g;
+    const text = content.slice(start, end);
+    const sentences: Span[] = [];
+    let match: RegExpExecArray | null;
+
+    while ((match = sentenceRegex.exec(text)) !== null) {
+      if (match[0].length === 0) {
+        sentenceRegex.lastIndex++;
+        continue;
+      }
+      const tokens = this.countTokens(match[0]);
+      if (tokens === 0) continue;
+      sentences.push({ start: start + match.index, end: start + match.index + match[0].length, tokens });
+    }
+
+    return sentences;
+  }
+
+  private tokenSpans(content: string, start: number, end: number): Span[] {
+    const tokenRegex = /\S+/g;
+    const text = content.slice(start, end);
+    const tokens: Span[] = [];
+    let match: RegExpExecArray | null;
+
+    while ((match = tokenRegex.exec(text)) !== null) {
+      tokens.push({ start: start + match.index, end: start + match.index + match[0].length, tokens: 1 });
+    }
+
+    return tokens;
+  }
+
+  private trimSpan(content: string, start: number, end: number): { start: number; end: number } {
+    while (start < end && /\s/.test(content[start])) start++;
+    while (end > start && /\s/.test(content[end - 1])) end--;
+    return { start, end };
+  }
+
+  countTokens(text: string): number {
+    const matches = text.match(/\S+/g);
+    return matches ? matches.length : 0;
+  }
+}
+
+export const documentChunker = new DocumentChunker();
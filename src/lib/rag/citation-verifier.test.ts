@@ -0,0 +1,55 @@
+import { describe, expect, it } from 'vitest';
+import { CitationVerifier } from './citation-verifier';
+
+const sources = [
+  { id: 'paris', content: 'The Eiffel Tower in Paris was completed in 1889 for the World Fair.' },
+  { id: 'rome', content: 'The Colosseum in Rome could hold around 50,000 spectators.' }
+];
+
+describe('CitationVerifier', () => {
+  const verifier = new CitationVerifier();
+
+  it('scores supported and unsupported citations', () => {
+    const result = verifier.verify(
+      'The Eiffel Tower was completed in 1889 [Document 1]. The Colosseum held 50,000 spectators [Document 1].',
+      sources
+    );
+
+    expect(result.claimCount).toBe(2);
+    expect(result.checks.map(check => check.supported)).toEqual([true, false]);
+    expect(result.checks[0].sourceId).toBe('paris');
+    expect(result.citations).toEqual([
+      expect.objectContaining({ sourceIndex: 1, claimCount: 2 })
+    ]);
+  });
+
+  it('penalises figures the source does not contain', () => {
+    const right = verifier.scoreClaim('The Eiffel Tower was completed in 1889.', sources[0].content);
+    const wrong = verifier.scoreClaim('The Eiffel Tower was completed in 1925.', sources[0].content);
+    expect(wrong).toBeLessThan(right);
+  });
+
+  it('expands multi-source markers and treats missing sources as unsupported', () => {
+    const result = verifier.verify('The Colosseum in Rome held 50,000 spectators [Sources 2 and 3].', sources);
+
+    expect(result.checks.map(check => [check.sourceIndex, check.supported])).toEqual([[2, true], [3, false]]);
+    expect(result.checks[1].supportScore).toBe(0);
+  });
+
+  it('attaches a marker at the start of a sentence to the previous sentence', () => {
+    const result = verifier.verify('The Eiffel Tower is in Paris. [Document 1] Rome is old.', sources);
+
+    expect(result.checks).toHaveLength(1);
+    expect(result.checks[0].claim).toBe('The Eiffel Tower is in Paris.');
+  });
+
+  it('removes only the unsupported citations in remove mode', () => {
+    const response = 'The Eiffel Tower was completed in 1889 [Document 1] [Document 2].';
+
+    expect(verifier.verify(response, sources).response).toBe(response);
+    expect(verifier.verify(response, sources, { mode: 'remove' }).response)
+      .toBe('The Eiffel Tower was completed in 1889 [Document 1].');
+    expect(verifier.verify('The Eiffel Tower opened in 1889 [Documents 1, 2].', sources, { mode: 'remove' }).response)
+      .toBe('The Eiffel Tower opened in 1889 [Document 1].');
+  });
+});
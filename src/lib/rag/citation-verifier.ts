@@ -0,0 +1,261 @@
+import { tokenize } from './embeddings';
+
+// Checks that every [Document N] / [Source N] citation in an answer points at
+// a source whose text supports the sentence it is attached to. Support is
+// lexical: coverage of the claim's terms and bigrams by the cited source,
+// penalised when the claim states numbers the source does not contain.
+
+export type CitationMode = 'flag' | 'remove';
+
+export interface VerifiableSource {
+  id?: string;
+  content: string;
+}
+
+export interface CitationCheck {
+  // The sentence the citation is attached to, without citation markers
+  claim: string;
+  // 1-based source number as cited in the answer
+  sourceIndex: number;
+  sourceId?: string;
+  // Support of the claim by the cited source, in [0, 1]
+  supportScore: number;
+  supported: boolean;
+}
+
+export interface CitationSupport {
+  sourceIndex: number;
+  sourceId?: string;
+  // Mean support over all claims citing this source
+  supportScore: number;
+  supported: boolean;
+  claimCount: number;
+}
+
+export interface CitationVerificationResult {
+  // The answer, with unsupported citation markers removed in 'remove' mode
+  response: string;
+  checks: CitationCheck[];
+  // One entry per cited source, ordered by source number
+  citations: CitationSupport[];
+  // Number of sentences in the answer, cited or not
+  claimCount: number;
+}
+
+export interface CitationVerificationOptions {
+  mode?: CitationMode;
+  // Support score below which a citation is considered unsupported
+  minSupport?: number;
+}
+
+interface SourceTerms {
+  terms: Set<string>;
+  bigrams: Set<string>;
+  numbers: Set<string>;
+}
+
+interface Claim {
+  text: string;
+  markers: Array<{ start: number; end: number; indices: number[] }>;
+}
+
+// Support score below which a citation counts as unsupported
+export const DEFAULT_MIN_SUPPORT = 0.35;
+
+// Matches [Document 2], [Source 1], [Documents 1, 3], [Sources 2 and 4]
+const CITATION_PATTERN = /\[(?:Document|Source)s? (\d+(?:\s*(?:,|and|&)\s*\d+)*)\]/g;
+
+export class CitationVerifier {
+  verify(
+    response: string,
+    sources: VerifiableSource[],
+    options: CitationVerificationOptions = {}
+  ): CitationVerificationResult {
+    const mode = options.mode ?? 'flag';
+    const minSupport = options.minSupport ?? DEFAULT_MIN_SUPPORT;
+
+    const checks: CitationCheck[] = [];
+    const removals: Array<{ start: number; end: number; replacement: string }> = [];
+    const sourceTerms = new Map<number, SourceTerms>();
+    const claims = this.splitClaims(response);
+
+    for (const claim of claims.filter(claim => claim.markers.length > 0)) {
+      const claimTokens = tokenize(claim.text);
+
+      for (const marker of claim.markers) {
+        const kept: number[] = [];
+
+        for (const sourceIndex of marker.indices) {
+          const source = sources[sourceIndex - 1];
+          let supportScore = 0;
+
+          if (source) {
+            if (!sourceTerms.has(sourceIndex)) {
+              sourceTerms.set(sourceIndex, this.sourceTerms(source.content));
+            }
+            supportScore = this.scoreSupport(claim.text, claimTokens, sourceTerms.get(sourceIndex)!);
+          }
+
+          const supported = supportScore >= minSupport;
+          checks.push({
+            claim: claim.text,
+            sourceIndex,
+            sourceId: source?.id,
+            supportScore,
+            supported
+          });
+
+          if (supported) kept.push(sourceIndex);
+        }
+
+        if (mode === 'remove' && kept.length < marker.indices.length) {
+          const label = response.slice(marker.start, marker.end).startsWith('[Source') ? 'Source' : 'Document';
+          removals.push({
+            start: marker.start,
+            end: marker.end,
+            replacement: kept.map(index => `[${label} ${index}]`).join('')
+          });
+        }
+      }
+    }
+
+    return {
+      response: this.applyRemovals(response, removals),
+      checks,
+      citations: this.summarize(checks, minSupport),
+      claimCount: claims.length
+    };
+  }
+
+  // Support of a single claim by a passage, on the same scale as verify()
+  scoreClaim(claim: string, content: string): number {
+    return this.scoreSupport(claim, tokenize(claim), this.sourceTerms(content));
+  }
+
+  // Splits the answer into sentences and attaches the citation markers in
+  // each one. A sentence made up only of markers belongs to the previous one.
+  private splitClaims(response: string): Claim[] {
+    const claims: Claim[] = [];
+    const sentenceRegex = /[^.!?\n]+(?:[.!?]+["')\]]*|\n+|$)/g;
+    let match: RegExpExecArray | null;
+
+    while ((match = sentenceRegex.exec(response)) !== null) {
+      if (match[0].length === 0) {
+        sentenceRegex.lastIndex++;
+        continue;
+      }
+
+      const sentence = match[0];
+      const previous = claims[claims.length - 1];
+      const markers: Claim['markers'] = [];
+
+      for (const marker of sentence.matchAll(CITATION_PATTERN)) {
+        const entry = {
+          start: match.index + marker.index!,
+          end: match.index + marker.index! + marker[0].length,
+          indices: Array.from(new Set(marker[1].split(/\s*(?:,|and|&)\s*/).map(value => parseInt(value, 10))))
+        };
+
+        // Markers ahead of any text ("... in Paris. [Document 1] Next ...") cite the previous sentence
+        const leading = tokenize(sentence.slice(0, marker.index!).replace(CITATION_PATTERN, '')).length === 0;
+        if (leading && previous) {
+          previous.markers.push(entry);
+        } else {
+          markers.push(entry);
+        }
+      }
+
+      const text = sentence
+        .replace(CITATION_PATTERN, '')
+        .replace(/\s+/g, ' ')
+        .replace(/\s+([.,;:!?])/g, '$1')
+        .trim();
+
+      if (tokenize(text).length === 0) {
+        if (previous) previous.markers.push(...markers);
+        continue;
+      }
+
+      claims.push({ text, markers });
+    }
+
+    return claims;
+  }
+
+  private scoreSupport(
+    claim: string,
+    claimTokens: string[],
+    source: SourceTerms
+  ): number {
+    const claimTerms = Array.from(new Set(claimTokens));
+    if (claimTerms.length === 0) return 0;
+
+    const coverage = claimTerms.filter(term => source.terms.has(term)).length / claimTerms.length;
+
+    const claimBigrams = this.bigrams(claimTokens);
+    const bigramCoverage = claimBigrams.size > 0
+      ? Array.from(claimBigrams).filter(bigram => source.bigrams.has(bigram)).length / claimBigrams.size
+      : coverage;
+
+    let score = 0.7 * coverage + 0.3 * bigramCoverage;
+
+    // Figures that do not appear in the source are a strong sign of an unsupported claim
+    const claimNumbers = Array.from(this.numbers(claim));
+    if (claimNumbers.length > 0) {
+      const matched = claimNumbers.filter(number => source.numbers.has(number)).length;
+      score *= 0.5 + 0.5 * (matched / claimNumbers.length);
+    }
+
+    return Math.min(1, score);
+  }
+
+  private summarize(checks: CitationCheck[], minSupport: number): CitationSupport[] {
+    const bySource = new Map<number, CitationCheck[]>();
+    for (const check of checks) {
+      if (!bySource.has(check.sourceIndex)) bySource.set(check.sourceIndex, []);
+      bySource.get(check.sourceIndex)!.push(check);
+    }
+
+    return Array.from(bySource.entries())
+      .sort(([a], [b]) => a - b)
+      .map(([sourceIndex, sourceChecks]) => {
+        const supportScore = sourceChecks.reduce((sum, check) => sum + check.supportScore, 0) / sourceChecks.length;
+        return {
+          sourceIndex,
+          sourceId: sourceChecks[0].sourceId,
+          supportScore,
+          supported: supportScore >= minSupport,
+          claimCount: sourceChecks.length
+        };
+      });
+  }
+
+  private applyRemovals(response: string, removals: Array<{ start: number; end: number; replacement: string }>): string {
+    let result = response;
+    for (const removal of removals.sort((a, b) => b.start - a.start)) {
+      // Drop the space before a marker that is removed entirely
+      const start = removal.replacement === '' && result[removal.start - 1] === ' ' ? removal.start - 1 : removal.start;
+      result = result.slice(0, start) + removal.replacement + result.slice(removal.end);
+    }
+    return result;
+  }
+
+  private sourceTerms(content: string): SourceTerms {
+    const tokens = tokenize(content);
+    return { terms: new Set(tokens), bigrams: this.bigrams(tokens), numbers: this.numbers(content) };
+  }
+
+  private bigrams(tokens: string[]): Set<string> {
+    const bigrams = new Set<string>();
+    for (let i = 1; i < tokens.length; i++) {
+      bigrams.add(`${tokens[i - 1]} ${tokens[i]}`);
+    }
+    return bigrams;
+  }
+
+  private numbers(text: string): Set<string> {
+    return new Set((text.match(/\d+(?:[.,]\d+)*/g) || []).map(number => number.replace(/,/g, '')));
+  }
+}
+
+export const citationVerifier = new CitationVerifier();
@@ -0,0 +1,364 @@
+import { db } from '@/lib/db';
+import { VectorStore } from './vector-store';
+import {
+  DEFAULT_OPENAI_BASE_URL,
+  EMBEDDING_PROVIDER_TYPES,
+  EmbeddingProvider,
+  EmbeddingProviderConfig,
+  EmbeddingProviderType,
+  createEmbeddingProvider,
+  getEmbeddingConfigFromEnv,
+  getEmbeddingProvider
+} from './embeddings';
+import { getQuantizationFromEnv } from './quantization';
+
+// Named knowledge-base collections. Each collection has its own vector store
+// and embedding provider, so documents embedded with different models never
+// share an index. The "default" collection is configured through the
+// environment and always exists; other collections are stored in the
+// Collection table. Both are loaded on first access, so a bad embedding
+// setting only fails requests that use a collection. Once the default
+// collection has been re-embedded, its stored row takes precedence over the
+// environment.
+
+export const DEFAULT_COLLECTION = 'default';
+
+const COLLECTION_NAME_PATTERN = /^[a-z0-9][a-z0-9_-]{0,63}$/;
+// Regular names cannot start with it, so scratch collections never clash with them
+const SCRATCH_PREFIX = '~';
+const DEFAULT_DESCRIPTION = 'Default knowledge base';
+const MAX_EMBEDDING_DIMENSION = 8192;
+
+export interface CollectionConfig {
+  name: string;
+  description: string;
+  // API keys are never stored; the openai provider reads its key from the environment
+  embedding: Omit<EmbeddingProviderConfig, 'apiKey'> & { dimension: number };
+  createdAt: string;
+}
+
+export interface Collection {
+  config: CollectionConfig;
+  store: VectorStore;
+  embeddingProvider: EmbeddingProvider;
+}
+
+export interface CreateCollectionInput {
+  name: string;
+  description?: string;
+  embedding?: Omit<EmbeddingProviderConfig, 'apiKey'>;
+}
+
+// Embedding settings of a collection together with the provider they describe
+export interface ResolvedEmbedding {
+  config: CollectionConfig['embedding'];
+  provider: EmbeddingProvider;
+}
+
+export class CollectionError extends Error {
+  constructor(message: string, public readonly code: 'invalid' | 'not_found' | 'conflict') {
+    super(message);
+    this.name = 'CollectionError';
+  }
+}
+
+function usesConfiguredBaseUrl(baseUrl: string | undefined): boolean {
+  if (!baseUrl) return true;
+  const normalize = (url: string) => url.trim().replace(/\/+$/, '');
+  return typeof baseUrl === 'string'
+    && normalize(baseUrl) === normalize(process.env.EMBEDDING_BASE_URL || DEFAULT_OPENAI_BASE_URL);
+}
+
+export class CollectionManager {
+  private collections: Map<string, Collection> = new Map();
+  private persist = true;
+  private loadPromise: Promise<void> | null = null;
+
+  private async ensureLoaded(): Promise<void> {
+    if (!this.loadPromise) {
+      this.loadPromise = this.loadFromDatabase();
+    }
+    await this.loadPromise;
+  }
+
+  private async loadFromDatabase(): Promise<void> {
+    const rows = await db.collection.findMany().catch(error => {
+      console.error('Failed to load collections from database, keeping them in memory only:', error);
+      this.persist = false;
+      return [];
+    });
+
+    // A row that no longer makes a valid provider is skipped on its own
+    for (const row of rows) {
+      try {
+        this.register({
+          name: row.name,
+          description: row.name === DEFAULT_COLLECTION ? DEFAULT_DESCRIPTION : row.description,
+          embedding: {
+            type: row.embeddingProvider as EmbeddingProviderType,
+            model: row.embeddingModel ?? undefined,
+            dimension: row.embeddingDimension,
+            baseUrl: row.embeddingBaseUrl ?? undefined
+          },
+          createdAt: row.createdAt.toISOString()
+        });
+      } catch (error) {
+        console.error(`Failed to load collection "${row.name}", skipping it:`, error);
+      }
+    }
+
+    if (!this.collections.has(DEFAULT_COLLECTION)) {
+      this.registerDefault();
+    }
+  }
+
+  // Default collection as configured through the environment
+  private registerDefault(): void {
+    const { apiKey: _apiKey, ...embedding } = getEmbeddingConfigFromEnv();
+    const provider = getEmbeddingProvider();
+
+    this.collections.set(DEFAULT_COLLECTION, {
+      config: {
+        name: DEFAULT_COLLECTION,
+        description: DEFAULT_DESCRIPTION,
+        embedding: { ...embedding, dimension: provider.dimension },
+        createdAt: new Date(0).toISOString()
+      },
+      store: new VectorStore({
+        collection: DEFAULT_COLLECTION,
+        model: provider.id,
+        dimension: provider.dimension,
+        quantization: getQuantizationFromEnv()
+      }),
+      embeddingProvider: provider
+    });
+  }
+
+  private register(config: CollectionConfig): Collection {
+    const embeddingProvider = this.createProvider(config.embedding);
+    const collection: Collection = {
+      config,
+      store: new VectorStore({
+        collection: config.name,
+        model: embeddingProvider.id,
+        dimension: embeddingProvider.dimension,
+        quantization: getQuantizationFromEnv()
+      }),
+      embeddingProvider
+    };
+    this.collections.set(config.name, collection);
+    return collection;
+  }
+
+  // The server's API key only ever goes to the base URL it was configured for,
+  // never to one a caller supplied
+  private createProvider(embedding: Omit<EmbeddingProviderConfig, 'apiKey'>): EmbeddingProvider {
+    return createEmbeddingProvider({
+      ...embedding,
+      apiKey: embedding.type === 'openai' && usesConfiguredBaseUrl(embedding.baseUrl)
+        ? process.env.EMBEDDING_API_KEY || process.env.OPENAI_API_KEY
+        : undefined
+    });
+  }
+
+  async create(input: CreateCollectionInput): Promise<Collection> {
+    await this.ensureLoaded();
+
+    if (typeof input.name !== 'string' || !COLLECTION_NAME_PATTERN.test(input.name)) {
+      throw new CollectionError(
+        'Collection name must start with a lowercase letter or digit and contain only a-z, 0-9, "_" and "-" (max 64 characters)',
+        'invalid'
+      );
+    }
+    if (this.collections.has(input.name)) {
+      throw new CollectionError(`Collection "${input.name}" already exists`, 'conflict');
+    }
+
+    const { config: embedding } = this.resolveEmbedding(input.embedding ?? { type: 'local' });
+
+    const config: CollectionConfig = {
+      name: input.name,
+      description: input.description || '',
+      embedding,
+      createdAt: new Date().toISOString()
+    };
+
+    if (this.persist) {
+      await db.collection.create({
+        data: {
+          name: config.name,
+          description: config.description,
+          ...this.toEmbeddingRow(config.embedding)
+        }
+      });
+    }
+
+    return this.register(config);
+  }
+
+  // Validates embedding settings and creates their provider
+  resolveEmbedding(embedding: Omit<EmbeddingProviderConfig, 'apiKey'>): ResolvedEmbedding {
+    if (!EMBEDDING_PROVIDER_TYPES.includes(embedding.type)) {
+      throw new CollectionError(`Unknown embedding provider "${embedding.type}"`, 'invalid');
+    }
+    if (embedding.dimension !== undefined && (!Number.isInteger(embedding.dimension)
+      || embedding.dimension < 1 || embedding.dimension > MAX_EMBEDDING_DIMENSION)) {
+      throw new CollectionError(`Embedding dimension must be an integer between 1 and ${MAX_EMBEDDING_DIMENSION}`, 'invalid');
+    }
+    if (embedding.type === 'openai' && !usesConfiguredBaseUrl(embedding.baseUrl)) {
+      throw new CollectionError('base_url must be left unset or match the server\'s EMBEDDING_BASE_URL', 'invalid');
+    }
+
+    let provider: EmbeddingProvider;
+    try {
+      provider = this.createProvider(embedding);
+    } catch (error) {
+      throw new CollectionError(error instanceof Error ? error.message : String(error), 'invalid');
+    }
+
+    return {
+      config: {
+        type: embedding.type,
+        model: embedding.model,
+        dimension: provider.dimension,
+        baseUrl: embedding.baseUrl
+      },
+      provider
+    };
+  }
+
+  // Points a collection at a store filled with vectors from another model.
+  // Store and provider are swapped together before anything is awaited, so
+  // no query or write sees one without the other.
+  async switchEmbedding(collection: Collection, embedding: ResolvedEmbedding, store: VectorStore): Promise<void> {
+    collection.config.embedding = embedding.config;
+    collection.embeddingProvider = embedding.provider;
+    collection.store = store;
+
+    if (this.persist) {
+      const { name, description } = collection.config;
+      const data = this.toEmbeddingRow(embedding.config);
+      await db.collection.upsert({
+        where: { name },
+        create: { name, description, ...data },
+        update: data
+      });
+    }
+  }
+
+  private toEmbeddingRow(embedding: CollectionConfig['embedding']) {
+    return {
+      embeddingProvider: embedding.type,
+      embeddingModel: embedding.model ?? null,
+      embeddingDimension: embedding.dimension,
+      embeddingBaseUrl: embedding.baseUrl ?? null
+    };
+  }
+
+  // In-memory collection that is neither persisted nor listed, e.g. for an
+  // evaluation run over its own corpus. Remove it with discardScratch().
+  async createScratch(label: string, embedding: Omit<EmbeddingProviderConfig, 'apiKey'> = { type: 'local' }): Promise<Collection> {
+    await this.ensureLoaded();
+
+    const resolved = this.resolveEmbedding(embedding);
+    const name = `${SCRATCH_PREFIX}${label}_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+    const collection: Collection = {
+      config: {
+        name,
+        description: `Scratch collection (${label})`,
+        embedding: resolved.config,
+        createdAt: new Date().toISOString()
+      },
+      store: new VectorStore({
+        collection: name,
+        model: resolved.provider.id,
+        dimension: resolved.provider.dimension,
+        persist: false,
+        quantization: getQuantizationFromEnv()
+      }),
+      embeddingProvider: resolved.provider
+    };
+
+    this.collections.set(name, collection);
+    return collection;
+  }
+
+  discardScratch(collection: Collection): void {
+    if (collection.config.name.startsWith(SCRATCH_PREFIX) && this.isCurrent(collection)) {
+      this.collections.delete(collection.config.name);
+    }
+  }
+
+  // Omitting the name selects the default collection
+  async get(name: string = DEFAULT_COLLECTION): Promise<Collection> {
+    await this.ensureLoaded();
+
+    const collection = this.collections.get(name);
+    if (!collection) {
+      throw new CollectionError(`Collection "${name}" not found`, 'not_found');
+    }
+    return collection;
+  }
+
+  // False once the collection has been dropped or replaced
+  isCurrent(collection: Collection): boolean {
+    return this.collections.get(collection.config.name) === collection;
+  }
+
+  async list(): Promise<Collection[]> {
+    await this.ensureLoaded();
+    return Array.from(this.collections.values()).filter(collection => !collection.config.name.startsWith(SCRATCH_PREFIX));
+  }
+
+  // Deletes the collection together with all of its documents
+  async drop(name: string): Promise<void> {
+    if (name === DEFAULT_COLLECTION) {
+      throw new CollectionError('The default collection cannot be dropped', 'invalid');
+    }
+
+    const collection = await this.get(name);
+    await collection.store.clear();
+
+    if (this.persist) {
+      await db.collection.deleteMany({ where: { name } });
+    }
+
+    this.collections.delete(name);
+  }
+}
+
+// API representation of a collection with its current stats
+export async function describeCollection(collection: Collection) {
+  const stats = await collection.store.getStats();
+  const { config } = collection;
+
+  return {
+    name: config.name,
+    description: config.description,
+    embedding: {
+      provider: config.embedding.type,
+      model: config.embedding.model ?? null,
+      model_id: stats.model,
+      dimension: config.embedding.dimension,
+      base_url: config.embedding.baseUrl ?? null
+    },
+    stats: {
+      documents: stats.totalDocuments,
+      chunks: stats.totalChunks,
+      unembedded_chunks: stats.unembeddedChunks,
+      persistent: stats.persistent,
+      search_mode: stats.searchMode,
+      quantization: stats.quantization,
+      memory_bytes: stats.memoryUsage,
+      memory: {
+        vectors: stats.memory.vectors,
+        graph: stats.memory.graph,
+        keyword_index: stats.memory.keywordIndex,
+        text: stats.memory.text
+      }
+    },
+    created_at: config.createdAt
+  };
+}
+
+export const collectionManager = new CollectionManager();
@@ -0,0 +1,141 @@
+import { CitationVerificationResult, DEFAULT_MIN_SUPPORT, citationVerifier } from './citation-verifier';
+
+// Evidence-based answer confidence, shared by the RAG pipeline and the
+// search and chat routes. Four signals are combined:
+//   retrieval     how closely the best sources match the query
+//   coverage      share of answer sentences that carry a citation
+//   verification  share of citations whose source supports the claim
+//   agreement     share of cited claims supported by more than one source
+// Signals that cannot be measured (e.g. verification for an answer without
+// citations) are left out and the remaining weights renormalised.
+
+export type ConfidenceSignal = 'retrieval' | 'coverage' | 'verification' | 'agreement';
+
+export interface ConfidenceComponent {
+  signal: ConfidenceSignal;
+  // Signal value in [0, 1]
+  value: number;
+  // Weight after renormalisation over the measured signals
+  weight: number;
+  detail: string;
+}
+
+export interface ConfidenceAssessment {
+  score: number;
+  components: ConfidenceComponent[];
+  explanation: string;
+}
+
+export interface ConfidenceInputs {
+  // Retrieval or ranking scores of the sources, in [0, 1]
+  retrievalScores: number[];
+  // Source texts in the order they were numbered for the model
+  sources: Array<{ content: string }>;
+  // Result of verifying the answer's citations against the sources
+  verification?: CitationVerificationResult;
+}
+
+const SIGNAL_WEIGHTS: Record<ConfidenceSignal, number> = {
+  retrieval: 0.3,
+  coverage: 0.2,
+  verification: 0.3,
+  agreement: 0.2
+};
+
+// Scores are kept away from 0 and 1: lexical checks cannot prove an answer
+// right or wrong
+const MIN_SCORE = 0.05;
+const MAX_SCORE = 0.95;
+const NO_EVIDENCE_SCORE = 0.2;
+const TOP_SOURCES = 3;
+
+export function assessConfidence(inputs: ConfidenceInputs): ConfidenceAssessment {
+  const { retrievalScores, sources, verification } = inputs;
+
+  if (sources.length === 0) {
+    return {
+      score: NO_EVIDENCE_SCORE,
+      components: [],
+      explanation: 'No sources were retrieved, so the answer is not grounded in evidence.'
+    };
+  }
+
+  const measured: Array<Omit<ConfidenceComponent, 'weight'>> = [];
+
+  // Retrieval: mean of the best few scores, so a long tail of weak matches does not drag it down
+  const topScores = [...retrievalScores]
+    .filter(score => Number.isFinite(score))
+    .sort((a, b) => b - a)
+    .slice(0, TOP_SOURCES);
+  if (topScores.length > 0) {
+    const value = clamp(topScores.reduce((sum, score) => sum + score, 0) / topScores.length, 0, 1);
+    measured.push({
+      signal: 'retrieval',
+      value,
+      detail: `Top ${topScores.length} source${topScores.length === 1 ? '' : 's'} scored ${formatPercent(value)} on average`
+    });
+  }
+
+  const checks = verification?.checks ?? [];
+  const citedClaims = Array.from(new Set(checks.map(check => check.claim)));
+
+  if (verification && verification.claimCount > 0) {
+    const value = citedClaims.length / verification.claimCount;
+    measured.push({
+      signal: 'coverage',
+      value,
+      detail: `${citedClaims.length} of ${verification.claimCount} sentences cite a source`
+    });
+  }
+
+  if (checks.length > 0) {
+    const supported = checks.filter(check => check.supported).length;
+    measured.push({
+      signal: 'verification',
+      value: supported / checks.length,
+      detail: `${supported} of ${checks.length} citations are supported by the cited source`
+    });
+  }
+
+  if (citedClaims.length > 0 && sources.length > 1) {
+    const corroborated = citedClaims.filter(claim =>
+      sources.filter(source => citationVerifier.scoreClaim(claim, source.content) >= DEFAULT_MIN_SUPPORT).length >= 2
+    ).length;
+    measured.push({
+      signal: 'agreement',
+      value: corroborated / citedClaims.length,
+      detail: `${corroborated} of ${citedClaims.length} cited claims are backed by more than one source`
+    });
+  }
+
+  const totalWeight = measured.reduce((sum, component) => sum + SIGNAL_WEIGHTS[component.signal], 0);
+  const components: ConfidenceComponent[] = measured.map(component => ({
+    ...component,
+    weight: SIGNAL_WEIGHTS[component.signal] / totalWeight
+  }));
+
+  const raw = components.reduce((sum, component) => sum + component.value * component.weight, 0);
+  const score = clamp(raw, MIN_SCORE, MAX_SCORE);
+
+  return { score, components, explanation: explain(score, components) };
+}
+
+function explain(score: number, components: ConfidenceComponent[]): string {
+  const level = score >= 0.75 ? 'High' : score >= 0.5 ? 'Moderate' : 'Low';
+  const weakest = [...components].sort((a, b) => a.value - b.value)[0];
+  const details = components.map(component => component.detail).join('; ');
+
+  let explanation = `${level} confidence (${formatPercent(score)}): ${details}.`;
+  if (weakest && weakest.value < 0.5) {
+    explanation += ` The weakest signal is ${weakest.signal}.`;
+  }
+  return explanation;
+}
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.max(min, Math.min(max, value));
+}
+
+function formatPercent(value: number): string {
+  return `${Math.round(value * 100)}%`;
+}
@@ -0,0 +1,220 @@
+import { documentChunker } from './chunker';
+import { tokenize } from './embeddings';
+
+// Assembles the generation context under a token budget. Sources are taken
+// in score order; each is cut into sentence-aligned passages, the passages
+// most relevant to the query are kept up to a per-document cap, and passages
+// that nearly duplicate one already in the context are dropped.
+
+export interface PackableSource {
+  id: string;
+  title: string;
+  url: string;
+  content: string;
+  score: number;
+}
+
+export interface ContextPackingOptions {
+  // Total tokens available for context documents
+  tokenBudget?: number;
+  // Upper bound for a single document, so one long page cannot crowd out the rest
+  maxTokensPerDocument?: number;
+  // Share of a passage's word shingles found in an earlier passage at which it counts as a duplicate
+  duplicateThreshold?: number;
+}
+
+export interface PackedDocument<T extends PackableSource> {
+  source: T;
+  // Selected passages in document order, joined with an ellipsis where text was skipped
+  content: string;
+  tokens: number;
+}
+
+export interface ContextReport {
+  tokenBudget: number;
+  tokensUsed: number;
+  included: Array<{
+    id: string;
+    title: string;
+    tokens: number;
+    originalTokens: number;
+    trimmed: boolean;
+    duplicatePassages: number;
+  }>;
+  cut: Array<{
+    id: string;
+    title: string;
+    originalTokens: number;
+    reason: 'budget' | 'duplicate';
+  }>;
+}
+
+export interface PackedContext<T extends PackableSource> {
+  documents: PackedDocument<T>[];
+  report: ContextReport;
+}
+
+interface Passage {
+  text: string;
+  start: number;
+  end: number;
+  tokens: number;
+  relevance: number;
+  shingles: Set<string>;
+}
+
+const DEFAULT_OPTIONS: Required<ContextPackingOptions> = {
+  tokenBudget: 3000,
+  maxTokensPerDocument: 800,
+  duplicateThreshold: 0.8
+};
+
+const PASSAGE_SIZE = 60;
+const SHINGLE_SIZE = 3;
+// Documents that would get less room than this are cut rather than squeezed in
+const MIN_DOCUMENT_TOKENS = 40;
+
+// Rough model-token estimate: about 1.3 tokens per word, or 4 characters per token for dense text
+export function estimateTokens(text: string): number {
+  const words = documentChunker.countTokens(text);
+  return Math.ceil(Math.max(words * 1.3, text.length / 4));
+}
+
+export class ContextPacker {
+  pack<T extends PackableSource>(query: string, sources: T[], options: ContextPackingOptions = {}): PackedContext<T> {
+    const config: Required<ContextPackingOptions> = {
+      tokenBudget: options.tokenBudget ?? DEFAULT_OPTIONS.tokenBudget,
+      maxTokensPerDocument: options.maxTokensPerDocument ?? DEFAULT_OPTIONS.maxTokensPerDocument,
+      duplicateThreshold: options.duplicateThreshold ?? DEFAULT_OPTIONS.duplicateThreshold
+    };
+    const queryTerms = new Set(tokenize(query));
+
+    const documents: PackedDocument<T>[] = [];
+    const report: ContextReport = { tokenBudget: config.tokenBudget, tokensUsed: 0, included: [], cut: [] };
+    const seenShingles: Array<Set<string>> = [];
+
+    const ordered = [...sources].sort((a, b) => b.score - a.score);
+
+    for (const source of ordered) {
+      const originalTokens = estimateTokens(source.content);
+      const headerTokens = estimateTokens(`Title: ${source.title}\nURL: ${source.url}`);
+      const room = Math.min(config.maxTokensPerDocument, config.tokenBudget - report.tokensUsed) - headerTokens;
+
+      const passages = this.splitPassages(source, queryTerms);
+      const unique = passages.filter(passage => !this.isDuplicate(passage, seenShingles, config.duplicateThreshold));
+      const duplicatePassages = passages.length - unique.length;
+
+      if (unique.length === 0) {
+        report.cut.push({ id: source.id, title: source.title, originalTokens, reason: 'duplicate' });
+        continue;
+      }
+      if (room < MIN_DOCUMENT_TOKENS) {
+        report.cut.push({ id: source.id, title: source.title, originalTokens, reason: 'budget' });
+        continue;
+      }
+
+      // Most relevant passages first, then back into reading order
+      const selected: Passage[] = [];
+      let used = 0;
+      for (const passage of [...unique].sort((a, b) => b.relevance - a.relevance || a.start - b.start)) {
+        if (used + passage.tokens > room) continue;
+        selected.push(passage);
+        used += passage.tokens;
+      }
+
+      if (selected.length === 0) {
+        report.cut.push({ id: source.id, title: source.title, originalTokens, reason: 'budget' });
+        continue;
+      }
+
+      selected.sort((a, b) => a.start - b.start);
+      selected.forEach(passage => seenShingles.push(passage.shingles));
+
+      const content = this.joinPassages(source.content, selected);
+      const tokens = used + headerTokens;
+      const trimmed = selected.length < passages.length;
+
+      documents.push({ source, content, tokens });
+      report.tokensUsed += tokens;
+      report.included.push({ id: source.id, title: source.title, tokens, originalTokens, trimmed, duplicatePassages });
+    }
+
+    return { documents, report };
+  }
+
+  private splitPassages(source: PackableSource, queryTerms: Set<string>): Passage[] {
+    const chunks = documentChunker.chunk(source.id, source.content, {
+      strategy: 'sentence',
+      chunkSize: PASSAGE_SIZE,
+      chunkOverlap: 0
+    });
+
+    return chunks
+      .filter(chunk => chunk.content.trim().length > 0)
+      .map((chunk, index) => {
+        const tokens = tokenize(chunk.content);
+        const matched = queryTerms.size > 0
+          ? Array.from(queryTerms).filter(term => tokens.includes(term)).length / queryTerms.size
+          : 0;
+
+        return {
+          text: chunk.content,
+          start: chunk.startOffset,
+          end: chunk.endOffset,
+          tokens: estimateTokens(chunk.content),
+          // Slight preference for earlier passages, which usually carry the gist
+          relevance: matched + 0.05 / (index + 1),
+          shingles: this.shingles(tokens)
+        };
+      });
+  }
+
+  private isDuplicate(passage: Passage, seen: Array<Set<string>>, threshold: number): boolean {
+    if (passage.shingles.size === 0) return false;
+
+    return seen.some(other => {
+      if (other.size === 0) return false;
+      let shared = 0;
+      for (const shingle of passage.shingles) {
+        if (other.has(shingle)) shared++;
+      }
+      // Containment rather than Jaccard, so a snippet repeated inside a longer passage is caught
+      return shared / Math.min(passage.shingles.size, other.size) >= threshold;
+    });
+  }
+
+  private joinPassages(content: string, passages: Passage[]): string {
+    let result = '';
+    let previousEnd = 0;
+
+    passages.forEach((passage, index) => {
+      const gap = content.slice(previousEnd, passage.start);
+      if (index === 0) {
+        result += passage.start > 0 ? '... ' : '';
+      } else {
+        result += gap.trim().length > 0 ? ' ... ' : gap;
+      }
+      result += passage.text;
+      previousEnd = passage.end;
+    });
+
+    if (content.slice(previousEnd).trim().length > 0) {
+      result += ' ...';
+    }
+    return result;
+  }
+
+  private shingles(tokens: string[]): Set<string> {
+    const shingles = new Set<string>();
+    if (tokens.length < SHINGLE_SIZE) {
+      if (tokens.length > 0) shingles.add(tokens.join(' '));
+      return shingles;
+    }
+    for (let i = 0; i + SHINGLE_SIZE <= tokens.length; i++) {
+      shingles.add(tokens.slice(i, i + SHINGLE_SIZE).join(' '));
+    }
+    return shingles;
+  }
+}
+
+export const contextPacker = new ContextPacker();
@@ -0,0 +1,205 @@
+import { ragPipeline } from './rag-pipeline';
+import { ChunkingOptions, ChunkingStrategy } from './chunker';
+import { DocumentFormat, parseDocument } from './document-parser';
+import { Collection, collectionManager } from './collections';
+import {
+  DuplicateEntry,
+  DuplicatePolicy,
+  getDuplicatePolicyFromEnv,
+  nearDuplicateDetector,
+  validateDuplicatePolicy
+} from './near-duplicates';
+
+// Ingestion of user-supplied documents into the knowledge base, shared by
+// the /api/documents routes.
+
+export interface DocumentInput {
+  id?: string;
+  // Target collection; the default collection when omitted
+  collection?: string;
+  title?: string;
+  url?: string;
+  content: string;
+  format?: DocumentFormat;
+  metadata?: Record<string, any>;
+  chunking?: ChunkingOptions;
+  // Near-duplicate handling; defaults come from NEAR_DUPLICATE_MODE and NEAR_DUPLICATE_THRESHOLD
+  duplicates?: DuplicatePolicy;
+}
+
+export interface IngestionResult {
+  id: string;
+  // 'duplicate' and 'merged' documents were not stored (see near-duplicates.ts)
+  status: 'ingested' | 'duplicate' | 'merged' | 'failed';
+  format?: DocumentFormat;
+  chunk_count: number;
+  content_length?: number;
+  // Original document of a near-duplicate and their estimated similarity
+  duplicate_of?: string;
+  similarity?: number;
+  error?: string;
+}
+
+const FORMATS = ['text', 'markdown', 'html'];
+const CHUNKING_STRATEGIES = ['token-window', 'sentence', 'markdown'];
+const DEFAULT_DUPLICATE_POLICY = getDuplicatePolicyFromEnv();
+export const MAX_DOCUMENT_LENGTH = 2_000_000;
+
+// Returns an error message, or null when the input is acceptable
+export function validateDocumentInput(input: any): string | null {
+  if (!input || typeof input !== 'object') {
+    return 'Document must be an object';
+  }
+  if (typeof input.content !== 'string' || input.content.trim().length === 0) {
+    return 'Document content is required';
+  }
+  if (input.content.length > MAX_DOCUMENT_LENGTH) {
+    return `Document content exceeds ${MAX_DOCUMENT_LENGTH} characters`;
+  }
+  if (input.id !== undefined && (typeof input.id !== 'string' || !/^[\w.:-]{1,128}$/.test(input.id))) {
+    return 'Document id may only contain letters, digits, "_", "-", ".", ":" (max 128 characters)';
+  }
+  if (input.format !== undefined && !FORMATS.includes(input.format)) {
+    return `Unsupported format "${input.format}"; expected one of ${FORMATS.join(', ')}`;
+  }
+  if (input.metadata !== undefined && (typeof input.metadata !== 'object' || Array.isArray(input.metadata))) {
+    return 'Document metadata must be an object';
+  }
+  if (input.collection !== undefined && typeof input.collection !== 'string') {
+    return 'Document collection must be a string';
+  }
+  if (input.chunking?.strategy !== undefined && !CHUNKING_STRATEGIES.includes(input.chunking.strategy)) {
+    return `Unsupported chunking strategy "${input.chunking.strategy}"`;
+  }
+  if (input.duplicates !== undefined) {
+    return validateDuplicatePolicy(input.duplicates);
+  }
+  return null;
+}
+
+export function generateDocumentId(): string {
+  return `doc_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+}
+
+// `reparse: false` re-embeds already-stored content without converting it again.
+// New documents are checked for near-duplicates first; updates are not.
+export async function ingestDocument(
+  input: DocumentInput,
+  previousMetadata: Record<string, any> = {},
+  options: { reparse?: boolean } = {}
+): Promise<IngestionResult> {
+  const id = input.id || generateDocumentId();
+
+  try {
+    const parsed = options.reparse === false
+      ? { content: input.content, format: (previousMetadata.format || 'text') as DocumentFormat, title: undefined }
+      : parseDocument(input.content, input.format);
+    const strategy: ChunkingStrategy = parsed.format === 'text' ? 'sentence' : 'markdown';
+    const now = new Date().toISOString();
+    const collection = await collectionManager.get(input.collection);
+    const metadata: Record<string, any> = {
+      ...previousMetadata,
+      ...input.metadata,
+      title: input.title || input.metadata?.title || parsed.title || previousMetadata.title || 'Untitled',
+      url: input.url ?? input.metadata?.url ?? previousMetadata.url ?? '',
+      source_type: input.metadata?.source_type || previousMetadata.source_type || 'document',
+      format: parsed.format,
+      created_at: previousMetadata.created_at || now,
+      updated_at: now
+    };
+
+    const policy = { ...DEFAULT_DUPLICATE_POLICY, ...input.duplicates };
+    const isUpdate = !!previousMetadata.created_at;
+    const match = policy.mode !== 'off' && !isUpdate
+      ? await nearDuplicateDetector.findDuplicate(collection, parsed.content, policy.threshold, id)
+      : undefined;
+    let duplicate: { canonicalId: string; entry: DuplicateEntry } | undefined;
+
+    if (match) {
+      const original = await collection.store.getParentDocument(match.id);
+      // Duplicates of a kept duplicate join the cluster of its original
+      const canonicalId = original?.metadata.duplicate_of && await collection.store.getParentDocument(original.metadata.duplicate_of)
+        ? original.metadata.duplicate_of as string
+        : match.id;
+      duplicate = {
+        canonicalId,
+        entry: {
+          id,
+          title: metadata.title,
+          url: metadata.url,
+          similarity: match.similarity,
+          merged: policy.mode === 'merge',
+          detected_at: now
+        }
+      };
+
+      if (policy.mode === 'skip' || policy.mode === 'merge') {
+        if (policy.mode === 'merge') {
+          await recordDuplicate(collection, canonicalId, duplicate.entry);
+        }
+        return {
+          id,
+          status: policy.mode === 'skip' ? 'duplicate' : 'merged',
+          format: parsed.format,
+          chunk_count: 0,
+          content_length: parsed.content.length,
+          duplicate_of: canonicalId,
+          similarity: match.similarity
+        };
+      }
+
+      metadata.duplicate_of = canonicalId;
+      metadata.duplicate_similarity = match.similarity;
+    }
+
+    const { chunkCount } = await ragPipeline.addDocumentToStore(
+      { id, content: parsed.content, metadata },
+      { strategy, ...input.chunking },
+      input.collection
+    );
+
+    if (duplicate) {
+      await recordDuplicate(collection, duplicate.canonicalId, duplicate.entry);
+    }
+
+    return {
+      id,
+      status: 'ingested',
+      format: parsed.format,
+      chunk_count: chunkCount,
+      content_length: parsed.content.length,
+      ...(duplicate ? { duplicate_of: duplicate.canonicalId, similarity: duplicate.entry.similarity } : {})
+    };
+  } catch (error) {
+    console.error(`Failed to ingest document ${id}:`, error);
+    return {
+      id,
+      status: 'failed',
+      chunk_count: 0,
+      error: error instanceof Error ? error.message : String(error)
+    };
+  }
+}
+
+// Adds a cluster member to the original document's `duplicates` metadata
+async function recordDuplicate(collection: Collection, canonicalId: string, entry: DuplicateEntry): Promise<void> {
+  const canonical = await collection.store.getParentDocument(canonicalId);
+  if (!canonical) return;
+
+  const duplicates: DuplicateEntry[] = (canonical.metadata.duplicates || []).filter((member: DuplicateEntry) => member.id !== entry.id);
+  await collection.store.updateDocumentMetadata(canonicalId, { ...canonical.metadata, duplicates: [...duplicates, entry] });
+}
+
+// Removes a deleted document from its original's cluster
+export async function forgetDuplicate(collection: Collection, id: string, metadata: Record<string, any>): Promise<void> {
+  await nearDuplicateDetector.forget(collection, id);
+  if (!metadata.duplicate_of) return;
+
+  const canonical = await collection.store.getParentDocument(metadata.duplicate_of);
+  if (!canonical || !Array.isArray(canonical.metadata.duplicates)) return;
+
+  await collection.store.updateDocumentMetadata(canonical.id, {
+    ...canonical.metadata,
+    duplicates: canonical.metadata.duplicates.filter((member: DuplicateEntry) => member.id !== id)
+  });
+}
@@ -0,0 +1,90 @@
+// Converts uploaded knowledge-base content into plain text or Markdown for chunking.
+
+export type DocumentFormat = 'text' | 'markdown' | 'html';
+
+export interface ParsedDocument {
+  content: string;
+  title?: string;
+  format: DocumentFormat;
+}
+
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+  nbsp: ' ',
+  ndash: '–',
+  mdash: '—',
+  hellip: '…',
+  copy: '©',
+  reg: '®'
+};
+
+export function decodeHtmlEntities(text: string): string {
+  return text.replace(/&(#x?[0-9a-f]+|[a-z]+);/gi, (match, entity: string) => {
+    if (entity[0] === '#') {
+      const codePoint = entity[1].toLowerCase() === 'x'
+        ? parseInt(entity.slice(2), 16)
+        : parseInt(entity.slice(1), 10);
+      return Number.isFinite(codePoint) && codePoint > 0 && codePoint <= 0x10ffff
+        ? String.fromCodePoint(codePoint)
+        : match;
+    }
+    return NAMED_ENTITIES[entity.toLowerCase()] ?? match;
+  });
+}
+
+// Turns HTML into Markdown-ish text: headings become "#" lines so the
+// Markdown chunker can split on them, other block elements become paragraphs
+export function htmlToText(html: string): { content: string; title?: string } {
+  const titleMatch = html.match(/<title[^>]*>([\s\S]*?)<\/title>/i);
+  const title = titleMatch ? decodeHtmlEntities(titleMatch[1]).replace(/\s+/g, ' ').trim() : undefined;
+
+  const content = html
+    .replace(/<!--[\s\S]*?-->/g, '')
+    .replace(/<(script|style|noscript|template|svg|head)\b[^>]*>[\s\S]*?<\/\1>/gi, '')
+    .replace(/<h([1-6])\b[^>]*>([\s\S]*?)<\/h\1>/gi, (_, level: string, inner: string) =>
+      `\n\n${'#'.repeat(Number(level))} ${inner.replace(/<[^>]+>/g, '').replace(/\s+/g, ' ').trim()}\n\n`
+    )
+    .replace(/<li\b[^>]*>/gi, '\n- ')
+    .replace(/<br\s*\/?>/gi, '\n')
+    .replace(/<\/?(p|div|section|article|main|header|footer|aside|nav|ul|ol|table|tr|blockquote|pre|figure|dl|dt|dd)\b[^>]*>/gi, '\n\n')
+    .replace(/<\/?(td|th)\b[^>]*>/gi, ' ')
+    .replace(/<[^>]+>/g, '')
+    .split('\n')
+    .map(line => decodeHtmlEntities(line).replace(/[ \t\f\v]+/g, ' ').trim())
+    .join('\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+
+  return { content, title };
+}
+
+function markdownTitle(markdown: string): string | undefined {
+  const match = markdown.match(/^#[ \t]+(.+?)[ \t#]*$/m);
+  return match ? match[1].trim() : undefined;
+}
+
+export function detectFormat(content: string, hint?: string): DocumentFormat {
+  if (hint === 'text' || hint === 'markdown' || hint === 'html') return hint;
+  if (/^\s*(<!doctype html|<html\b)|<\/(p|div|body)>/i.test(content)) return 'html';
+  if (/^#{1,6}[ \t]+\S/m.test(content) || /^```/m.test(content)) return 'markdown';
+  return 'text';
+}
+
+export function parseDocument(content: string, format?: string): ParsedDocument {
+  const detected = detectFormat(content, format);
+
+  switch (detected) {
+    case 'html': {
+      const { content: text, title } = htmlToText(content);
+      return { content: text, title, format: 'html' };
+    }
+    case 'markdown':
+      return { content, title: markdownTitle(content), format: 'markdown' };
+    default:
+      return { content, format: 'text' };
+  }
+}
@@ -0,0 +1,283 @@
+import { ZAIConnection, loadZAIConnection } from './zai-client';
+
+// Embedding providers used by the vector store, RAG pipeline and search agent.
+// The active provider is chosen from environment configuration:
+//   EMBEDDING_PROVIDER   local | zai | openai (default: local)
+//   EMBEDDING_MODEL      model name sent to remote providers
+//   EMBEDDING_DIMENSION  vector size (must match what the model returns)
+//   EMBEDDING_BASE_URL   base URL of an OpenAI-compatible API
+//   EMBEDDING_API_KEY    API key for the OpenAI-compatible API (falls back to OPENAI_API_KEY)
+export interface EmbeddingProvider {
+  readonly id: string;
+  readonly dimension: number;
+  generateEmbedding(text: string): Promise<number[]>;
+  generateEmbeddings(texts: string[]): Promise<number[][]>;
+}
+
+export type EmbeddingProviderType = 'local' | 'zai' | 'openai';
+
+export const EMBEDDING_PROVIDER_TYPES: EmbeddingProviderType[] = ['local', 'zai', 'openai'];
+
+export interface EmbeddingProviderConfig {
+  type: EmbeddingProviderType;
+  model?: string;
+  dimension?: number;
+  baseUrl?: string;
+  apiKey?: string;
+}
+
+const STOP_WORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'but', 'by', 'for', 'from', 'has', 'have',
+  'how', 'i', 'if', 'in', 'into', 'is', 'it', 'its', 'of', 'on', 'or', 'so', 'than',
+  'that', 'the', 'their', 'then', 'there', 'these', 'this', 'to', 'was', 'were', 'what',
+  'when', 'where', 'which', 'who', 'why', 'will', 'with', 'you', 'your'
+]);
+
+// Lowercases, splits on non-alphanumerics, drops stop words and strips common suffixes
+export function tokenize(text: string): string[] {
+  return text
+    .toLowerCase()
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter(token => token.length > 1 && !STOP_WORDS.has(token))
+    .map(stem);
+}
+
+function stem(token: string): string {
+  if (token.length <= 4) return token;
+  for (const suffix of ['ational', 'ization', 'ations', 'ation', 'ness', 'ment', 'ing', 'ies', 'ied', 'ed', 'ly', 'es', 's']) {
+    if (token.endsWith(suffix) && token.length - suffix.length >= 3) {
+      const base = token.slice(0, -suffix.length);
+      return suffix === 'ies' || suffix === 'ied' ? `${base}y` : base;
+    }
+  }
+  return token;
+}
+
+// 32-bit FNV-1a hash
+function hashString(value: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+function l2Normalize(vector: number[]): number[] {
+  const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+  return norm === 0 ? vector : vector.map(value => value / norm);
+}
+
+/**
+ * Offline embeddings using the hashing trick: word unigrams, bigrams and
+ * character trigrams are hashed into a fixed-size signed feature vector with
+ * sublinear term frequency. Texts sharing vocabulary land close together, so
+ * near-identical sentences get near-identical vectors without any model download.
+ */
+export class HashingEmbeddingProvider implements EmbeddingProvider {
+  readonly id: string;
+  readonly dimension: number;
+
+  constructor(dimension: number = 768) {
+    this.dimension = dimension;
+    this.id = `local-hashing-${dimension}`;
+  }
+
+  async generateEmbedding(text: string): Promise<number[]> {
+    const features = new Map<string, number>();
+    const addFeature = (feature: string, weight: number) => {
+      features.set(feature, (features.get(feature) || 0) + weight);
+    };
+
+    const tokens = tokenize(text);
+    tokens.forEach((token, index) => {
+      addFeature(`w:${token}`, 1);
+      if (index > 0) {
+        addFeature(`b:${tokens[index - 1]}_${token}`, 0.5);
+      }
+      const padded = `#${token}#`;
+      for (let i = 0; i + 3 <= padded.length; i++) {
+        addFeature(`c:${padded.slice(i, i + 3)}`, 0.25);
+      }
+    });
+
+    const embedding = new Array<number>(this.dimension).fill(0);
+    for (const [feature, count] of features) {
+      const hash = hashString(feature);
+      const sign = (hash & 0x80000000) === 0 ? 1 : -1;
+      embedding[hash % this.dimension] += sign * (1 + Math.log(1 + count));
+    }
+
+    return l2Normalize(embedding);
+  }
+
+  async generateEmbeddings(texts: string[]): Promise<number[][]> {
+    return Promise.all(texts.map(text => this.generateEmbedding(text)));
+  }
+}
+
+// A request that gets no response within this time fails instead of stalling ingestion
+const EMBEDDING_TIMEOUT_MS = 30000;
+
+/**
+ * Embeddings from any API implementing the OpenAI `POST /embeddings` contract.
+ */
+export class OpenAICompatibleEmbeddingProvider implements EmbeddingProvider {
+  readonly id: string;
+  readonly dimension: number;
+  protected model: string;
+  private baseUrl: string;
+  private apiKey: string;
+  private batchSize: number = 64;
+  // Only set when the dimension was configured: models without shortening
+  // support reject the dimensions parameter
+  private requestedDimension?: number;
+
+  constructor(options: {
+    model: string;
+    dimension: number;
+    baseUrl: string;
+    apiKey: string;
+    id?: string;
+    requestDimension?: boolean;
+  }) {
+    this.model = options.model;
+    this.dimension = options.dimension;
+    this.requestedDimension = options.requestDimension ? options.dimension : undefined;
+    this.baseUrl = options.baseUrl.replace(/\/+$/, '');
+    this.apiKey = options.apiKey;
+    this.id = options.id || `openai:${options.model}`;
+  }
+
+  protected async resolveConnection(): Promise<ZAIConnection> {
+    return {
+      baseUrl: this.baseUrl,
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${this.apiKey}`
+      }
+    };
+  }
+
+  async generateEmbedding(text: string): Promise<number[]> {
+    const [embedding] = await this.generateEmbeddings([text]);
+    return embedding;
+  }
+
+  async generateEmbeddings(texts: string[]): Promise<number[][]> {
+    const embeddings: number[][] = [];
+    for (let i = 0; i < texts.length; i += this.batchSize) {
+      embeddings.push(...await this.requestEmbeddings(texts.slice(i, i + this.batchSize)));
+    }
+    return embeddings;
+  }
+
+  private async requestEmbeddings(input: string[]): Promise<number[][]> {
+    const { baseUrl, headers } = await this.resolveConnection();
+    const response = await fetch(`${baseUrl}/embeddings`, {
+      method: 'POST',
+      headers,
+      body: JSON.stringify({ model: this.model, input, dimensions: this.requestedDimension }),
+      signal: AbortSignal.timeout(EMBEDDING_TIMEOUT_MS)
+    });
+
+    if (!response.ok) {
+      const errorBody = await response.text();
+      throw new Error(`Embedding request failed with status ${response.status}: ${errorBody}`);
+    }
+
+    const result = await response.json();
+    if (!Array.isArray(result?.data)) {
+      throw new Error('Invalid embedding response format');
+    }
+
+    const embeddings = [...result.data]
+      .sort((a: any, b: any) => (a.index ?? 0) - (b.index ?? 0))
+      .map((item: any) => item.embedding as number[]);
+
+    for (const embedding of embeddings) {
+      if (!Array.isArray(embedding) || embedding.length !== this.dimension) {
+        throw new Error(
+          `Embedding model ${this.model} returned dimension ${embedding?.length}, expected ${this.dimension}`
+        );
+      }
+    }
+
+    return embeddings;
+  }
+}
+
+/**
+ * Embeddings through the Z.ai API, using the same .z-ai-config file as z-ai-web-dev-sdk.
+ */
+export class ZAIEmbeddingProvider extends OpenAICompatibleEmbeddingProvider {
+  constructor(options: { model?: string; dimension?: number } = {}) {
+    const model = options.model || 'embedding-3';
+    super({
+      model,
+      dimension: options.dimension || 2048,
+      baseUrl: '',
+      apiKey: '',
+      id: `zai:${model}`,
+      requestDimension: options.dimension !== undefined
+    });
+  }
+
+  protected async resolveConnection(): Promise<ZAIConnection> {
+    return loadZAIConnection();
+  }
+}
+
+export const DEFAULT_OPENAI_BASE_URL = 'https://api.openai.com/v1';
+
+export function createEmbeddingProvider(config: EmbeddingProviderConfig): EmbeddingProvider {
+  switch (config.type) {
+    case 'local':
+      return new HashingEmbeddingProvider(config.dimension);
+    case 'zai':
+      return new ZAIEmbeddingProvider({ model: config.model, dimension: config.dimension });
+    case 'openai':
+      if (!config.apiKey) {
+        throw new Error('An API key is required for the openai embedding provider');
+      }
+      return new OpenAICompatibleEmbeddingProvider({
+        model: config.model || 'text-embedding-3-small',
+        dimension: config.dimension || 1536,
+        baseUrl: config.baseUrl || DEFAULT_OPENAI_BASE_URL,
+        apiKey: config.apiKey,
+        requestDimension: config.dimension !== undefined
+      });
+    default:
+      throw new Error(`Unknown embedding provider: ${config.type}`);
+  }
+}
+
+export function getEmbeddingConfigFromEnv(): EmbeddingProviderConfig {
+  const type = (process.env.EMBEDDING_PROVIDER || 'local') as EmbeddingProviderType;
+  if (!EMBEDDING_PROVIDER_TYPES.includes(type)) {
+    throw new Error(`EMBEDDING_PROVIDER must be one of ${EMBEDDING_PROVIDER_TYPES.join(', ')}, got "${type}"`);
+  }
+
+  const dimension = process.env.EMBEDDING_DIMENSION ? Number(process.env.EMBEDDING_DIMENSION) : undefined;
+  if (dimension !== undefined && (!Number.isInteger(dimension) || dimension < 1)) {
+    throw new Error(`EMBEDDING_DIMENSION must be a positive integer, got "${process.env.EMBEDDING_DIMENSION}"`);
+  }
+
+  return {
+    type,
+    model: process.env.EMBEDDING_MODEL,
+    dimension,
+    baseUrl: process.env.EMBEDDING_BASE_URL,
+    apiKey: process.env.EMBEDDING_API_KEY || process.env.OPENAI_API_KEY
+  };
+}
+
+let defaultProvider: EmbeddingProvider | null = null;
+
+// Provider configured through the environment, created once per process
+export function getEmbeddingProvider(): EmbeddingProvider {
+  if (!defaultProvider) {
+    defaultProvider = createEmbeddingProvider(getEmbeddingConfigFromEnv());
+  }
+  return defaultProvider;
+}
@@ -0,0 +1,94 @@
+import { describe, expect, it } from 'vitest';
+import { HNSWIndex } from './hnsw-index';
+
+// Deterministic vectors, so a failing recall check can be reproduced
+function randomVectors(count: number, dimension: number, seed: number): number[][] {
+  let state = seed;
+  const next = () => {
+    state = (state * 1664525 + 1013904223) >>> 0;
+    return state / 2 ** 32 - 0.5;
+  };
+  return Array.from({ length: count }, () => Array.from({ length: dimension }, next));
+}
+
+function cosine(a: number[], b: number[]): number {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return dot / Math.sqrt(normA * normB);
+}
+
+function exactTopK(vectors: number[][], query: number[], k: number): string[] {
+  return vectors
+    .map((vector, index) => ({ id: `v${index}`, score: cosine(vector, query) }))
+    .sort((a, b) => b.score - a.score)
+    .slice(0, k)
+    .map(result => result.id);
+}
+
+describe('HNSWIndex', () => {
+  const vectors = randomVectors(600, 16, 42);
+  const queries = randomVectors(30, 16, 7);
+
+  function buildIndex(): HNSWIndex {
+    const index = new HNSWIndex({ m: 12, efConstruction: 100 });
+    vectors.forEach((vector, i) => index.add(`v${i}`, vector));
+    return index;
+  }
+
+  it('finds most of the exact top 10 neighbours', () => {
+    const index = buildIndex();
+    let found = 0;
+    for (const query of queries) {
+      const expected = new Set(exactTopK(vectors, query, 10));
+      found += index.search(query, 10, 100).filter(result => expected.has(result.id)).length;
+    }
+    expect(found / (queries.length * 10)).toBeGreaterThan(0.9);
+  });
+
+  it('returns cosine similarities in descending order', () => {
+    const index = buildIndex();
+    const results = index.search(queries[0], 5, 100);
+    expect(results).toHaveLength(5);
+    results.forEach(result => {
+      const vector = vectors[Number(result.id.slice(1))];
+      expect(result.score).toBeCloseTo(cosine(vector, queries[0]), 4);
+    });
+    for (let i = 1; i < results.length; i++) {
+      expect(results[i - 1].score).toBeGreaterThanOrEqual(results[i].score);
+    }
+  });
+
+  it('stops returning removed vectors and keeps the rest reachable', () => {
+    const index = buildIndex();
+    const removed = exactTopK(vectors, queries[0], 5);
+    removed.forEach(id => expect(index.remove(id)).toBe(true));
+
+    expect(index.size).toBe(vectors.length - removed.length);
+    const ids = index.search(queries[0], 10, 100).map(result => result.id);
+    expect(ids).toHaveLength(10);
+    expect(ids.some(id => removed.includes(id))).toBe(false);
+  });
+
+  it('applies the accept filter during the search', () => {
+    const index = buildIndex();
+    const results = index.search(queries[1], 5, 100, id => Number(id.slice(1)) % 2 === 0);
+    expect(results).toHaveLength(5);
+    expect(results.every(result => Number(result.id.slice(1)) % 2 === 0)).toBe(true);
+  });
+
+  it('replaces the vector of an id that is added again', () => {
+    const index = new HNSWIndex();
+    index.add('a', [1, 0]);
+    index.add('b', [0, 1]);
+    index.add('a', [0, -1]);
+
+    expect(index.size).toBe(2);
+    expect(index.search([0, -1], 1)[0]).toEqual({ id: 'a', score: expect.closeTo(1, 5) });
+  });
+});
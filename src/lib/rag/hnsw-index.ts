@@ -0,0 +1,341 @@
+// Hierarchical Navigable Small World (HNSW) graph for approximate
+// nearest-neighbour search over cosine similarity.
+// See Malkov & Yashunin, "Efficient and robust approximate nearest neighbor
+// search using Hierarchical Navigable Small World graphs" (2016).
+// Vectors are kept in a VectorSet (see quantization.ts), which the owning
+// vector store can share for exact scans.
+
+import { Float32VectorSet, VectorScorer, VectorSet } from './quantization';
+
+export interface HNSWOptions {
+  // Max neighbours per node on upper layers (layer 0 keeps 2 * m)
+  m?: number;
+  // Candidate list size while inserting - higher means better graph, slower writes
+  efConstruction?: number;
+  // Candidate list size while searching - higher means better recall, slower queries
+  efSearch?: number;
+}
+
+interface HNSWNode {
+  id: string;
+  level: number;
+  neighbors: Set<string>[];
+}
+
+// Approximate V8 cost of a node object with its neighbour sets, and of one set entry
+const NODE_BYTES = 120;
+const LINK_BYTES = 24;
+
+interface Candidate {
+  id: string;
+  distance: number;
+}
+
+// Minimal binary heap used for the candidate and result queues
+class BinaryHeap<T> {
+  private items: T[] = [];
+
+  constructor(private compare: (a: T, b: T) => number) {}
+
+  get size(): number {
+    return this.items.length;
+  }
+
+  peek(): T | undefined {
+    return this.items[0];
+  }
+
+  push(item: T): void {
+    this.items.push(item);
+    let i = this.items.length - 1;
+    while (i > 0) {
+      const parent = (i - 1) >> 1;
+      if (this.compare(this.items[i], this.items[parent]) >= 0) break;
+      [this.items[i], this.items[parent]] = [this.items[parent], this.items[i]];
+      i = parent;
+    }
+  }
+
+  pop(): T | undefined {
+    if (this.items.length === 0) return undefined;
+    const top = this.items[0];
+    const last = this.items.pop()!;
+    if (this.items.length > 0) {
+      this.items[0] = last;
+      let i = 0;
+      while (true) {
+        const left = 2 * i + 1;
+        const right = left + 1;
+        let smallest = i;
+        if (left < this.items.length && this.compare(this.items[left], this.items[smallest]) < 0) smallest = left;
+        if (right < this.items.length && this.compare(this.items[right], this.items[smallest]) < 0) smallest = right;
+        if (smallest === i) break;
+        [this.items[i], this.items[smallest]] = [this.items[smallest], this.items[i]];
+        i = smallest;
+      }
+    }
+    return top;
+  }
+
+  toArray(): T[] {
+    return [...this.items];
+  }
+}
+
+export class HNSWIndex {
+  private nodes: Map<string, HNSWNode> = new Map();
+  private vectors: VectorSet | null;
+  private entryPoint: string | null = null;
+  private maxLevel: number = -1;
+  private m: number;
+  private mMax0: number;
+  private efConstruction: number;
+  private efSearch: number;
+  private levelMultiplier: number;
+
+  constructor(options: HNSWOptions = {}, vectors?: VectorSet) {
+    this.vectors = vectors ?? null;
+    this.m = options.m ?? 16;
+    this.mMax0 = this.m * 2;
+    this.efConstruction = options.efConstruction ?? 200;
+    this.efSearch = options.efSearch ?? 50;
+    this.levelMultiplier = 1 / Math.log(this.m);
+  }
+
+  get size(): number {
+    return this.nodes.size;
+  }
+
+  has(id: string): boolean {
+    return this.nodes.has(id);
+  }
+
+  getParams(): Required<HNSWOptions> {
+    return { m: this.m, efConstruction: this.efConstruction, efSearch: this.efSearch };
+  }
+
+  // Rough size of the graph structure; vectors are counted by their VectorSet
+  memoryBytes(): number {
+    let links = 0;
+    for (const node of this.nodes.values()) {
+      for (const neighbors of node.neighbors) links += neighbors.size;
+    }
+    return this.nodes.size * NODE_BYTES + links * LINK_BYTES;
+  }
+
+  setEfSearch(efSearch: number): void {
+    this.efSearch = Math.max(1, Math.floor(efSearch));
+  }
+
+  add(id: string, vector: ArrayLike<number>): void {
+    if (this.nodes.has(id)) {
+      this.remove(id);
+    }
+
+    if (!this.vectors) {
+      this.vectors = new Float32VectorSet(vector.length);
+    }
+    this.vectors.add(id, vector);
+    const score = this.vectors.scorer(vector);
+
+    const level = this.randomLevel();
+    const node: HNSWNode = {
+      id,
+      level,
+      neighbors: Array.from({ length: level + 1 }, () => new Set<string>())
+    };
+    this.nodes.set(id, node);
+
+    if (this.entryPoint === null) {
+      this.entryPoint = id;
+      this.maxLevel = level;
+      return;
+    }
+
+    // Greedy descent through the layers above the new node's level
+    let current = this.entryPoint;
+    for (let layer = this.maxLevel; layer > level; layer--) {
+      current = this.greedyClosest(score, current, layer);
+    }
+
+    let entryPoints = [current];
+    for (let layer = Math.min(level, this.maxLevel); layer >= 0; layer--) {
+      const candidates = this.searchLayer(score, entryPoints, this.efConstruction, layer);
+      const selected = this.selectNeighbors(candidates, this.m);
+
+      for (const neighbor of selected) {
+        node.neighbors[layer].add(neighbor.id);
+        const neighborNode = this.nodes.get(neighbor.id)!;
+        neighborNode.neighbors[layer].add(id);
+        this.pruneNeighbors(neighborNode, layer);
+      }
+
+      entryPoints = candidates.map(candidate => candidate.id);
+    }
+
+    if (level > this.maxLevel) {
+      this.maxLevel = level;
+      this.entryPoint = id;
+    }
+  }
+
+  remove(id: string): boolean {
+    const node = this.nodes.get(id);
+    if (!node) return false;
+
+    this.nodes.delete(id);
+    this.vectors?.remove(id);
+
+    // Unlink the node and reconnect its former neighbours to each other
+    for (let layer = 0; layer <= node.level; layer++) {
+      const orphans = Array.from(node.neighbors[layer]);
+      for (const neighborId of orphans) {
+        const neighbor = this.nodes.get(neighborId);
+        if (!neighbor) continue;
+        neighbor.neighbors[layer].delete(id);
+
+        for (const candidateId of orphans) {
+          if (candidateId === neighborId) continue;
+          neighbor.neighbors[layer].add(candidateId);
+        }
+        this.pruneNeighbors(neighbor, layer);
+      }
+    }
+
+    if (this.entryPoint === id) {
+      this.entryPoint = null;
+      this.maxLevel = -1;
+      for (const candidate of this.nodes.values()) {
+        if (candidate.level > this.maxLevel) {
+          this.maxLevel = candidate.level;
+          this.entryPoint = candidate.id;
+        }
+      }
+    }
+
+    return true;
+  }
+
+  clear(): void {
+    this.nodes.clear();
+    this.vectors?.clear();
+    this.entryPoint = null;
+    this.maxLevel = -1;
+  }
+
+  // `accept` restricts results to matching ids while still traversing through
+  // non-matching nodes, so filters are applied during the search
+  search(
+    query: ArrayLike<number>,
+    k: number,
+    ef?: number,
+    accept?: (id: string) => boolean
+  ): Array<{ id: string; score: number }> {
+    if (this.entryPoint === null || !this.vectors || k <= 0) return [];
+
+    const score = this.vectors.scorer(query);
+    let current = this.entryPoint;
+    for (let layer = this.maxLevel; layer > 0; layer--) {
+      current = this.greedyClosest(score, current, layer);
+    }
+
+    const candidates = this.searchLayer(score, [current], Math.max(ef ?? this.efSearch, k), 0, accept);
+    return candidates
+      .slice(0, k)
+      .map(candidate => ({ id: candidate.id, score: 1 - candidate.distance }));
+  }
+
+  private greedyClosest(score: VectorScorer, startId: string, layer: number): string {
+    let current = startId;
+    let currentDistance = 1 - score(current);
+    let improved = true;
+
+    while (improved) {
+      improved = false;
+      for (const neighborId of this.nodes.get(current)!.neighbors[layer] ?? []) {
+        const neighbor = this.nodes.get(neighborId);
+        if (!neighbor) continue;
+        const distance = 1 - score(neighborId);
+        if (distance < currentDistance) {
+          currentDistance = distance;
+          current = neighborId;
+          improved = true;
+        }
+      }
+    }
+
+    return current;
+  }
+
+  // Returns up to ef closest nodes on the given layer, nearest first
+  private searchLayer(
+    score: VectorScorer,
+    entryIds: string[],
+    ef: number,
+    layer: number,
+    accept?: (id: string) => boolean
+  ): Candidate[] {
+    const visited = new Set<string>(entryIds);
+    const candidates = new BinaryHeap<Candidate>((a, b) => a.distance - b.distance);
+    const results = new BinaryHeap<Candidate>((a, b) => b.distance - a.distance);
+
+    for (const id of entryIds) {
+      const node = this.nodes.get(id);
+      if (!node) continue;
+      const candidate = { id, distance: 1 - score(id) };
+      candidates.push(candidate);
+      if (!accept || accept(id)) {
+        results.push(candidate);
+      }
+    }
+
+    while (candidates.size > 0) {
+      const closest = candidates.pop()!;
+      const furthest = results.peek();
+      if (furthest && closest.distance > furthest.distance && results.size >= ef) break;
+
+      const node = this.nodes.get(closest.id);
+      if (!node || !node.neighbors[layer]) continue;
+
+      for (const neighborId of node.neighbors[layer]) {
+        if (visited.has(neighborId)) continue;
+        visited.add(neighborId);
+
+        const neighbor = this.nodes.get(neighborId);
+        if (!neighbor) continue;
+
+        const distance = 1 - score(neighborId);
+        if (results.size < ef || distance < results.peek()!.distance) {
+          candidates.push({ id: neighborId, distance });
+          if (!accept || accept(neighborId)) {
+            results.push({ id: neighborId, distance });
+            if (results.size > ef) results.pop();
+          }
+        }
+      }
+    }
+
+    return results.toArray().sort((a, b) => a.distance - b.distance);
+  }
+
+  private selectNeighbors(candidates: Candidate[], count: number): Candidate[] {
+    return [...candidates].sort((a, b) => a.distance - b.distance).slice(0, count);
+  }
+
+  private pruneNeighbors(node: HNSWNode, layer: number): void {
+    const maxConnections = layer === 0 ? this.mMax0 : this.m;
+    if (node.neighbors[layer].size <= maxConnections) return;
+
+    const ranked = Array.from(node.neighbors[layer])
+      .filter(id => this.nodes.has(id))
+      .map(id => ({ id, distance: 1 - this.vectors!.similarity(node.id, id) }));
+
+    node.neighbors[layer] = new Set(
+      this.selectNeighbors(ranked, maxConnections).map(candidate => candidate.id)
+    );
+  }
+
+  private randomLevel(): number {
+    return Math.floor(-Math.log(Math.random() || Number.MIN_VALUE) * this.levelMultiplier);
+  }
+}
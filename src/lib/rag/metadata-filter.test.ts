@@ -0,0 +1,111 @@
+import { describe, expect, it } from 'vitest';
+import {
+  FilterValidationError,
+  SearchRequestFilters,
+  compileFilter,
+  matchesFilter,
+  translateSearchFilters,
+  validateFilter
+} from './metadata-filter';
+
+const doc = {
+  source_type: 'web',
+  tags: ['rust', 'async'],
+  score: 7,
+  published_date: '2024-01-31T18:30:00Z',
+  url: 'https://docs.example.com/guide',
+  metadata: { author: 'Ada' }
+};
+
+describe('matchesFilter', () => {
+  it('supports equality and comparison operators', () => {
+    expect(matchesFilter(doc, { source_type: 'web' })).toBe(true);
+    expect(matchesFilter(doc, { source_type: { $ne: 'web' } })).toBe(false);
+    expect(matchesFilter(doc, { score: { $gt: 5, $lte: 7 } })).toBe(true);
+    expect(matchesFilter(doc, { score: { $lt: 7 } })).toBe(false);
+    expect(matchesFilter(doc, { url: { $prefix: 'https://docs.' } })).toBe(true);
+    expect(matchesFilter(doc, { language: { $exists: false } })).toBe(true);
+  });
+
+  it('matches arrays when any element matches', () => {
+    expect(matchesFilter(doc, { tags: 'async' })).toBe(true);
+    expect(matchesFilter(doc, { tags: { $in: ['go', 'rust'] } })).toBe(true);
+    expect(matchesFilter(doc, { tags: { $nin: ['rust'] } })).toBe(false);
+    expect(matchesFilter(doc, { tags: { $ne: 'go' } })).toBe(true);
+  });
+
+  it('reaches nested values through dot paths', () => {
+    expect(matchesFilter(doc, { 'metadata.author': 'Ada' })).toBe(true);
+    expect(matchesFilter(doc, { 'metadata.author': { $exists: false } })).toBe(false);
+  });
+
+  it('composes clauses with $and and $or', () => {
+    expect(matchesFilter(doc, { $or: [{ source_type: 'kb' }, { tags: 'rust' }] })).toBe(true);
+    expect(matchesFilter(doc, { $and: [{ source_type: 'web' }, { score: { $gte: 8 } }] })).toBe(false);
+  });
+
+  it('treats date-only bounds as whole UTC days', () => {
+    expect(matchesFilter(doc, { published_date: { $lte: '2024-01-31' } })).toBe(true);
+    expect(matchesFilter(doc, { published_date: { $gt: '2024-01-31' } })).toBe(false);
+    expect(matchesFilter(doc, { published_date: { $gte: '2024-01-31' } })).toBe(true);
+    expect(matchesFilter(doc, { published_date: { $lt: '2024-01-31' } })).toBe(false);
+    expect(matchesFilter(doc, { published_date: { $gt: '2024-01-30' } })).toBe(true);
+  });
+});
+
+describe('validateFilter', () => {
+  it('rejects unknown operators and bad operands with their path', () => {
+    const cases: Array<[unknown, string]> = [
+      [{ $nor: [] }, '$nor'],
+      [{ score: { $between: [1, 2] } }, 'score.$between'],
+      [{ score: { $gt: 'soon' } }, 'score.$gt'],
+      [{ tags: { $in: 'rust' } }, 'tags.$in'],
+      [{ $or: [] }, '$or'],
+      [{ $and: [{ score: { $exists: 'yes' } }] }, '$and[0].score.$exists']
+    ];
+
+    for (const [filter, path] of cases) {
+      expect(() => validateFilter(filter)).toThrow(expect.objectContaining({ name: 'FilterValidationError', path }));
+    }
+  });
+
+  it('compiles an empty filter to a predicate that accepts everything', () => {
+    expect(compileFilter({})({})).toBe(true);
+    expect(() => compileFilter({ score: { $gt: {} } })).toThrow(FilterValidationError);
+  });
+});
+
+describe('translateSearchFilters', () => {
+  it('returns undefined when no filter is set', () => {
+    expect(translateSearchFilters({})).toBeUndefined();
+    expect(translateSearchFilters({ sources: [] })).toBeUndefined();
+  });
+
+  it('translates the request filters into clauses', () => {
+    const filter = translateSearchFilters({
+      date_range: { end: '2024-01-31' },
+      sources: ['web'],
+      language: 'EN'
+    });
+
+    expect(matchesFilter(doc, filter)).toBe(true);
+    expect(matchesFilter({ ...doc, language: 'fr' }, filter)).toBe(false);
+    expect(matchesFilter({ ...doc, published_date: '2024-02-01' }, filter)).toBe(false);
+  });
+
+  it('rejects mistyped fields', () => {
+    const cases: Array<[unknown, string]> = [
+      ['web', ''],
+      [{ date_range: '2024-01-01' }, 'date_range'],
+      [{ sources: 'web' }, 'sources'],
+      [{ sources: [1] }, 'sources'],
+      [{ language: 42 }, 'language']
+    ];
+
+    for (const [filters, path] of cases) {
+      expect(() => translateSearchFilters(filters as SearchRequestFilters)).toThrow(
+        expect.objectContaining({ name: 'FilterValidationError', path })
+      );
+    }
+  });
+});
@@ -0,0 +1,272 @@
+// Metadata filter language for vector, keyword and search-result queries.
+//
+//   { source_type: 'web' }                          equality (shorthand for $eq)
+//   { tags: { $in: ['a', 'b'] } }                   $eq $ne $in $nin
+//   { published_date: { $gte: '2024-01-01' } }      $gt $gte $lt $lte on numbers and dates
+//   { author: { $exists: true } }                   field presence
+//   { url: { $prefix: 'https://docs.' } }           string prefix
+//   { $or: [{ ... }, { ... }] }, { $and: [...] }    boolean composition
+//
+// Keys may use dot paths ("metadata.author") to reach nested values. When the
+// stored value is an array, a condition matches if any element matches.
+// A date without a time ("2024-01-31") stands for the whole UTC day, so
+// $lte includes everything on that day and $gt starts after it.
+
+export type MetadataFilter = Record<string, any>;
+
+export class FilterValidationError extends Error {
+  constructor(message: string, public path: string) {
+    super(`Invalid filter at ${path || '<root>'}: ${message}`);
+    this.name = 'FilterValidationError';
+  }
+}
+
+const DATE_ONLY_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const COMPARISON_OPERATORS = new Set(['$eq', '$ne', '$in', '$nin', '$gt', '$gte', '$lt', '$lte', '$exists', '$prefix']);
+const LOGICAL_OPERATORS = new Set(['$and', '$or']);
+
+function isPlainObject(value: unknown): value is Record<string, any> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value) && !(value instanceof Date);
+}
+
+function isScalar(value: unknown): boolean {
+  return value === null || ['string', 'number', 'boolean'].includes(typeof value) || value instanceof Date;
+}
+
+// Throws FilterValidationError describing the first problem found
+export function validateFilter(filter: unknown, path: string = ''): MetadataFilter {
+  if (!isPlainObject(filter)) {
+    throw new FilterValidationError('filter must be an object', path);
+  }
+
+  for (const [key, value] of Object.entries(filter)) {
+    const keyPath = path ? `${path}.${key}` : key;
+
+    if (LOGICAL_OPERATORS.has(key)) {
+      if (!Array.isArray(value) || value.length === 0) {
+        throw new FilterValidationError(`${key} expects a non-empty array of filters`, keyPath);
+      }
+      value.forEach((clause, index) => validateFilter(clause, `${keyPath}[${index}]`));
+      continue;
+    }
+
+    if (key.startsWith('$')) {
+      throw new FilterValidationError(`unknown operator ${key}`, keyPath);
+    }
+
+    if (isPlainObject(value)) {
+      validateCondition(value, keyPath);
+    } else if (!isScalar(value)) {
+      throw new FilterValidationError('equality values must be strings, numbers, booleans, dates or null', keyPath);
+    }
+  }
+
+  return filter;
+}
+
+function validateCondition(condition: Record<string, any>, path: string): void {
+  const operators = Object.keys(condition);
+  if (operators.length === 0) {
+    throw new FilterValidationError('condition has no operators', path);
+  }
+
+  for (const operator of operators) {
+    const operand = condition[operator];
+    const operatorPath = `${path}.${operator}`;
+
+    if (!COMPARISON_OPERATORS.has(operator)) {
+      throw new FilterValidationError(`unknown operator ${operator}`, operatorPath);
+    }
+
+    switch (operator) {
+      case '$in':
+      case '$nin':
+        if (!Array.isArray(operand) || !operand.every(isScalar)) {
+          throw new FilterValidationError(`${operator} expects an array of scalar values`, operatorPath);
+        }
+        break;
+      case '$gt':
+      case '$gte':
+      case '$lt':
+      case '$lte':
+        if (toComparable(operand) === null) {
+          throw new FilterValidationError(`${operator} expects a number or a date`, operatorPath);
+        }
+        break;
+      case '$exists':
+        if (typeof operand !== 'boolean') {
+          throw new FilterValidationError('$exists expects a boolean', operatorPath);
+        }
+        break;
+      case '$prefix':
+        if (typeof operand !== 'string') {
+          throw new FilterValidationError('$prefix expects a string', operatorPath);
+        }
+        break;
+      default:
+        if (!isScalar(operand)) {
+          throw new FilterValidationError(`${operator} expects a scalar value`, operatorPath);
+        }
+    }
+  }
+}
+
+// Numbers compare as numbers; dates and ISO date strings compare as timestamps
+function toComparable(value: unknown): number | null {
+  if (typeof value === 'number') return Number.isFinite(value) ? value : null;
+  if (value instanceof Date) return value.getTime();
+  if (typeof value === 'string' && value.trim() !== '') {
+    const numeric = Number(value);
+    if (Number.isFinite(numeric)) return numeric;
+    const timestamp = Date.parse(value);
+    return Number.isNaN(timestamp) ? null : timestamp;
+  }
+  return null;
+}
+
+function normalizeScalar(value: unknown): unknown {
+  return value instanceof Date ? value.toISOString() : value;
+}
+
+function getPath(metadata: Record<string, any>, path: string): unknown {
+  if (path in metadata) return metadata[path];
+  return path.split('.').reduce<any>((current, part) => (current == null ? undefined : current[part]), metadata);
+}
+
+function matchesCondition(value: unknown, operator: string, operand: any): boolean {
+  // Arrays match when any element satisfies the condition
+  if (Array.isArray(value) && operator !== '$exists' && operator !== '$nin' && operator !== '$ne') {
+    return value.some(element => matchesCondition(element, operator, operand));
+  }
+
+  switch (operator) {
+    case '$eq':
+      return normalizeScalar(value) === normalizeScalar(operand);
+    case '$ne':
+      return Array.isArray(value)
+        ? !value.some(element => normalizeScalar(element) === normalizeScalar(operand))
+        : normalizeScalar(value) !== normalizeScalar(operand);
+    case '$in':
+      return operand.some((candidate: unknown) => normalizeScalar(candidate) === normalizeScalar(value));
+    case '$nin': {
+      const values = Array.isArray(value) ? value : [value];
+      return !values.some(element =>
+        operand.some((candidate: unknown) => normalizeScalar(candidate) === normalizeScalar(element))
+      );
+    }
+    case '$gt':
+    case '$gte':
+    case '$lt':
+    case '$lte': {
+      const left = toComparable(value);
+      const right = toComparable(operand);
+      if (left === null || right === null) return false;
+      if (operator === '$gte') return left >= right;
+      if (operator === '$lt') return left < right;
+      // Upper ends of a date-only operand move to the start of the next day
+      const endOfDay = typeof operand === 'string' && DATE_ONLY_PATTERN.test(operand.trim());
+      if (operator === '$gt') return endOfDay ? left >= right + DAY_MS : left > right;
+      return endOfDay ? left < right + DAY_MS : left <= right;
+    }
+    case '$exists':
+      return operand ? value !== undefined && value !== null : value === undefined || value === null;
+    case '$prefix':
+      return typeof value === 'string' && value.startsWith(operand);
+    default:
+      return false;
+  }
+}
+
+export function matchesFilter(metadata: Record<string, any>, filter?: MetadataFilter): boolean {
+  if (!filter) return true;
+
+  for (const [key, value] of Object.entries(filter)) {
+    if (key === '$and') {
+      if (!value.every((clause: MetadataFilter) => matchesFilter(metadata, clause))) return false;
+      continue;
+    }
+    if (key === '$or') {
+      if (!value.some((clause: MetadataFilter) => matchesFilter(metadata, clause))) return false;
+      continue;
+    }
+
+    const fieldValue = getPath(metadata, key);
+    if (isPlainObject(value)) {
+      for (const [operator, operand] of Object.entries(value)) {
+        if (!matchesCondition(fieldValue, operator, operand)) return false;
+      }
+    } else if (!matchesCondition(fieldValue, '$eq', value)) {
+      return false;
+    }
+  }
+
+  return true;
+}
+
+// Validates once and returns a reusable predicate
+export function compileFilter(filter?: MetadataFilter): (metadata: Record<string, any>) => boolean {
+  if (!filter || Object.keys(filter).length === 0) {
+    return () => true;
+  }
+  validateFilter(filter);
+  return metadata => matchesFilter(metadata, filter);
+}
+
+export interface SearchRequestFilters {
+  date_range?: { start?: string; end?: string };
+  sources?: string[];
+  language?: string;
+}
+
+// Translates the /api/search request filters into the filter language
+export function translateSearchFilters(filters: SearchRequestFilters = {}): MetadataFilter | undefined {
+  if (!isPlainObject(filters)) {
+    throw new FilterValidationError('filters must be an object', '');
+  }
+  if (filters.date_range !== undefined && !isPlainObject(filters.date_range)) {
+    throw new FilterValidationError('date_range must be an object with start and end dates', 'date_range');
+  }
+  if (filters.sources !== undefined && (!Array.isArray(filters.sources)
+    || !filters.sources.every(source => typeof source === 'string'))) {
+    throw new FilterValidationError('sources must be an array of strings', 'sources');
+  }
+  if (filters.language !== undefined && typeof filters.language !== 'string') {
+    throw new FilterValidationError('language must be a string', 'language');
+  }
+
+  const clauses: MetadataFilter[] = [];
+
+  if (filters.date_range && (filters.date_range.start || filters.date_range.end)) {
+    const range: Record<string, string> = {};
+    if (filters.date_range.start) range.$gte = filters.date_range.start;
+    if (filters.date_range.end) range.$lte = filters.date_range.end;
+    // Web results carry a publication date, knowledge-base documents an ingestion date
+    clauses.push({ $or: [{ published_date: range }, { created_at: range }] });
+  }
+
+  if (filters.sources && filters.sources.length > 0) {
+    clauses.push({
+      $or: [
+        { source_type: { $in: filters.sources } },
+        { host_name: { $in: filters.sources } },
+        ...filters.sources.map(source => ({ url: { $prefix: source } }))
+      ]
+    });
+  }
+
+  if (filters.language) {
+    // Results without language metadata (most web results) are kept
+    clauses.push({
+      $or: [
+        { language: { $exists: false } },
+        { language: { $prefix: filters.language.toLowerCase() } }
+      ]
+    });
+  }
+
+  if (clauses.length === 0) return undefined;
+  const translated = clauses.length === 1 ? clauses[0] : { $and: clauses };
+  return validateFilter(translated);
+}
@@ -0,0 +1,84 @@
+import { describe, expect, it } from 'vitest';
+import {
+  NearDuplicateIndex,
+  computeSignature,
+  estimateSimilarity,
+  validateDuplicatePolicy
+} from './near-duplicates';
+
+const article = Array.from(
+  { length: 40 },
+  (_, i) => `Paragraph ${i} explains how the ingestion pipeline splits documents into chunks number ${i}.`
+).join(' ');
+
+function jaccard(a: string, b: string): number {
+  const shingles = (text: string) => {
+    const words = text.toLowerCase().split(/\W+/).filter(Boolean);
+    return new Set(words.slice(4).map((_, i) => words.slice(i, i + 5).join(' ')));
+  };
+  const setA = shingles(a);
+  const setB = shingles(b);
+  const shared = Array.from(setA).filter(shingle => setB.has(shingle)).length;
+  return shared / (setA.size + setB.size - shared);
+}
+
+describe('computeSignature', () => {
+  it('gives identical texts identical signatures', () => {
+    expect(estimateSimilarity(computeSignature(article), computeSignature(article))).toBe(1);
+  });
+
+  it('ignores case and punctuation', () => {
+    const copy = article.toUpperCase().replace(/\./g, '!');
+    expect(estimateSimilarity(computeSignature(article), computeSignature(copy))).toBe(1);
+  });
+
+  it('estimates the Jaccard similarity of word shingles', () => {
+    const edited = article.replace('Paragraph 20', 'Section twenty');
+    const estimate = estimateSimilarity(computeSignature(article), computeSignature(edited));
+    expect(Math.abs(estimate - jaccard(article, edited))).toBeLessThan(0.1);
+  });
+
+  it('keeps unrelated texts far apart', () => {
+    const other = 'The quarterly report covers revenue, hiring plans and the new office in Lisbon.';
+    expect(estimateSimilarity(computeSignature(article), computeSignature(other))).toBeLessThan(0.1);
+  });
+});
+
+describe('NearDuplicateIndex', () => {
+  it('finds near duplicates above the threshold, most similar first', () => {
+    const index = new NearDuplicateIndex();
+    index.add('original', computeSignature(article));
+    index.add('edited', computeSignature(article.replace('Paragraph 20', 'Section twenty')));
+    index.add('other', computeSignature('An unrelated note about the office move.'));
+
+    const matches = index.find(computeSignature(article), 0.8);
+    expect(matches.map(match => match.id)).toEqual(['original', 'edited']);
+    expect(matches[0].similarity).toBe(1);
+    expect(index.find(computeSignature(article), 0.8, 'original').map(match => match.id)).toEqual(['edited']);
+  });
+
+  it('forgets removed and replaced signatures', () => {
+    const index = new NearDuplicateIndex();
+    index.add('doc', computeSignature(article));
+    index.add('doc', computeSignature('Now about something else entirely.'));
+
+    expect(index.size).toBe(1);
+    expect(index.find(computeSignature(article), 0.5)).toEqual([]);
+    expect(index.remove('doc')).toBe(true);
+    expect(index.remove('doc')).toBe(false);
+  });
+});
+
+describe('validateDuplicatePolicy', () => {
+  it('accepts known modes and thresholds in (0, 1]', () => {
+    expect(validateDuplicatePolicy({ mode: 'merge', threshold: 1 })).toBeNull();
+    expect(validateDuplicatePolicy({})).toBeNull();
+  });
+
+  it('rejects anything else', () => {
+    expect(validateDuplicatePolicy([])).toBe('duplicates must be an object');
+    expect(validateDuplicatePolicy({ mode: 'drop' })).toMatch(/^duplicates.mode/);
+    expect(validateDuplicatePolicy({ threshold: 0 })).toMatch(/^duplicates.threshold/);
+    expect(validateDuplicatePolicy({ threshold: '0.9' })).toMatch(/^duplicates.threshold/);
+  });
+});
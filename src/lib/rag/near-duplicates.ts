@@ -0,0 +1,240 @@
+import { tokenize } from './embeddings';
+import { Collection } from './collections';
+
+// Near-duplicate detection for ingested documents and crawled pages (mirrors,
+// print views, syndicated copies). Each text gets a MinHash signature over
+// word shingles; the share of equal signature slots estimates the Jaccard
+// similarity of the shingle sets. Signatures are bucketed by bands (LSH), so a
+// lookup only compares against texts that share at least one band.
+//
+// Duplicates of a stored document are handled by mode:
+//   skip   not stored
+//   merge  not stored; recorded on the original document as an alias
+//   keep   stored, and linked to the original document as a cluster member
+//   off    no detection
+
+export type DuplicateMode = 'skip' | 'merge' | 'keep' | 'off';
+
+export interface DuplicatePolicy {
+  mode?: DuplicateMode;
+  // Estimated Jaccard similarity of word shingles at which texts count as duplicates
+  threshold?: number;
+}
+
+export interface DuplicateMatch {
+  id: string;
+  similarity: number;
+}
+
+// Cluster member recorded in the original document's `duplicates` metadata
+export interface DuplicateEntry {
+  id: string;
+  title: string;
+  url: string;
+  similarity: number;
+  // True when the duplicate was merged into the original instead of stored
+  merged: boolean;
+  detected_at: string;
+}
+
+export interface DuplicateCluster {
+  canonical: { id: string; title: string; url: string };
+  members: DuplicateEntry[];
+}
+
+export const DUPLICATE_MODES: DuplicateMode[] = ['skip', 'merge', 'keep', 'off'];
+
+const SIGNATURE_SIZE = 128;
+// 32 bands of 4 rows: pairs above ~0.5 similarity almost always share a band
+const BAND_ROWS = 4;
+const SHINGLE_SIZE = 5;
+const DEFAULT_THRESHOLD = 0.9;
+
+// Fixed seeds keep signatures stable across restarts
+const SEEDS = Array.from({ length: SIGNATURE_SIZE }, (_, i) => mix(0x9e3779b9 ^ (i * 0x85ebca6b)));
+
+export function getDuplicatePolicyFromEnv(): Required<DuplicatePolicy> {
+  const mode = process.env.NEAR_DUPLICATE_MODE as DuplicateMode | undefined;
+  const threshold = Number(process.env.NEAR_DUPLICATE_THRESHOLD);
+
+  return {
+    mode: mode && DUPLICATE_MODES.includes(mode) ? mode : 'keep',
+    threshold: threshold > 0 && threshold <= 1 ? threshold : DEFAULT_THRESHOLD
+  };
+}
+
+// Returns an error message, or null when the policy is acceptable
+export function validateDuplicatePolicy(policy: any): string | null {
+  if (typeof policy !== 'object' || policy === null || Array.isArray(policy)) {
+    return 'duplicates must be an object';
+  }
+  if (policy.mode !== undefined && !DUPLICATE_MODES.includes(policy.mode)) {
+    return `duplicates.mode must be one of ${DUPLICATE_MODES.join(', ')}`;
+  }
+  if (policy.threshold !== undefined && (typeof policy.threshold !== 'number' || policy.threshold <= 0 || policy.threshold > 1)) {
+    return 'duplicates.threshold must be a number in (0, 1]';
+  }
+  return null;
+}
+
+// murmur3 finalizer
+function mix(value: number): number {
+  let h = value >>> 0;
+  h = Math.imul(h ^ (h >>> 16), 0x85ebca6b);
+  h = Math.imul(h ^ (h >>> 13), 0xc2b2ae35);
+  return (h ^ (h >>> 16)) >>> 0;
+}
+
+function hashString(text: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash = Math.imul(hash ^ text.charCodeAt(i), 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+export function computeSignature(text: string): Uint32Array {
+  const tokens = tokenize(text);
+  const shingles = new Set<number>();
+
+  if (tokens.length < SHINGLE_SIZE) {
+    if (tokens.length > 0) shingles.add(hashString(tokens.join(' ')));
+  } else {
+    for (let i = 0; i + SHINGLE_SIZE <= tokens.length; i++) {
+      shingles.add(hashString(tokens.slice(i, i + SHINGLE_SIZE).join(' ')));
+    }
+  }
+
+  const signature = new Uint32Array(SIGNATURE_SIZE).fill(0xffffffff);
+  for (const shingle of shingles) {
+    for (let i = 0; i < SIGNATURE_SIZE; i++) {
+      const value = mix(shingle ^ SEEDS[i]);
+      if (value < signature[i]) signature[i] = value;
+    }
+  }
+  return signature;
+}
+
+export function estimateSimilarity(a: Uint32Array, b: Uint32Array): number {
+  let equal = 0;
+  for (let i = 0; i < SIGNATURE_SIZE; i++) {
+    if (a[i] === b[i]) equal++;
+  }
+  return equal / SIGNATURE_SIZE;
+}
+
+export class NearDuplicateIndex {
+  private signatures: Map<string, Uint32Array> = new Map();
+  private bands: Map<string, Set<string>> = new Map();
+
+  get size(): number {
+    return this.signatures.size;
+  }
+
+  add(id: string, signature: Uint32Array): void {
+    this.remove(id);
+    this.signatures.set(id, signature);
+    for (const key of this.bandKeys(signature)) {
+      if (!this.bands.has(key)) this.bands.set(key, new Set());
+      this.bands.get(key)!.add(id);
+    }
+  }
+
+  remove(id: string): boolean {
+    const signature = this.signatures.get(id);
+    if (!signature) return false;
+
+    for (const key of this.bandKeys(signature)) {
+      const bucket = this.bands.get(key);
+      bucket?.delete(id);
+      if (bucket && bucket.size === 0) this.bands.delete(key);
+    }
+    return this.signatures.delete(id);
+  }
+
+  // Matches at or above the threshold, most similar first
+  find(signature: Uint32Array, threshold: number, excludeId?: string): DuplicateMatch[] {
+    const candidates = new Set<string>();
+    for (const key of this.bandKeys(signature)) {
+      this.bands.get(key)?.forEach(id => candidates.add(id));
+    }
+    if (excludeId) candidates.delete(excludeId);
+
+    return Array.from(candidates)
+      .map(id => ({ id, similarity: estimateSimilarity(signature, this.signatures.get(id)!) }))
+      .filter(match => match.similarity >= threshold)
+      .sort((a, b) => b.similarity - a.similarity);
+  }
+
+  private bandKeys(signature: Uint32Array): string[] {
+    const keys: string[] = [];
+    for (let band = 0; band * BAND_ROWS < SIGNATURE_SIZE; band++) {
+      const rows = Array.from(signature.subarray(band * BAND_ROWS, (band + 1) * BAND_ROWS));
+      keys.push(`${band}:${rows.join(',')}`);
+    }
+    return keys;
+  }
+}
+
+// Per-collection indexes over stored documents, built on first use
+export class NearDuplicateDetector {
+  private indexes: WeakMap<Collection, Promise<NearDuplicateIndex>> = new WeakMap();
+
+  // The stored document most similar to the text, if any reaches the threshold
+  async findDuplicate(
+    collection: Collection,
+    content: string,
+    threshold: number,
+    excludeId?: string
+  ): Promise<DuplicateMatch | undefined> {
+    const index = await this.getIndex(collection);
+
+    for (const match of index.find(computeSignature(content), threshold, excludeId)) {
+      // Documents deleted since they were indexed are dropped lazily
+      if (await collection.store.getParentDocument(match.id)) return match;
+      index.remove(match.id);
+    }
+    return undefined;
+  }
+
+  async record(collection: Collection, id: string, content: string): Promise<void> {
+    const index = await this.getIndex(collection);
+    index.add(id, computeSignature(content));
+  }
+
+  async forget(collection: Collection, id: string): Promise<void> {
+    const index = await this.getIndex(collection);
+    index.remove(id);
+  }
+
+  // Clusters are listed from the original documents' `duplicates` metadata
+  async getClusters(collection: Collection): Promise<DuplicateCluster[]> {
+    const parents = await collection.store.getParentDocuments();
+
+    return parents
+      .filter(parent => Array.isArray(parent.metadata.duplicates) && parent.metadata.duplicates.length > 0)
+      .map(parent => ({
+        canonical: { id: parent.id, title: parent.metadata.title, url: parent.metadata.url },
+        members: parent.metadata.duplicates as DuplicateEntry[]
+      }));
+  }
+
+  private getIndex(collection: Collection): Promise<NearDuplicateIndex> {
+    let index = this.indexes.get(collection);
+    if (!index) {
+      index = this.buildIndex(collection);
+      this.indexes.set(collection, index);
+    }
+    return index;
+  }
+
+  private async buildIndex(collection: Collection): Promise<NearDuplicateIndex> {
+    const index = new NearDuplicateIndex();
+    for (const parent of await collection.store.getParentDocuments()) {
+      index.add(parent.id, computeSignature(parent.content));
+    }
+    return index;
+  }
+}
+
+export const nearDuplicateDetector = new NearDuplicateDetector();
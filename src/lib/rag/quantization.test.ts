@@ -0,0 +1,131 @@
+import { describe, expect, it } from 'vitest';
+import { Float32VectorSet, Int8VectorSet, PQVectorSet, createVectorSet } from './quantization';
+
+// Deterministic vectors, so a failing check can be reproduced
+function randomVectors(count: number, dimension: number, seed: number): number[][] {
+  let state = seed;
+  const next = () => {
+    state = (state * 1664525 + 1013904223) >>> 0;
+    return state / 2 ** 32 - 0.5;
+  };
+  return Array.from({ length: count }, () => Array.from({ length: dimension }, next));
+}
+
+function cosine(a: ArrayLike<number>, b: ArrayLike<number>): number {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return dot / Math.sqrt(normA * normB);
+}
+
+describe('createVectorSet', () => {
+  it('picks the set for the quantization mode', () => {
+    expect(createVectorSet(8)).toBeInstanceOf(Float32VectorSet);
+    expect(createVectorSet(8, { mode: 'int8' })).toBeInstanceOf(Int8VectorSet);
+    expect(createVectorSet(8, { mode: 'pq' })).toBeInstanceOf(PQVectorSet);
+  });
+});
+
+describe('Int8VectorSet', () => {
+  const vectors = randomVectors(50, 64, 3);
+
+  it('decodes vectors close to their normalized originals', () => {
+    const set = new Int8VectorSet(64);
+    vectors.forEach((vector, i) => set.add(`v${i}`, vector));
+
+    vectors.forEach((vector, i) => {
+      expect(cosine(set.decode(`v${i}`)!, vector)).toBeGreaterThan(0.999);
+    });
+  });
+
+  it('scores queries within a small error of exact cosine similarity', () => {
+    const set = new Int8VectorSet(64);
+    vectors.forEach((vector, i) => set.add(`v${i}`, vector));
+    const [query] = randomVectors(1, 64, 11);
+    const score = set.scorer(query);
+
+    vectors.forEach((vector, i) => {
+      expect(Math.abs(score(`v${i}`) - cosine(query, vector))).toBeLessThan(0.01);
+    });
+    expect(set.similarity('v0', 'v1')).toBeCloseTo(cosine(vectors[0], vectors[1]), 2);
+  });
+
+  it('takes a quarter of the memory of float32 storage', () => {
+    const int8 = new Int8VectorSet(64);
+    const float32 = new Float32VectorSet(64);
+    vectors.forEach((vector, i) => {
+      int8.add(`v${i}`, vector);
+      float32.add(`v${i}`, vector);
+    });
+
+    expect(int8.memoryBytes()).toBeLessThan(float32.memoryBytes() / 3);
+  });
+
+  it('reuses the slot of a removed vector', () => {
+    const set = new Int8VectorSet(4);
+    set.add('a', [1, 0, 0, 0]);
+    set.add('b', [0, 1, 0, 0]);
+    expect(set.remove('a')).toBe(true);
+    set.add('c', [0, 0, 1, 0]);
+
+    expect(set.size).toBe(2);
+    expect(set.has('a')).toBe(false);
+    expect(set.scorer([0, 0, 1, 0])('c')).toBeCloseTo(1, 5);
+    expect(() => set.add('d', [1, 2])).toThrow('expected 4');
+  });
+});
+
+describe('PQVectorSet', () => {
+  const vectors = randomVectors(300, 32, 5);
+
+  function buildSet(): PQVectorSet {
+    const set = new PQVectorSet(32, 8, 300);
+    vectors.forEach((vector, i) => set.add(`v${i}`, vector));
+    return set;
+  }
+
+  it('keeps vectors as int8 until there are enough to train on', () => {
+    const set = new PQVectorSet(32, 8, 300);
+    vectors.slice(0, 299).forEach((vector, i) => set.add(`v${i}`, vector));
+    expect(set.trained).toBe(false);
+    expect(set.size).toBe(299);
+
+    set.add('v299', vectors[299]);
+    expect(set.trained).toBe(true);
+    expect(set.size).toBe(300);
+  });
+
+  it('approximates cosine similarity after training', () => {
+    const set = buildSet();
+    const [query] = randomVectors(1, 32, 13);
+    const score = set.scorer(query);
+
+    const meanError = vectors.reduce((sum, vector, i) => sum + Math.abs(score(`v${i}`) - cosine(query, vector)), 0)
+      / vectors.length;
+    expect(meanError).toBeLessThan(0.05);
+  });
+
+  it('encodes vectors added after training', () => {
+    const set = buildSet();
+    const [extra] = randomVectors(1, 32, 17);
+    set.add('extra', extra);
+
+    expect(set.has('extra')).toBe(true);
+    expect(set.scorer(extra)('extra')).toBeGreaterThan(0.8);
+    expect(set.remove('extra')).toBe(true);
+    expect(set.size).toBe(300);
+  });
+
+  it('returns to the untrained state when cleared', () => {
+    const set = buildSet();
+    set.clear();
+
+    expect(set.trained).toBe(false);
+    expect(set.size).toBe(0);
+  });
+});
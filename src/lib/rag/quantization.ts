@@ -0,0 +1,472 @@
+// Compact in-memory vector storage for the vector store and its HNSW index.
+// Vectors live in slots of shared typed arrays instead of one JS array of
+// doubles each:
+//   none  Float32, 4 bytes per dimension
+//   int8  scalar quantization, 1 byte per dimension plus one scale per vector
+//   pq    product quantization, 1 byte per subvector (e.g. 96 bytes for 1536
+//         dimensions); codebooks are trained with k-means once enough vectors
+//         have arrived, and vectors are kept as int8 until then
+// Quantized scores are approximate, so callers re-score their top candidates
+// against the full-precision vectors.
+
+export type QuantizationMode = 'none' | 'int8' | 'pq';
+
+export interface QuantizationOptions {
+  mode?: QuantizationMode;
+  // PQ: number of subvectors; rounded to a divisor of the dimension
+  pqSubvectors?: number;
+  // PQ: vectors collected before the codebooks are trained
+  pqTrainingSize?: number;
+  // Candidates re-scored at full precision, as a multiple of the requested result count
+  rescoreFactor?: number;
+}
+
+// Cosine similarity of one prepared query to a stored vector
+export type VectorScorer = (id: string) => number;
+
+export interface VectorSet {
+  readonly mode: QuantizationMode;
+  readonly size: number;
+  has(id: string): boolean;
+  add(id: string, vector: ArrayLike<number>): void;
+  remove(id: string): boolean;
+  clear(): void;
+  // Scores are approximate for quantized sets
+  scorer(query: ArrayLike<number>): VectorScorer;
+  similarity(a: string, b: string): number;
+  // Bytes held by the typed arrays backing the set
+  memoryBytes(): number;
+}
+
+const INITIAL_CAPACITY = 64;
+const PQ_CENTROIDS = 256;
+const PQ_ITERATIONS = 8;
+
+export const DEFAULT_QUANTIZATION: Required<QuantizationOptions> = {
+  mode: 'none',
+  pqSubvectors: 96,
+  pqTrainingSize: 1000,
+  rescoreFactor: 4
+};
+
+export function createVectorSet(dimension: number, options: QuantizationOptions = {}): VectorSet {
+  switch (options.mode ?? 'none') {
+    case 'int8':
+      return new Int8VectorSet(dimension);
+    case 'pq':
+      return new PQVectorSet(dimension, options.pqSubvectors, options.pqTrainingSize);
+    default:
+      return new Float32VectorSet(dimension);
+  }
+}
+
+export function getQuantizationFromEnv(): QuantizationOptions {
+  const mode = process.env.VECTOR_QUANTIZATION as QuantizationMode | undefined;
+  return {
+    mode: mode && ['none', 'int8', 'pq'].includes(mode) ? mode : 'none',
+    pqSubvectors: Number(process.env.VECTOR_PQ_SUBVECTORS) || undefined,
+    rescoreFactor: Number(process.env.VECTOR_RESCORE_FACTOR) || undefined
+  };
+}
+
+function inverseNorm(vector: ArrayLike<number>): number {
+  let norm = 0;
+  for (let i = 0; i < vector.length; i++) norm += vector[i] * vector[i];
+  return norm === 0 ? 0 : 1 / Math.sqrt(norm);
+}
+
+function normalized(vector: ArrayLike<number>): Float32Array {
+  const scale = inverseNorm(vector);
+  const result = new Float32Array(vector.length);
+  for (let i = 0; i < vector.length; i++) result[i] = vector[i] * scale;
+  return result;
+}
+
+// Slot bookkeeping shared by the typed-array sets: ids map to slots, freed
+// slots are reused and the arrays double in size when full
+abstract class SlottedVectorSet implements VectorSet {
+  abstract readonly mode: QuantizationMode;
+  protected slots: Map<string, number> = new Map();
+  private freeSlots: number[] = [];
+  protected capacity = 0;
+  private nextSlot = 0;
+
+  constructor(protected readonly dimension: number) {}
+
+  get size(): number {
+    return this.slots.size;
+  }
+
+  has(id: string): boolean {
+    return this.slots.has(id);
+  }
+
+  add(id: string, vector: ArrayLike<number>): void {
+    if (vector.length !== this.dimension) {
+      throw new Error(`Vector has dimension ${vector.length}, expected ${this.dimension}`);
+    }
+
+    let slot = this.slots.get(id);
+    if (slot === undefined) {
+      slot = this.freeSlots.pop() ?? this.nextSlot++;
+      if (slot >= this.capacity) {
+        this.capacity = Math.max(INITIAL_CAPACITY, this.capacity * 2);
+        this.grow(this.capacity);
+      }
+      this.slots.set(id, slot);
+    }
+    this.write(slot, vector);
+  }
+
+  remove(id: string): boolean {
+    const slot = this.slots.get(id);
+    if (slot === undefined) return false;
+    this.slots.delete(id);
+    this.freeSlots.push(slot);
+    return true;
+  }
+
+  clear(): void {
+    this.slots.clear();
+    this.freeSlots = [];
+    this.nextSlot = 0;
+    this.capacity = 0;
+    this.grow(0);
+  }
+
+  scorer(query: ArrayLike<number>): VectorScorer {
+    const score = this.prepare(normalized(query));
+    return id => {
+      const slot = this.slots.get(id);
+      return slot === undefined ? 0 : score(slot);
+    };
+  }
+
+  similarity(a: string, b: string): number {
+    const slotA = this.slots.get(a);
+    const slotB = this.slots.get(b);
+    if (slotA === undefined || slotB === undefined) return 0;
+    return this.slotSimilarity(slotA, slotB);
+  }
+
+  abstract memoryBytes(): number;
+  // Resizes the backing arrays to hold `capacity` vectors, keeping their contents
+  protected abstract grow(capacity: number): void;
+  protected abstract write(slot: number, vector: ArrayLike<number>): void;
+  protected abstract prepare(query: Float32Array): (slot: number) => number;
+  protected abstract slotSimilarity(a: number, b: number): number;
+}
+
+function resize<T extends Float32Array | Int8Array | Uint8Array>(array: T, length: number): T {
+  const resized = new (array.constructor as new (length: number) => T)(length);
+  resized.set(array.subarray(0, Math.min(array.length, length)));
+  return resized;
+}
+
+// Full vectors as Float32, with their inverse norms so they can be returned unchanged
+export class Float32VectorSet extends SlottedVectorSet {
+  readonly mode = 'none' as const;
+  private data = new Float32Array(0);
+  private inverseNorms = new Float32Array(0);
+
+  get(id: string): Float32Array | undefined {
+    const slot = this.slots.get(id);
+    if (slot === undefined) return undefined;
+    return this.data.slice(slot * this.dimension, (slot + 1) * this.dimension);
+  }
+
+  memoryBytes(): number {
+    return this.data.byteLength + this.inverseNorms.byteLength;
+  }
+
+  protected grow(capacity: number): void {
+    this.data = resize(this.data, capacity * this.dimension);
+    this.inverseNorms = resize(this.inverseNorms, capacity);
+  }
+
+  protected write(slot: number, vector: ArrayLike<number>): void {
+    this.data.set(vector, slot * this.dimension);
+    this.inverseNorms[slot] = inverseNorm(vector);
+  }
+
+  protected prepare(query: Float32Array): (slot: number) => number {
+    return slot => {
+      const offset = slot * this.dimension;
+      let dot = 0;
+      for (let i = 0; i < this.dimension; i++) dot += query[i] * this.data[offset + i];
+      return dot * this.inverseNorms[slot];
+    };
+  }
+
+  protected slotSimilarity(a: number, b: number): number {
+    const offsetA = a * this.dimension;
+    const offsetB = b * this.dimension;
+    let dot = 0;
+    for (let i = 0; i < this.dimension; i++) dot += this.data[offsetA + i] * this.data[offsetB + i];
+    return dot * this.inverseNorms[a] * this.inverseNorms[b];
+  }
+}
+
+// Normalized vectors scaled so the largest component maps to +/-127
+export class Int8VectorSet extends SlottedVectorSet {
+  readonly mode: QuantizationMode = 'int8';
+  private codes = new Int8Array(0);
+  private scales = new Float32Array(0);
+
+  // Approximate normalized vector, e.g. for training PQ codebooks
+  decode(id: string): Float32Array | undefined {
+    const slot = this.slots.get(id);
+    if (slot === undefined) return undefined;
+
+    const result = new Float32Array(this.dimension);
+    const offset = slot * this.dimension;
+    for (let i = 0; i < this.dimension; i++) result[i] = this.codes[offset + i] * this.scales[slot];
+    return result;
+  }
+
+  ids(): string[] {
+    return Array.from(this.slots.keys());
+  }
+
+  memoryBytes(): number {
+    return this.codes.byteLength + this.scales.byteLength;
+  }
+
+  protected grow(capacity: number): void {
+    this.codes = resize(this.codes, capacity * this.dimension);
+    this.scales = resize(this.scales, capacity);
+  }
+
+  protected write(slot: number, vector: ArrayLike<number>): void {
+    const unit = normalized(vector);
+    let max = 0;
+    for (let i = 0; i < unit.length; i++) max = Math.max(max, Math.abs(unit[i]));
+
+    const scale = max === 0 ? 0 : max / 127;
+    const offset = slot * this.dimension;
+    for (let i = 0; i < unit.length; i++) {
+      this.codes[offset + i] = scale === 0 ? 0 : Math.round(unit[i] / scale);
+    }
+    this.scales[slot] = scale;
+  }
+
+  protected prepare(query: Float32Array): (slot: number) => number {
+    return slot => {
+      const offset = slot * this.dimension;
+      let dot = 0;
+      for (let i = 0; i < this.dimension; i++) dot += query[i] * this.codes[offset + i];
+      return dot * this.scales[slot];
+    };
+  }
+
+  protected slotSimilarity(a: number, b: number): number {
+    const offsetA = a * this.dimension;
+    const offsetB = b * this.dimension;
+    let dot = 0;
+    for (let i = 0; i < this.dimension; i++) dot += this.codes[offsetA + i] * this.codes[offsetB + i];
+    return dot * this.scales[a] * this.scales[b];
+  }
+}
+
+// Product quantization: each normalized vector is split into subvectors and
+// every subvector is stored as the index of its nearest codebook centroid.
+// Queries are scored with a per-query table of subvector dot products.
+export class PQVectorSet extends SlottedVectorSet {
+  readonly mode = 'pq' as const;
+  private subvectors: number;
+  private subDimension: number;
+  private trainingSize: number;
+  private centroidCount = 0;
+  // subvectors x centroids x subDimension, empty until trained
+  private codebooks = new Float32Array(0);
+  private codes = new Uint8Array(0);
+  // Holds vectors until there are enough to train the codebooks on
+  private pending: Int8VectorSet | null;
+
+  constructor(dimension: number, subvectors: number = DEFAULT_QUANTIZATION.pqSubvectors, trainingSize: number = DEFAULT_QUANTIZATION.pqTrainingSize) {
+    super(dimension);
+    this.subvectors = this.largestDivisor(dimension, Math.max(1, Math.min(subvectors, dimension)));
+    this.subDimension = dimension / this.subvectors;
+    this.trainingSize = Math.max(1, trainingSize);
+    this.pending = new Int8VectorSet(dimension);
+  }
+
+  get trained(): boolean {
+    return this.pending === null;
+  }
+
+  get size(): number {
+    return this.pending ? this.pending.size : this.slots.size;
+  }
+
+  has(id: string): boolean {
+    return this.pending ? this.pending.has(id) : this.slots.has(id);
+  }
+
+  add(id: string, vector: ArrayLike<number>): void {
+    if (!this.pending) {
+      super.add(id, vector);
+      return;
+    }
+
+    this.pending.add(id, vector);
+    if (this.pending.size >= this.trainingSize) {
+      this.train();
+    }
+  }
+
+  remove(id: string): boolean {
+    return this.pending ? this.pending.remove(id) : super.remove(id);
+  }
+
+  clear(): void {
+    super.clear();
+    this.codebooks = new Float32Array(0);
+    this.centroidCount = 0;
+    this.pending = new Int8VectorSet(this.dimension);
+  }
+
+  scorer(query: ArrayLike<number>): VectorScorer {
+    return this.pending ? this.pending.scorer(query) : super.scorer(query);
+  }
+
+  similarity(a: string, b: string): number {
+    return this.pending ? this.pending.similarity(a, b) : super.similarity(a, b);
+  }
+
+  memoryBytes(): number {
+    return this.pending
+      ? this.pending.memoryBytes()
+      : this.codes.byteLength + this.codebooks.byteLength;
+  }
+
+  protected grow(capacity: number): void {
+    this.codes = resize(this.codes, capacity * this.subvectors);
+  }
+
+  protected write(slot: number, vector: ArrayLike<number>): void {
+    const unit = normalized(vector);
+    for (let m = 0; m < this.subvectors; m++) {
+      this.codes[slot * this.subvectors + m] = this.nearestCentroid(unit, m * this.subDimension, m);
+    }
+  }
+
+  protected prepare(query: Float32Array): (slot: number) => number {
+    // table[m * centroids + c] = dot(query subvector m, centroid c of subspace m)
+    const table = new Float32Array(this.subvectors * this.centroidCount);
+    for (let m = 0; m < this.subvectors; m++) {
+      for (let c = 0; c < this.centroidCount; c++) {
+        table[m * this.centroidCount + c] = this.centroidDot(query, m * this.subDimension, m, c);
+      }
+    }
+
+    return slot => {
+      const offset = slot * this.subvectors;
+      let dot = 0;
+      for (let m = 0; m < this.subvectors; m++) {
+        dot += table[m * this.centroidCount + this.codes[offset + m]];
+      }
+      return dot;
+    };
+  }
+
+  protected slotSimilarity(a: number, b: number): number {
+    let dot = 0;
+    for (let m = 0; m < this.subvectors; m++) {
+      const centroidA = this.centroidOffset(m, this.codes[a * this.subvectors + m]);
+      const centroidB = this.centroidOffset(m, this.codes[b * this.subvectors + m]);
+      for (let i = 0; i < this.subDimension; i++) {
+        dot += this.codebooks[centroidA + i] * this.codebooks[centroidB + i];
+      }
+    }
+    return dot;
+  }
+
+  // Trains one codebook per subspace with k-means over the collected vectors,
+  // then encodes them
+  private train(): void {
+    const pending = this.pending!;
+    const ids = pending.ids();
+    const samples = ids.map(id => pending.decode(id)!);
+
+    this.centroidCount = Math.min(PQ_CENTROIDS, samples.length);
+    this.codebooks = new Float32Array(this.subvectors * this.centroidCount * this.subDimension);
+
+    for (let m = 0; m < this.subvectors; m++) {
+      this.trainSubspace(samples, m);
+    }
+
+    this.pending = null;
+    ids.forEach((id, index) => super.add(id, samples[index]));
+  }
+
+  private trainSubspace(samples: Float32Array[], m: number): void {
+    const start = m * this.subDimension;
+    const assignments = new Int32Array(samples.length);
+
+    // Evenly spaced samples as initial centroids keep training deterministic
+    for (let c = 0; c < this.centroidCount; c++) {
+      const sample = samples[Math.floor((c * samples.length) / this.centroidCount)];
+      this.codebooks.set(sample.subarray(start, start + this.subDimension), this.centroidOffset(m, c));
+    }
+
+    for (let iteration = 0; iteration < PQ_ITERATIONS; iteration++) {
+      samples.forEach((sample, index) => {
+        assignments[index] = this.nearestCentroid(sample, start, m);
+      });
+
+      const sums = new Float32Array(this.centroidCount * this.subDimension);
+      const counts = new Int32Array(this.centroidCount);
+      samples.forEach((sample, index) => {
+        const c = assignments[index];
+        counts[c]++;
+        for (let i = 0; i < this.subDimension; i++) sums[c * this.subDimension + i] += sample[start + i];
+      });
+
+      for (let c = 0; c < this.centroidCount; c++) {
+        // Empty clusters keep their previous centroid
+        if (counts[c] === 0) continue;
+        const offset = this.centroidOffset(m, c);
+        for (let i = 0; i < this.subDimension; i++) {
+          this.codebooks[offset + i] = sums[c * this.subDimension + i] / counts[c];
+        }
+      }
+    }
+  }
+
+  private nearestCentroid(vector: Float32Array, start: number, m: number): number {
+    let best = 0;
+    let bestDistance = Infinity;
+    for (let c = 0; c < this.centroidCount; c++) {
+      const offset = this.centroidOffset(m, c);
+      let distance = 0;
+      for (let i = 0; i < this.subDimension; i++) {
+        const diff = vector[start + i] - this.codebooks[offset + i];
+        distance += diff * diff;
+      }
+      if (distance < bestDistance) {
+        bestDistance = distance;
+        best = c;
+      }
+    }
+    return best;
+  }
+
+  private centroidDot(vector: Float32Array, start: number, m: number, c: number): number {
+    const offset = this.centroidOffset(m, c);
+    let dot = 0;
+    for (let i = 0; i < this.subDimension; i++) dot += vector[start + i] * this.codebooks[offset + i];
+    return dot;
+  }
+
+  private centroidOffset(m: number, c: number): number {
+    return (m * this.centroidCount + c) * this.subDimension;
+  }
+
+  private largestDivisor(dimension: number, atMost: number): number {
+    for (let candidate = atMost; candidate > 1; candidate--) {
+      if (dimension % candidate === 0) return candidate;
+    }
+    return 1;
+  }
+}
@@ -0,0 +1,142 @@
+import ZAI from 'z-ai-web-dev-sdk';
+import type { ChatClient } from './rag-pipeline';
+
+// Query transformations applied before retrieval. Each one produces extra
+// query variants; the pipeline retrieves for every variant and fuses the lists.
+//   paraphrase  alternative phrasings of the question
+//   decompose   simpler sub-questions for multi-part questions
+//   hyde        a hypothetical answer passage (HyDE, Gao et al. 2022), which is
+//               embedded in place of the question
+
+export type QueryTransformation = 'paraphrase' | 'decompose' | 'hyde';
+
+export const QUERY_TRANSFORMATIONS: QueryTransformation[] = ['paraphrase', 'decompose', 'hyde'];
+
+export interface QueryVariant {
+  type: 'original' | 'paraphrase' | 'sub-query' | 'hyde';
+  text: string;
+}
+
+export interface QueryTransformOptions {
+  // Maximum variants per transformation (paraphrases / sub-queries)
+  maxVariantsPerTransformation?: number;
+}
+
+export class QueryTransformer {
+  // Created with ZAI.create() on first use when not given
+  constructor(private zai: ChatClient | null = null) {}
+
+  async transform(
+    query: string,
+    transformations: QueryTransformation[],
+    options: QueryTransformOptions = {}
+  ): Promise<QueryVariant[]> {
+    const maxVariants = options.maxVariantsPerTransformation ?? 3;
+    const variants: QueryVariant[] = [{ type: 'original', text: query }];
+
+    if (transformations.length === 0) {
+      return variants;
+    }
+
+    const generated = await Promise.all(
+      Array.from(new Set(transformations)).map(transformation =>
+        this.applyTransformation(query, transformation, maxVariants)
+      )
+    );
+
+    // Drop duplicates of the original query or of each other
+    const seen = new Set([this.normalize(query)]);
+    for (const variant of generated.flat()) {
+      const key = this.normalize(variant.text);
+      if (key.length === 0 || seen.has(key)) continue;
+      seen.add(key);
+      variants.push(variant);
+    }
+
+    return variants;
+  }
+
+  private async applyTransformation(
+    query: string,
+    transformation: QueryTransformation,
+    maxVariants: number
+  ): Promise<QueryVariant[]> {
+    try {
+      const zai = await this.getClient();
+      switch (transformation) {
+        case 'paraphrase':
+          return (await this.generateLines(
+            zai,
+            `Rewrite the user's search query in ${maxVariants} different ways that keep its meaning but vary the wording, expand abbreviations and add likely synonyms.
+            Return only the rewritten queries, one per line, without numbering.`,
+            query,
+            maxVariants
+          )).map(text => ({ type: 'paraphrase' as const, text }));
+
+        case 'decompose':
+          return (await this.generateLines(
+            zai,
+            `Break the user's question into at most ${maxVariants} simpler, self-contained sub-questions that together cover everything it asks.
+            If the question is already simple, return it unchanged. Return only the sub-questions, one per line, without numbering.`,
+            query,
+            maxVariants
+          )).map(text => ({ type: 'sub-query' as const, text }));
+
+        case 'hyde': {
+          const completion = await zai.chat.completions.create({
+            messages: [
+              {
+                role: 'system',
+                content: `Write a short, factual passage (3-5 sentences) that directly answers the question, as it might appear in a reference document.
+                Do not mention that the passage is hypothetical.`
+              },
+              { role: 'user', content: query }
+            ],
+            temperature: 0.3,
+            max_tokens: 250
+          });
+
+          const passage = completion.choices[0]?.message?.content?.trim();
+          return passage ? [{ type: 'hyde', text: passage }] : [];
+        }
+
+        default:
+          throw new Error(`Unknown query transformation: ${transformation}`);
+      }
+    } catch (error) {
+      console.error(`Query transformation "${transformation}" failed:`, error);
+      return [];
+    }
+  }
+
+  private async getClient(): Promise<ChatClient> {
+    if (!this.zai) {
+      this.zai = await ZAI.create();
+    }
+    return this.zai;
+  }
+
+  private async generateLines(zai: ChatClient, systemPrompt: string, query: string, maxLines: number): Promise<string[]> {
+    const completion = await zai.chat.completions.create({
+      messages: [
+        { role: 'system', content: systemPrompt },
+        { role: 'user', content: query }
+      ],
+      temperature: 0.5,
+      max_tokens: 300
+    });
+
+    const text = completion.choices[0]?.message?.content || '';
+    return text
+      .split('\n')
+      .map(line => line.replace(/^\s*(?:[-*•]|\d+[.)])\s*/, '').trim())
+      .filter(line => line.length > 0)
+      .slice(0, maxLines);
+  }
+
+  private normalize(text: string): string {
+    return text.toLowerCase().replace(/[^\p{L}\p{N}]+/gu, ' ').trim();
+  }
+}
+
+export const queryTransformer = new QueryTransformer();
@@ -1,32 +1,154 @@
 import ZAI from 'z-ai-web-dev-sdk';
-import { vectorStore, embeddingGenerator } from './vector-store';
+import { Collection, collectionManager } from './collections';
+import { ChunkingOptions, documentChunker } from './chunker';
+import { reciprocalRankFusion } from './rank-fusion';
+import { RERANKER_TYPES, Reranker, RerankerType, createReranker } from './rerankers';
+import {
+  QUERY_TRANSFORMATIONS,
+  QueryTransformation,
+  QueryTransformer,
+  QueryVariant,
+  queryTransformer
+} from './query-transformer';
+import { streamChatCompletion } from './zai-client';
+import { AnswerRefiner, RefinementOptions, RefinementStep, answerRefiner } from './answer-refiner';
+import { CitationCheck, CitationMode, CitationVerificationResult, citationVerifier } from './citation-verifier';
+import { ConfidenceAssessment, assessConfidence } from './confidence';
+import { ContextPackingOptions, ContextReport, contextPacker } from './context-packer';
+import { nearDuplicateDetector } from './near-duplicates';
 
-interface RAGRequest {
+const RRF_K = 60;
+const MAX_RERANK_TOP_N = 50;
+const MAX_EXPAND_NEIGHBORS = 5;
+
+const NO_RESULTS_RESPONSE = 'I apologize, but I couldn\'t find any relevant information to answer your question. Please try rephrasing your query or provide more context.';
+const GENERATION_FAILED_RESPONSE = 'I found some relevant information, but encountered an issue generating a comprehensive response.';
+
+export interface RAGRequest {
   query: string;
+  // Knowledge-base collection to search; the default collection when omitted
+  collection?: string;
   filters?: Record<string, any>;
   maxResults?: number;
   includeWebSearch?: boolean;
+  includeVectorSearch?: boolean;
+  // Number of neighbouring chunks to include on each side of a matched chunk
+  expandNeighbors?: number;
+  // Overrides the pipeline's default re-ranker for this query
+  reranker?: RerankerType;
+  // Number of first-stage candidates passed to the re-ranker
+  rerankTopN?: number;
+  // Generate query variants (paraphrases, sub-queries, HyDE) and fuse their results
+  queryTransformations?: QueryTransformation[];
+  // Overrides the pipeline's critique/revise loop settings for this query
+  refinement?: RefinementOptions;
+  // 'flag' reports unsupported citations, 'remove' also strips them from the answer
+  citationMode?: CitationMode;
+  // Overrides the pipeline's context token budget settings for this query
+  contextPacking?: ContextPackingOptions;
 }
 
-interface RAGResult {
+export interface RAGSource {
+  id: string;
+  title: string;
+  url: string;
+  // Text given to the model; trimmed to the most relevant passages when the
+  // document did not fit the context budget
+  content: string;
+  // Final ranking score (the rerank score when the source was re-ranked)
+  score: number;
+  // First-stage score from fusing vector and web results by rank
+  preRerankScore: number;
+  rerankScore?: number;
+  metadata: any;
+}
+
+export interface RAGResult {
   response: string;
-  sources: Array<{
-    id: string;
-    title: string;
-    url: string;
-    content: string;
-    score: number;
-    metadata: any;
-  }>;
+  sources: RAGSource[];
   confidenceScore: number;
+  // The signals behind confidenceScore
+  confidence: ConfidenceAssessment;
   processingTime: number;
+  // Query variants used for retrieval, the original query first
+  queryVariants: QueryVariant[];
+  // Critique rounds of the refinement loop, empty when it is disabled
+  critiques: RefinementStep[];
+  // Cited documents with their support scores
+  citations: RAGCitation[];
+  // Support of each claim by each document it cites
+  citationChecks: CitationCheck[];
+  // Which documents made it into the prompt, and which were cut
+  context: ContextReport;
+}
+
+export interface RAGCitation {
+  // 1-based document number as cited in the response ([Document N])
+  index: number;
+  sourceId: string;
+  title: string;
+  url: string;
+  // Mean support of the claims citing this document, in [0, 1]
+  supportScore: number;
+  supported: boolean;
+}
+
+// Events emitted by processQueryStream, in order: stage events, the source
+// list, answer tokens, a `critique` per refinement round (with the revised
+// answer when it changed), then a final `done` payload (or `error`)
+export type RAGStreamEvent =
+  | { type: 'stage'; stage: 'retrieving' | 'ranking' | 'generating' | 'refining' }
+  | { type: 'sources'; sources: RAGSource[]; queryVariants: QueryVariant[]; context: ContextReport }
+  | { type: 'token'; text: string }
+  | { type: 'critique'; step: RefinementStep }
+  | {
+    type: 'done';
+    response: string;
+    confidenceScore: number;
+    confidence: ConfidenceAssessment;
+    citations: RAGCitation[];
+    citationChecks: CitationCheck[];
+    critiques: RefinementStep[];
+    processingTime: number;
+  }
+  | { type: 'error'; message: string };
+
+// The parts of the Z.ai client used for generation and web search
+export type ChatClient = Pick<ZAI, 'chat' | 'functions'>;
+
+export interface RAGPipelineOptions {
+  // Client for processQuery, query transformations, LLM re-ranking and answer
+  // refinement; created with ZAI.create() when omitted.
+  // Streaming always talks to the API directly.
+  client?: ChatClient;
+  reranker?: RerankerType;
+  rerankTopN?: number;
+  // Default critique/revise loop settings; refinement is off unless maxIterations > 0
+  refinement?: RefinementOptions;
+  // Default token budget for the generation context
+  contextPacking?: ContextPackingOptions;
 }
 
 export class RAGPipeline {
-  private zai: ZAI;
+  private zai: ChatClient;
+  private client?: ChatClient;
+  private queryTransformer: QueryTransformer;
+  private answerRefiner: AnswerRefiner;
+  private rerankerType: RerankerType;
+  private rerankTopN: number;
+  private rerankers: Map<RerankerType, Reranker | null> = new Map();
+  private refinement: RefinementOptions;
+  private contextPacking: ContextPackingOptions;
 
-  constructor() {
-    this.zai = null as any; // Will be initialized when needed
+  constructor(options: RAGPipelineOptions = {}) {
+    this.zai = options.client ?? null as any; // Will be initialized when needed
+    this.client = options.client;
+    this.queryTransformer = options.client ? new QueryTransformer(options.client) : queryTransformer;
+    this.answerRefiner = options.client ? new AnswerRefiner(options.client) : answerRefiner;
+    this.rerankerType = options.reranker ?? 'lexical';
+    this.rerankTopN = options.rerankTopN ?? 10;
+    this.refinement = options.refinement ?? { maxIterations: 0 };
+    this.contextPacking = options.contextPacking ?? {};
   }
 
   async initialize(): Promise<void> {
@@ -36,181 +158,519 @@ export class RAGPipeline {
   async processQuery(request: RAGRequest): Promise<RAGResult> {
     const startTime = Date.now();
     
+    try {
+      // Steps 1-5: Rewrite the query, retrieve, fuse and re-rank the candidates
+      const { queryVariants, ranked } = await this.retrieve(request);
+
+      // Step 6: Fit the most relevant passages into the context budget
+      const { sources: allResults, context } = this.packContext(request, ranked);
+
+      // Step 7: Generate response using retrieved context
+      const draft = await this.generateResponse(request.query, allResults);
+
+      // Step 8: Critique and revise the draft if refinement is enabled
+      const refined = await this.refineResponse(request, draft, allResults);
+
+      // Step 9: Check that cited documents support the claims citing them
+      const { response, citations, verification } = this.verifyCitations(refined.response, allResults, request.citationMode);
+
+      // Step 10: Assess confidence from retrieval and citation evidence
+      const confidence = this.assessConfidence(allResults, verification);
+
+      const processingTime = Date.now() - startTime;
+
+      return {
+        response,
+        sources: allResults,
+        confidenceScore: confidence.score,
+        confidence,
+        processingTime,
+        queryVariants,
+        critiques: refined.steps,
+        citations,
+        citationChecks: verification.checks,
+        context
+      };
+
+    } catch (error) {
+      console.error('RAG pipeline error:', error);
+      throw new Error('Failed to process RAG query');
+    }
+  }
+
+  // Steps 1-5 of processQuery: rewrites the query, retrieves from the vector
+  // store and the web, then fuses and re-ranks. The result is not yet packed
+  // into the context budget.
+  async retrieve(request: RAGRequest): Promise<{ queryVariants: QueryVariant[]; ranked: RAGSource[] }> {
+    if (!this.zai) {
+      await this.initialize();
+    }
+
+    // Steps 1-3: Rewrite the query, retrieve from the vector store and the web
+    const { queryVariants, vectorResults, webResults } = await this.retrieveCandidates(request);
+
+    // Steps 4-5: Fuse and re-rank the candidates
+    const ranked = await this.rankCandidates(request, vectorResults, webResults);
+
+    return { queryVariants, ranked };
+  }
+
+  // Streaming variant of processQuery: emits progress as each stage completes
+  // and forwards answer tokens as the model produces them
+  async *processQueryStream(request: RAGRequest, signal?: AbortSignal): AsyncGenerator<RAGStreamEvent> {
+    const startTime = Date.now();
+
     try {
       if (!this.zai) {
         await this.initialize();
       }
 
-      const { query, filters = {}, maxResults = 5, includeWebSearch = true } = request;
+      yield { type: 'stage', stage: 'retrieving' };
+      const { queryVariants, vectorResults, webResults } = await this.retrieveCandidates(request);
 
-      // Step 1: Generate query embedding
-      const queryEmbedding = await embeddingGenerator.generateEmbedding(query);
+      yield { type: 'stage', stage: 'ranking' };
+      const ranked = await this.rankCandidates(request, vectorResults, webResults);
+      const { sources, context } = this.packContext(request, ranked);
+      yield { type: 'sources', sources, queryVariants, context };
 
-      // Step 2: Retrieve relevant documents from vector store
-      const vectorResults = await vectorStore.similaritySearch(
-        queryEmbedding,
-        maxResults,
-        filters
-      );
+      yield { type: 'stage', stage: 'generating' };
+      let response = '';
 
-      // Step 3: Perform web search if enabled and needed
-      let webResults: any[] = [];
-      if (includeWebSearch && vectorResults.length < 3) {
+      if (sources.length === 0) {
+        response = NO_RESULTS_RESPONSE;
+        yield { type: 'token', text: response };
+      } else {
         try {
-          webResults = await this.zai.functions.invoke("web_search", {
-            query: query,
-            num: 5
-          });
+          for await (const token of streamChatCompletion(this.buildGenerationRequest(request.query, sources), signal)) {
+            response += token;
+            yield { type: 'token', text: token };
+          }
         } catch (error) {
-          console.error('Web search failed:', error);
+          if (signal?.aborted) return;
+          console.error('Streaming response generation failed:', error);
+          const fallback = response ? '\n\n' + GENERATION_FAILED_RESPONSE : GENERATION_FAILED_RESPONSE;
+          response += fallback;
+          yield { type: 'token', text: fallback };
         }
       }
 
-      // Step 4: Combine and rank all results
-      const allResults = this.combineAndRankResults(vectorResults, webResults);
-
-      // Step 5: Generate response using retrieved context
-      const response = await this.generateResponse(query, allResults);
-
-      // Step 6: Calculate confidence score
-      const confidenceScore = this.calculateConfidenceScore(allResults, response);
+      const critiques: RefinementStep[] = [];
+      const refinement = this.getRefinementOptions(request);
+      if (sources.length > 0 && !response.endsWith(GENERATION_FAILED_RESPONSE)
+        && (refinement.maxIterations ?? 0) > 0 && !signal?.aborted) {
+        yield { type: 'stage', stage: 'refining' };
+        for await (const step of this.answerRefiner.refineSteps(request.query, response, sources, refinement)) {
+          if (signal?.aborted) return;
+          critiques.push(step);
+          if (step.response) response = step.response;
+          yield { type: 'critique', step };
+        }
+      }
 
-      const processingTime = Date.now() - startTime;
+      const verified = this.verifyCitations(response, sources, request.citationMode);
+      const confidence = this.assessConfidence(sources, verified.verification);
 
-      return {
-        response,
-        sources: allResults,
-        confidenceScore,
-        processingTime
+      yield {
+        type: 'done',
+        response: verified.response,
+        confidenceScore: confidence.score,
+        confidence,
+        citations: verified.citations,
+        citationChecks: verified.verification.checks,
+        critiques,
+        processingTime: Date.now() - startTime
       };
 
     } catch (error) {
-      console.error('RAG pipeline error:', error);
-      throw new Error('Failed to process RAG query');
+      console.error('RAG stream error:', error);
+      yield { type: 'error', message: 'Failed to process RAG query' };
     }
   }
 
-  private combineAndRankResults(
-    vectorResults: any[],
-    webResults: any[]
-  ): Array<{
-    id: string;
-    title: string;
-    url: string;
-    content: string;
-    score: number;
-    metadata: any;
+  private async retrieveCandidates(request: RAGRequest): Promise<{
+    queryVariants: QueryVariant[];
+    vectorResults: any[];
+    webResults: any[];
   }> {
-    const combinedResults: any[] = [];
-
-    // Add vector results
-    vectorResults.forEach((result, index) => {
-      combinedResults.push({
-        id: result.id,
-        title: result.metadata.title,
-        url: result.metadata.url,
-        content: result.content,
-        score: result.score * 0.8, // Slightly lower weight for vector results
-        metadata: result.metadata
-      });
-    });
+    const {
+      query,
+      filters = {},
+      maxResults = 5,
+      includeWebSearch = true,
+      includeVectorSearch = true,
+      expandNeighbors = 0
+    } = request;
 
-    // Add web results
-    if (webResults && Array.isArray(webResults)) {
-      webResults.forEach((result, index) => {
-        combinedResults.push({
-          id: `web_${index}`,
-          title: result.name || `Web Source ${index + 1}`,
-          url: result.url || '',
-          content: result.snippet || '',
-          score: (1 - (result.rank || index) / 10) * 0.9,
-          metadata: {
-            source_type: 'web',
-            host_name: result.host_name,
-            date: result.date
-          }
+    const collection = await collectionManager.get(request.collection);
+
+    // Step 1: Rewrite the query into variants if requested
+    const queryVariants = await this.queryTransformer.transform(query, request.queryTransformations ?? []);
+
+    // Step 2: Retrieve the best chunk of each relevant document for every variant
+    let vectorResults: any[] = includeVectorSearch
+      ? await this.retrieveForVariants(collection, queryVariants, maxResults, filters)
+      : [];
+
+    if (expandNeighbors > 0) {
+      vectorResults = await Promise.all(vectorResults.map(async result => {
+        const expanded = await collection.store.expandChunk(result.id, expandNeighbors);
+        return expanded ? { ...expanded, score: result.score } : result;
+      }));
+    }
+
+    // Step 3: Perform web search if enabled and needed
+    let webResults: any[] = [];
+    if (includeWebSearch && vectorResults.length < 3) {
+      try {
+        webResults = await this.zai.functions.invoke("web_search", {
+          query: query,
+          num: 5
         });
-      });
+      } catch (error) {
+        console.error('Web search failed:', error);
+      }
     }
 
-    // Sort by score and return top results
-    return combinedResults
-      .sort((a, b) => b.score - a.score)
-      .slice(0, 10);
+    return { queryVariants, vectorResults, webResults };
   }
 
-  private async generateResponse(query: string, context: any[]): Promise<string> {
-    if (context.length === 0) {
-      return 'I apologize, but I couldn\'t find any relevant information to answer your question. Please try rephrasing your query or provide more context.';
+  private async rankCandidates(request: RAGRequest, vectorResults: any[], webResults: any[]): Promise<RAGSource[]> {
+    // Step 4: Combine vector and web results by rank
+    const candidates = this.combineAndRankResults(vectorResults, webResults);
+
+    // Step 5: Re-rank the top candidates against the query
+    return this.rerankResults(
+      request.query,
+      candidates,
+      request.reranker ?? this.rerankerType,
+      request.rerankTopN ?? this.rerankTopN
+    );
+  }
+
+  // Sources that did not fit are dropped, so [Document N] numbering follows the packed order
+  private packContext(request: RAGRequest, ranked: RAGSource[]): { sources: RAGSource[]; context: ContextReport } {
+    const packed = contextPacker.pack(request.query, ranked, { ...this.contextPacking, ...request.contextPacking });
+
+    return {
+      sources: packed.documents.map(document => ({ ...document.source, content: document.content })),
+      context: packed.report
+    };
+  }
+
+  private async retrieveForVariants(
+    collection: Collection,
+    variants: QueryVariant[],
+    maxResults: number,
+    filters: Record<string, any>
+  ): Promise<any[]> {
+    // Taken together so a model cutover mid-query cannot pair a vector with the wrong store
+    const { embeddingProvider, store } = collection;
+    const embeddings = await embeddingProvider.generateEmbeddings(variants.map(variant => variant.text));
+    const resultLists = await Promise.all(
+      embeddings.map(embedding => store.searchBestChunks(embedding, maxResults, filters))
+    );
+
+    if (resultLists.length === 1) {
+      return resultLists[0];
+    }
+
+    // Fuse variant lists by rank; keep each chunk's best similarity as its score
+    const bestScores = new Map<string, number>();
+    resultLists.flat().forEach(result => {
+      bestScores.set(result.id, Math.max(bestScores.get(result.id) ?? -Infinity, result.score));
+    });
+
+    return reciprocalRankFusion(
+      resultLists.map((items, index) => ({ source: `variant_${index}`, items })),
+      result => result.metadata.document_id || result.id,
+      RRF_K
+    )
+      .slice(0, maxResults)
+      .map(({ item, ranks }) => ({
+        ...item,
+        score: bestScores.get(item.id)!,
+        metadata: {
+          ...item.metadata,
+          matched_variants: Object.keys(ranks).map(source => Number(source.replace('variant_', '')))
+        }
+      }));
+  }
+
+  private combineAndRankResults(
+    vectorResults: any[],
+    webResults: any[]
+  ): RAGSource[] {
+    const vectorSources: RAGSource[] = vectorResults.map(result => ({
+      id: result.id,
+      title: result.metadata.title,
+      url: result.metadata.url,
+      content: result.content,
+      score: result.score,
+      preRerankScore: result.score,
+      metadata: { ...result.metadata, similarity: result.score }
+    }));
+
+    const webSources: RAGSource[] = (Array.isArray(webResults) ? webResults : []).map((result, index) => ({
+      id: `web_${index}`,
+      title: result.name || `Web Source ${index + 1}`,
+      url: result.url || '',
+      content: result.snippet || '',
+      score: 0,
+      preRerankScore: 0,
+      metadata: {
+        source_type: 'web',
+        host_name: result.host_name,
+        date: result.date,
+        rank: result.rank ?? index
+      }
+    }));
+
+    // Cosine similarities and web ranks are not comparable, so fuse by rank
+    const fused = reciprocalRankFusion(
+      [
+        { source: 'vector', items: vectorSources },
+        { source: 'web', items: webSources }
+      ],
+      source => source.url && source.metadata.source_type === 'web' ? source.url : source.id,
+      RRF_K
+    );
+    // Score of an item ranked first in both lists, used to scale scores to [0, 1]
+    const maxFusedScore = 2 / (RRF_K + 1);
+
+    return fused
+      .slice(0, 10)
+      .map(({ item, score }) => ({
+        ...item,
+        score: score / maxFusedScore,
+        preRerankScore: score / maxFusedScore
+      }));
+  }
+
+  private getReranker(type: RerankerType): Reranker | null {
+    if (!this.rerankers.has(type)) {
+      this.rerankers.set(type, createReranker(type, this.client));
     }
+    return this.rerankers.get(type)!;
+  }
+
+  private async rerankResults(
+    query: string,
+    candidates: RAGSource[],
+    type: RerankerType,
+    topN: number
+  ): Promise<RAGSource[]> {
+    const reranker = this.getReranker(type);
+    if (!reranker || candidates.length === 0) {
+      return candidates;
+    }
+
+    const head = candidates.slice(0, topN);
+    const tail = candidates.slice(topN);
+
+    try {
+      const scores = await reranker.rerank(query, head);
+      const reranked = head
+        .map((candidate, index) => ({
+          ...candidate,
+          score: scores[index],
+          rerankScore: scores[index],
+          metadata: { ...candidate.metadata, reranker: reranker.name }
+        }))
+        .sort((a, b) => b.score - a.score);
+
+      // Candidates outside the re-ranked window keep their first-stage order
+      return [...reranked, ...tail];
+    } catch (error) {
+      console.error('Re-ranking failed, keeping first-stage order:', error);
+      return candidates;
+    }
+  }
 
+  private buildGenerationRequest(query: string, context: RAGSource[]) {
     // Build context string
     const contextString = context.map((doc, index) => 
       `Document ${index + 1}:\nTitle: ${doc.title}\nContent: ${doc.content}\nURL: ${doc.url}\n`
     ).join('\n');
 
+    return {
+      messages: [
+        {
+          role: 'system' as const,
+          content: `You are a helpful AI assistant that provides accurate, comprehensive answers based on the provided context.
+          Use the documents to formulate your response. Always cite your sources using [Document X] notation.
+          If the information in the documents is insufficient or contradictory, acknowledge this limitation.
+          Be thorough, accurate, and provide well-structured answers.`
+        },
+        {
+          role: 'user' as const,
+          content: `Query: ${query}\n\nContext Documents:\n${contextString}\n\nPlease provide a comprehensive answer to the query based on these documents.`
+        }
+      ],
+      temperature: 0.3,
+      max_tokens: 1500
+    };
+  }
+
+  private async generateResponse(query: string, context: RAGSource[]): Promise<string> {
+    if (context.length === 0) {
+      return NO_RESULTS_RESPONSE;
+    }
+
     try {
-      const completion = await this.zai.chat.completions.create({
-        messages: [
-          {
-            role: 'system',
-            content: `You are a helpful AI assistant that provides accurate, comprehensive answers based on the provided context.
-            Use the documents to formulate your response. Always cite your sources using [Document X] notation.
-            If the information in the documents is insufficient or contradictory, acknowledge this limitation.
-            Be thorough, accurate, and provide well-structured answers.`
-          },
-          {
-            role: 'user',
-            content: `Query: ${query}\n\nContext Documents:\n${contextString}\n\nPlease provide a comprehensive answer to the query based on these documents.`
-          }
-        ],
-        temperature: 0.3,
-        max_tokens: 1500
-      });
+      const completion = await this.zai.chat.completions.create(this.buildGenerationRequest(query, context));
 
       return completion.choices[0]?.message?.content || 'Unable to generate response';
     } catch (error) {
       console.error('Response generation failed:', error);
-      return 'I found some relevant information, but encountered an issue generating a comprehensive response.';
+      return GENERATION_FAILED_RESPONSE;
     }
   }
 
-  private calculateConfidenceScore(context: any[], response: string): number {
-    let score = 0.5; // Base score
+  private getRefinementOptions(request: RAGRequest): RefinementOptions {
+    return { ...this.refinement, ...request.refinement };
+  }
 
-    // Increase score based on number of relevant sources
-    score += Math.min(0.3, context.length * 0.05);
+  private async refineResponse(
+    request: RAGRequest,
+    draft: string,
+    sources: RAGSource[]
+  ): Promise<{ response: string; steps: RefinementStep[] }> {
+    const refinement = this.getRefinementOptions(request);
+    if (sources.length === 0 || draft === GENERATION_FAILED_RESPONSE || (refinement.maxIterations ?? 0) <= 0) {
+      return { response: draft, steps: [] };
+    }
 
-    // Increase score based on average relevance score
-    const avgRelevance = context.reduce((sum, doc) => sum + doc.score, 0) / context.length;
-    score += avgRelevance * 0.2;
+    return this.answerRefiner.refine(request.query, draft, sources, refinement);
+  }
+
+  private verifyCitations(
+    response: string,
+    sources: RAGSource[],
+    mode: CitationMode = 'flag'
+  ): { response: string; citations: RAGCitation[]; verification: CitationVerificationResult } {
+    const verification = citationVerifier.verify(response, sources, { mode });
+
+    // Citations of documents that were never provided only show up in the checks
+    const citations = verification.citations
+      .filter(citation => citation.sourceIndex >= 1 && citation.sourceIndex <= sources.length)
+      .map(citation => ({
+        index: citation.sourceIndex,
+        sourceId: sources[citation.sourceIndex - 1].id,
+        title: sources[citation.sourceIndex - 1].title,
+        url: sources[citation.sourceIndex - 1].url,
+        supportScore: citation.supportScore,
+        supported: citation.supported
+      }));
+
+    return { response: verification.response, citations, verification };
+  }
 
-    // Cap the score at 0.95
-    return Math.min(0.95, score);
+  private assessConfidence(sources: RAGSource[], verification: CitationVerificationResult): ConfidenceAssessment {
+    return assessConfidence({
+      retrievalScores: sources.map(source => source.score),
+      sources,
+      verification
+    });
   }
 
   async addDocumentToStore(document: {
     id: string;
     content: string;
     metadata: any;
-  }): Promise<void> {
+  }, chunking: ChunkingOptions = {}, collectionName?: string): Promise<{ documentId: string; chunkCount: number }> {
     try {
-      const embedding = await embeddingGenerator.generateEmbedding(document.content);
-      await vectorStore.addDocument({
-        id: document.id,
-        content: document.content,
-        embedding,
-        metadata: document.metadata
-      });
+      const collection = await collectionManager.get(collectionName);
+      const chunks = documentChunker.chunk(document.id, document.content, chunking);
+      const texts = chunks.map(chunk => chunk.content);
+
+      let provider = collection.embeddingProvider;
+      let embeddings = await provider.generateEmbeddings(texts);
+      // The collection may have been cut over to a new model while embedding
+      if (provider !== collection.embeddingProvider) {
+        provider = collection.embeddingProvider;
+        embeddings = await provider.generateEmbeddings(texts);
+      }
+
+      await collection.store.addDocumentChunks(
+        document,
+        chunks.map((chunk, index) => ({
+          id: chunk.id,
+          chunkIndex: chunk.chunkIndex,
+          content: chunk.content,
+          startOffset: chunk.startOffset,
+          endOffset: chunk.endOffset,
+          heading: chunk.heading,
+          embedding: embeddings[index],
+          embeddingModel: provider.id
+        }))
+      );
+      // Fingerprinted here so every stored document can be matched by later uploads
+      await nearDuplicateDetector.record(collection, document.id, document.content);
+
+      return { documentId: document.id, chunkCount: chunks.length };
     } catch (error) {
       console.error('Failed to add document to vector store:', error);
       throw error;
     }
   }
 
-  async getStoreStats(): Promise<any> {
-    return await vectorStore.getStats();
+  async getStoreStats(collectionName?: string): Promise<any> {
+    const collection = await collectionManager.get(collectionName);
+    return await collection.store.getStats();
+  }
+}
+
+export function getPipelineOptionsFromEnv(): RAGPipelineOptions {
+  return {
+    reranker: (process.env.RAG_RERANKER as RerankerType) || 'lexical',
+    refinement: {
+      maxIterations: Number(process.env.RAG_REFINEMENT_ITERATIONS) || 0,
+      qualityThreshold: Number(process.env.RAG_REFINEMENT_THRESHOLD) || undefined
+    },
+    contextPacking: {
+      tokenBudget: Number(process.env.RAG_CONTEXT_TOKEN_BUDGET) || undefined
+    }
+  };
+}
+
+// Per-request retrieval settings as the search and chat APIs accept them
+export interface RetrievalRequestOptions {
+  query_transformations?: QueryTransformation[];
+  reranker?: RerankerType;
+  rerank_top_n?: number;
+  expand_neighbors?: number;
+}
+
+// Error message for the first invalid setting, or null
+export function validateRetrievalOptions(options: Record<string, any>): string | null {
+  const transformations = options.query_transformations;
+  if (transformations !== undefined && (!Array.isArray(transformations)
+    || !transformations.every(transformation => QUERY_TRANSFORMATIONS.includes(transformation)))) {
+    return `query_transformations must be an array of ${QUERY_TRANSFORMATIONS.join(', ')}`;
+  }
+  if (options.reranker !== undefined && !RERANKER_TYPES.includes(options.reranker)) {
+    return `reranker must be one of ${RERANKER_TYPES.join(', ')}`;
   }
+  if (options.rerank_top_n !== undefined && (!Number.isInteger(options.rerank_top_n)
+    || options.rerank_top_n < 1 || options.rerank_top_n > MAX_RERANK_TOP_N)) {
+    return `rerank_top_n must be an integer between 1 and ${MAX_RERANK_TOP_N}`;
+  }
+  if (options.expand_neighbors !== undefined && (!Number.isInteger(options.expand_neighbors)
+    || options.expand_neighbors < 0 || options.expand_neighbors > MAX_EXPAND_NEIGHBORS)) {
+    return `expand_neighbors must be an integer between 0 and ${MAX_EXPAND_NEIGHBORS}`;
+  }
+  return null;
+}
+
+export function getRetrievalOptions(
+  options: RetrievalRequestOptions
+): Pick<RAGRequest, 'queryTransformations' | 'reranker' | 'rerankTopN' | 'expandNeighbors'> {
+  return {
+    queryTransformations: options.query_transformations,
+    reranker: options.reranker,
+    rerankTopN: options.rerank_top_n,
+    expandNeighbors: options.expand_neighbors
+  };
 }
 
-export const ragPipeline = new RAGPipeline();
\ No newline at end of file
+export const ragPipeline = new RAGPipeline(getPipelineOptionsFromEnv());
\ No newline at end of file
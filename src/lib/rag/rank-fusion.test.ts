@@ -0,0 +1,45 @@
+import { describe, expect, it } from 'vitest';
+import { reciprocalRankFusion } from './rank-fusion';
+
+describe('reciprocalRankFusion', () => {
+  it('sums 1 / (k + rank) over the lists that returned an item', () => {
+    const fused = reciprocalRankFusion(
+      [
+        { source: 'vector', items: ['a', 'b', 'c'] },
+        { source: 'keyword', items: ['c', 'a'] }
+      ],
+      item => item,
+      60
+    );
+
+    expect(fused.map(result => result.item)).toEqual(['a', 'c', 'b']);
+    expect(fused[0].score).toBeCloseTo(1 / 61 + 1 / 62, 12);
+    expect(fused[0].ranks).toEqual({ vector: 1, keyword: 2 });
+    expect(fused[2].ranks).toEqual({ vector: 2 });
+  });
+
+  it('weights lists and ignores lists with no weight', () => {
+    const fused = reciprocalRankFusion(
+      [
+        { source: 'vector', items: ['a'] },
+        { source: 'keyword', items: ['b'], weight: 2 },
+        { source: 'web', items: ['c'], weight: 0 }
+      ],
+      item => item
+    );
+
+    expect(fused.map(result => result.item)).toEqual(['b', 'a']);
+  });
+
+  it('merges items by key and keeps the first rank a source gave them', () => {
+    const fused = reciprocalRankFusion(
+      [{ source: 'vector', items: [{ id: 'x', chunk: 1 }, { id: 'x', chunk: 2 }] }],
+      item => item.id
+    );
+
+    expect(fused).toHaveLength(1);
+    expect(fused[0].item.chunk).toBe(1);
+    expect(fused[0].ranks).toEqual({ vector: 1 });
+    expect(fused[0].score).toBeCloseTo(1 / 61 + 1 / 62, 12);
+  });
+});
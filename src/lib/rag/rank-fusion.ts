@@ -0,0 +1,46 @@
+// Reciprocal-rank fusion (Cormack et al., 2009). Each source contributes
+// weight / (k + rank) for every item it returned, so lists with incomparable
+// score scales (cosine, BM25, search-engine rank) can be merged by rank alone.
+
+export interface RankedList<T> {
+  source: string;
+  items: T[];
+  weight?: number;
+}
+
+export interface FusedItem<T> {
+  item: T;
+  score: number;
+  // 1-based rank of the item in each source that returned it
+  ranks: Record<string, number>;
+}
+
+export function reciprocalRankFusion<T>(
+  lists: RankedList<T>[],
+  getKey: (item: T) => string,
+  k: number = 60
+): FusedItem<T>[] {
+  const fused = new Map<string, FusedItem<T>>();
+
+  for (const list of lists) {
+    const weight = list.weight ?? 1;
+    if (weight <= 0) continue;
+
+    list.items.forEach((item, index) => {
+      const key = getKey(item);
+      const rank = index + 1;
+      const existing = fused.get(key);
+
+      if (existing) {
+        existing.score += weight / (k + rank);
+        if (!(list.source in existing.ranks)) {
+          existing.ranks[list.source] = rank;
+        }
+      } else {
+        fused.set(key, { item, score: weight / (k + rank), ranks: { [list.source]: rank } });
+      }
+    });
+  }
+
+  return Array.from(fused.values()).sort((a, b) => b.score - a.score);
+}
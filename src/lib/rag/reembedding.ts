@@ -0,0 +1,299 @@
+import { ChunkSource, VectorStore } from './vector-store';
+import { Collection, CollectionError, ResolvedEmbedding, collectionManager } from './collections';
+import { EmbeddingProviderConfig } from './embeddings';
+
+// Background migration of a collection to a new embedding model. Vectors for
+// the new model are built in a separate store while the current store keeps
+// serving queries and writes. Documents written in the meantime are picked up
+// by catch-up passes; once a pass finds nothing left to copy and no write is
+// in flight, the collection is switched to the new store in one step and the
+// old model's vectors are deleted.
+
+export type ReembeddingStatus = 'pending' | 'running' | 'completed' | 'failed' | 'cancelled';
+
+export interface ReembeddingJob {
+  id: string;
+  collection: string;
+  status: ReembeddingStatus;
+  from: { model: string; dimension: number };
+  to: { model: string; dimension: number };
+  progress: {
+    totalDocuments: number;
+    processedDocuments: number;
+    totalChunks: number;
+    processedChunks: number;
+    // Passes over documents written after the job started
+    catchUpPasses: number;
+  };
+  startTime?: string;
+  endTime?: string;
+  error?: string;
+}
+
+export interface ReembeddingOptions {
+  // Chunks sent to the embedding provider per request
+  batchSize?: number;
+}
+
+const DEFAULT_BATCH_SIZE = 32;
+const MAX_CATCH_UP_PASSES = 10;
+const MAX_DOCUMENT_ATTEMPTS = 2;
+// Wait before re-checking a collection that still has writes in flight
+const SETTLE_DELAY_MS = 200;
+
+class JobStoppedError extends Error {}
+
+export class ReembeddingManager {
+  private jobs: Map<string, ReembeddingJob> = new Map();
+
+  async start(
+    collectionName: string,
+    embedding: Omit<EmbeddingProviderConfig, 'apiKey'>,
+    options: ReembeddingOptions = {}
+  ): Promise<ReembeddingJob> {
+    const collection = await collectionManager.get(collectionName);
+
+    const active = this.listJobs(collectionName).find(job => job.status === 'pending' || job.status === 'running');
+    if (active) {
+      throw new CollectionError(`Collection "${collectionName}" is already being re-embedded (job ${active.id})`, 'conflict');
+    }
+
+    const target = collectionManager.resolveEmbedding(embedding);
+    const batchSize = Math.max(1, Math.floor(options.batchSize ?? DEFAULT_BATCH_SIZE));
+
+    const job: ReembeddingJob = {
+      id: `reembed_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      collection: collectionName,
+      status: 'pending',
+      from: collection.store.getModel(),
+      to: { model: target.provider.id, dimension: target.provider.dimension },
+      progress: {
+        totalDocuments: 0,
+        processedDocuments: 0,
+        totalChunks: 0,
+        processedChunks: 0,
+        catchUpPasses: 0
+      }
+    };
+
+    this.jobs.set(job.id, job);
+
+    // Run in background
+    this.execute(job, collection, target, batchSize).catch(error => {
+      console.error(`Re-embedding job ${job.id} failed:`, error);
+    });
+
+    return job;
+  }
+
+  getJob(jobId: string): ReembeddingJob | undefined {
+    return this.jobs.get(jobId);
+  }
+
+  // Most recent first
+  listJobs(collectionName?: string): ReembeddingJob[] {
+    return Array.from(this.jobs.values())
+      .filter(job => !collectionName || job.collection === collectionName)
+      .reverse();
+  }
+
+  cancel(jobId: string): boolean {
+    const job = this.jobs.get(jobId);
+    if (job && (job.status === 'pending' || job.status === 'running')) {
+      job.status = 'cancelled';
+      job.error = 'Re-embedding cancelled by user';
+      job.endTime = new Date().toISOString();
+      return true;
+    }
+    return false;
+  }
+
+  private async execute(
+    job: ReembeddingJob,
+    collection: Collection,
+    target: ResolvedEmbedding,
+    batchSize: number
+  ): Promise<void> {
+    const source = collection.store;
+    const shadow = new VectorStore({
+      collection: collection.config.name,
+      model: target.provider.id,
+      dimension: target.provider.dimension,
+      persist: source.isPersistent(),
+      adoptUntagged: false,
+      quantization: source.getQuantization()
+    });
+    // Source revision each document had when it was copied
+    const synced = new Map<string, number>();
+
+    job.status = 'running';
+    job.startTime = new Date().toISOString();
+
+    try {
+      for (let pass = 0; ; pass++) {
+        const { revision } = source.getWriteState();
+        const copied = await this.copyChangedDocuments(job, collection, source, shadow, target, synced, batchSize);
+        this.assertRunning(job, collection);
+
+        const state = source.getWriteState();
+        if (copied === 0 && state.revision === revision && state.pendingWrites === 0) {
+          // Nothing awaited between the check above and the swap, so no write can slip in
+          break;
+        }
+        if (pass >= MAX_CATCH_UP_PASSES) {
+          throw new Error(`Collection "${collection.config.name}" kept changing during ${MAX_CATCH_UP_PASSES} catch-up passes`);
+        }
+
+        job.progress.catchUpPasses = pass + 1;
+        if (copied === 0) await this.sleep(SETTLE_DELAY_MS);
+      }
+
+      await collectionManager.switchEmbedding(collection, target, shadow);
+      const removed = await shadow.purgeOtherEmbeddings();
+
+      job.status = 'completed';
+      job.endTime = new Date().toISOString();
+      console.log(
+        `Collection "${collection.config.name}" switched from ${job.from.model} to ${job.to.model}; removed ${removed} old vectors`
+      );
+    } catch (error) {
+      if (!(error instanceof JobStoppedError)) {
+        job.status = 'failed';
+        job.error = error instanceof Error ? error.message : String(error);
+        job.endTime = new Date().toISOString();
+      }
+
+      // The current store still relies on its own vectors when the model is unchanged
+      if (job.to.model !== job.from.model) {
+        await shadow.purgeEmbeddings().catch(purgeError => {
+          console.error(`Failed to remove vectors of abandoned re-embedding job ${job.id}:`, purgeError);
+        });
+      }
+      if (job.status === 'failed') throw error;
+    }
+  }
+
+  // Copies every document whose source revision differs from the copied one
+  // and drops documents deleted from the source. Returns the number of changes.
+  private async copyChangedDocuments(
+    job: ReembeddingJob,
+    collection: Collection,
+    source: VectorStore,
+    shadow: VectorStore,
+    target: ResolvedEmbedding,
+    synced: Map<string, number>,
+    batchSize: number
+  ): Promise<number> {
+    const parents = await source.getParentDocuments();
+    const liveIds = new Set(parents.map(parent => parent.id));
+    let changes = 0;
+
+    for (const documentId of Array.from(synced.keys())) {
+      if (!liveIds.has(documentId)) {
+        shadow.forgetDocument(documentId);
+        synced.delete(documentId);
+        changes++;
+      }
+    }
+
+    const pending = parents.filter(parent => synced.get(parent.id) !== source.getDocumentRevision(parent.id));
+    job.progress.totalDocuments = job.progress.processedDocuments + pending.length;
+    job.progress.totalChunks = job.progress.processedChunks +
+      pending.reduce((sum, parent) => sum + parent.chunkIds.length, 0);
+
+    for (const parent of pending) {
+      this.assertRunning(job, collection);
+
+      const revision = source.getDocumentRevision(parent.id);
+      const chunkCount = await this.copyDocument(parent.id, source, shadow, target, batchSize);
+      if (chunkCount === undefined) continue;
+
+      synced.set(parent.id, revision);
+      job.progress.processedDocuments++;
+      job.progress.processedChunks += chunkCount;
+      changes++;
+    }
+
+    return changes;
+  }
+
+  // Returns the number of chunks copied, or undefined if the document was deleted meanwhile
+  private async copyDocument(
+    documentId: string,
+    source: VectorStore,
+    shadow: VectorStore,
+    target: ResolvedEmbedding,
+    batchSize: number
+  ): Promise<number | undefined> {
+    for (let attempt = 1; ; attempt++) {
+      const parent = await source.getParentDocument(documentId);
+      if (!parent) return undefined;
+
+      try {
+        const chunks = await source.getChunkSources(documentId);
+        const embeddings = await this.embed(chunks, target, batchSize);
+
+        await shadow.addEmbeddings(
+          { id: parent.id, content: parent.content, metadata: parent.metadata },
+          chunks.map((chunk, index) => ({ ...chunk, embedding: embeddings[index], embeddingModel: target.provider.id }))
+        );
+        return chunks.length;
+      } catch (error) {
+        // A concurrent rewrite can remove chunks while they are copied; reading them again resolves that
+        if (attempt >= MAX_DOCUMENT_ATTEMPTS) {
+          throw new Error(`Failed to re-embed document ${documentId}: ${error instanceof Error ? error.message : String(error)}`);
+        }
+      }
+    }
+  }
+
+  private async embed(chunks: ChunkSource[], target: ResolvedEmbedding, batchSize: number): Promise<number[][]> {
+    const embeddings: number[][] = [];
+    for (let i = 0; i < chunks.length; i += batchSize) {
+      const batch = chunks.slice(i, i + batchSize).map(chunk => chunk.content);
+      embeddings.push(...await target.provider.generateEmbeddings(batch));
+    }
+    return embeddings;
+  }
+
+  private assertRunning(job: ReembeddingJob, collection: Collection): void {
+    if (job.status === 'cancelled') {
+      throw new JobStoppedError();
+    }
+    if (!collectionManager.isCurrent(collection)) {
+      throw new Error(`Collection "${collection.config.name}" was dropped`);
+    }
+  }
+
+  private sleep(ms: number): Promise<void> {
+    return new Promise(resolve => setTimeout(resolve, ms));
+  }
+}
+
+// API representation of a re-embedding job
+export function describeJob(job: ReembeddingJob) {
+  const { progress } = job;
+
+  return {
+    id: job.id,
+    collection: job.collection,
+    status: job.status,
+    from: job.from,
+    to: job.to,
+    progress: {
+      total_documents: progress.totalDocuments,
+      processed_documents: progress.processedDocuments,
+      total_chunks: progress.totalChunks,
+      processed_chunks: progress.processedChunks,
+      catch_up_passes: progress.catchUpPasses,
+      percent: progress.totalChunks > 0
+        ? Math.round((progress.processedChunks / progress.totalChunks) * 100)
+        : job.status === 'completed' ? 100 : 0
+    },
+    start_time: job.startTime ?? null,
+    end_time: job.endTime ?? null,
+    error: job.error ?? null
+  };
+}
+
+export const reembeddingManager = new ReembeddingManager();
@@ -0,0 +1,159 @@
+import ZAI from 'z-ai-web-dev-sdk';
+import type { ChatClient } from './rag-pipeline';
+import { tokenize } from './embeddings';
+
+// Second-stage re-rankers. They rescore a short list of retrieved candidates
+// against the query; scores are in [0, 1] and aligned with the input order.
+
+export interface RerankCandidate {
+  id: string;
+  title: string;
+  content: string;
+}
+
+export interface Reranker {
+  readonly name: string;
+  rerank(query: string, candidates: RerankCandidate[]): Promise<number[]>;
+}
+
+export type RerankerType = 'llm' | 'lexical' | 'none';
+
+export const RERANKER_TYPES: RerankerType[] = ['llm', 'lexical', 'none'];
+
+/**
+ * Local re-ranker based on query-term coverage, ordered bigram matches and
+ * title matches. Cheap and deterministic, so it is the default.
+ */
+export class LexicalOverlapReranker implements Reranker {
+  readonly name = 'lexical';
+
+  async rerank(query: string, candidates: RerankCandidate[]): Promise<number[]> {
+    const queryTerms = Array.from(new Set(tokenize(query)));
+    if (queryTerms.length === 0) {
+      return candidates.map(() => 0);
+    }
+
+    const queryBigrams = this.bigrams(tokenize(query));
+
+    return candidates.map(candidate => {
+      const contentTokens = tokenize(candidate.content);
+      const contentTerms = new Set(contentTokens);
+      const titleTerms = new Set(tokenize(candidate.title || ''));
+
+      const coverage = queryTerms.filter(term => contentTerms.has(term)).length / queryTerms.length;
+      const titleCoverage = queryTerms.filter(term => titleTerms.has(term)).length / queryTerms.length;
+
+      let bigramCoverage = 0;
+      if (queryBigrams.size > 0) {
+        const contentBigrams = this.bigrams(contentTokens);
+        bigramCoverage = Array.from(queryBigrams).filter(bigram => contentBigrams.has(bigram)).length / queryBigrams.size;
+      }
+
+      // Density rewards passages where matches are not diluted by unrelated text
+      const matches = contentTokens.filter(token => queryTerms.includes(token)).length;
+      const density = contentTokens.length > 0 ? Math.min(1, (matches / contentTokens.length) * 5) : 0;
+
+      return 0.5 * coverage + 0.2 * bigramCoverage + 0.15 * titleCoverage + 0.15 * density;
+    });
+  }
+
+  private bigrams(tokens: string[]): Set<string> {
+    const bigrams = new Set<string>();
+    for (let i = 1; i < tokens.length; i++) {
+      bigrams.add(`${tokens[i - 1]} ${tokens[i]}`);
+    }
+    return bigrams;
+  }
+}
+
+/**
+ * Asks the LLM to judge how well each passage answers the query. Falls back
+ * to the lexical re-ranker if the call fails or the reply cannot be parsed.
+ */
+export class LLMReranker implements Reranker {
+  readonly name = 'llm';
+  private zai: ChatClient | null;
+  private fallback = new LexicalOverlapReranker();
+  private maxPassageLength: number;
+
+  // The client is created with ZAI.create() on first use when not given
+  constructor(options: { maxPassageLength?: number; client?: ChatClient } = {}) {
+    this.maxPassageLength = options.maxPassageLength ?? 800;
+    this.zai = options.client ?? null;
+  }
+
+  async rerank(query: string, candidates: RerankCandidate[]): Promise<number[]> {
+    if (candidates.length === 0) return [];
+
+    try {
+      if (!this.zai) {
+        this.zai = await ZAI.create();
+      }
+
+      const passages = candidates.map((candidate, index) =>
+        `[${index}] ${candidate.title}\n${candidate.content.substring(0, this.maxPassageLength)}`
+      ).join('\n\n');
+
+      const completion = await this.zai.chat.completions.create({
+        messages: [
+          {
+            role: 'system',
+            content: `You are a search relevance judge. Rate how well each passage answers the query on a scale from 0 (irrelevant) to 10 (fully answers it).
+            Respond with only a JSON array of objects like [{"index": 0, "score": 7}], one entry per passage.`
+          },
+          {
+            role: 'user',
+            content: `Query: ${query}\n\nPassages:\n${passages}`
+          }
+        ],
+        temperature: 0,
+        max_tokens: 50 + candidates.length * 20
+      });
+
+      const scores = this.parseScores(completion.choices[0]?.message?.content || '', candidates.length);
+      if (scores) return scores;
+
+      console.error('LLM re-ranker returned an unparseable response, using lexical scores');
+    } catch (error) {
+      console.error('LLM re-ranking failed, using lexical scores:', error);
+    }
+
+    return this.fallback.rerank(query, candidates);
+  }
+
+  private parseScores(text: string, count: number): number[] | null {
+    const match = text.match(/\[[\s\S]*\]/);
+    if (!match) return null;
+
+    try {
+      const parsed = JSON.parse(match[0]);
+      if (!Array.isArray(parsed)) return null;
+
+      const scores: Array<number | undefined> = new Array(count).fill(undefined);
+      for (const entry of parsed) {
+        const index = Number(entry?.index);
+        const score = Number(entry?.score);
+        if (Number.isInteger(index) && index >= 0 && index < count && Number.isFinite(score)) {
+          scores[index] = Math.max(0, Math.min(10, score)) / 10;
+        }
+      }
+
+      return scores.every(score => score !== undefined) ? scores as number[] : null;
+    } catch {
+      return null;
+    }
+  }
+}
+
+export function createReranker(type: RerankerType, client?: ChatClient): Reranker | null {
+  switch (type) {
+    case 'llm':
+      return new LLMReranker({ client });
+    case 'lexical':
+      return new LexicalOverlapReranker();
+    case 'none':
+      return null;
+    default:
+      throw new Error(`Unknown reranker: ${type}`);
+  }
+}
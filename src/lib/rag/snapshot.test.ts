@@ -0,0 +1,122 @@
+import { describe, expect, it } from 'vitest';
+import { Collection } from './collections';
+import { HashingEmbeddingProvider } from './embeddings';
+import { Snapshot, SnapshotError, SnapshotFormat, SnapshotService } from './snapshot';
+import { VectorStore } from './vector-store';
+
+const service = new SnapshotService();
+
+function createCollection(name: string, dimension: number = 16): Collection {
+  const provider = new HashingEmbeddingProvider(dimension);
+  return {
+    config: {
+      name,
+      description: name,
+      embedding: { type: 'local', dimension },
+      createdAt: new Date().toISOString()
+    },
+    store: new VectorStore({ collection: name, model: provider.id, dimension, persist: false }),
+    embeddingProvider: provider
+  };
+}
+
+async function addDocument(collection: Collection, id: string, paragraphs: string[]): Promise<void> {
+  const embeddings = await collection.embeddingProvider.generateEmbeddings(paragraphs);
+  let offset = 0;
+  await collection.store.addDocumentChunks(
+    { id, content: paragraphs.join('\n\n'), metadata: { title: id } },
+    paragraphs.map((content, index) => {
+      const startOffset = offset;
+      offset += content.length + 2;
+      return {
+        id: `${id}_chunk_${index}`,
+        chunkIndex: index,
+        content,
+        startOffset,
+        endOffset: startOffset + content.length,
+        embedding: embeddings[index],
+        embeddingModel: collection.embeddingProvider.id
+      };
+    })
+  );
+}
+
+async function exportSample(): Promise<Snapshot> {
+  const source = createCollection('source');
+  await addDocument(source, 'doc_a', ['Snapshots hold documents and chunks.', 'Vectors travel with them.']);
+  await addDocument(source, 'doc_b', ['A second document with a single chunk.']);
+  return service.export(source);
+}
+
+describe('SnapshotService', () => {
+  it.each<SnapshotFormat>(['jsonl', 'binary'])('round-trips a collection in %s format', async format => {
+    const snapshot = await exportSample();
+    expect(snapshot.header).toMatchObject({ collection: 'source', dimension: 16, document_count: 2, chunk_count: 3 });
+
+    const parsed = service.parse(service.serialize(snapshot, format));
+    expect(parsed.header).toEqual(snapshot.header);
+    expect(parsed.documents.map(document => document.id).sort()).toEqual(['doc_a', 'doc_b']);
+
+    const original = snapshot.documents.find(document => document.id === 'doc_a')!;
+    const restored = parsed.documents.find(document => document.id === 'doc_a')!;
+    expect(restored.chunks.map(({ embedding: _embedding, ...chunk }) => chunk))
+      .toEqual(original.chunks.map(({ embedding: _embedding, ...chunk }) => chunk));
+    restored.chunks[1].embedding.forEach((value, i) => expect(value).toBeCloseTo(original.chunks[1].embedding[i], 6));
+  });
+
+  it.each<SnapshotFormat>(['jsonl', 'binary'])('rejects a tampered %s snapshot', async format => {
+    const data = service.serialize(await exportSample(), format);
+    const index = data.indexOf('second');
+    data[index] = 'S'.charCodeAt(0);
+
+    expect(() => service.parse(data)).toThrow('checksum does not match');
+  });
+
+  it('rejects chunks with missing or inconsistent fields', async () => {
+    const cases: Array<Record<string, unknown>> = [
+      { id: 42 },
+      { chunk_index: -1 },
+      { chunk_index: 1.5 },
+      { start_offset: 10, end_offset: 5 },
+      { heading: ['Intro'] },
+      { embedding: [1, 2, 3] }
+    ];
+
+    for (const change of cases) {
+      const snapshot = await exportSample();
+      Object.assign(snapshot.documents[0].chunks[0], change);
+      expect(() => service.parse(service.serialize(snapshot, 'jsonl'))).toThrow(SnapshotError);
+    }
+  });
+
+  it('rejects duplicate chunk ids', async () => {
+    const snapshot = await exportSample();
+    snapshot.documents[1].chunks[0].id = snapshot.documents[0].chunks[0].id;
+
+    expect(() => service.parse(service.serialize(snapshot, 'binary'))).toThrow('appears more than once');
+  });
+
+  it('merges into or replaces the target collection', async () => {
+    const snapshot = await exportSample();
+    const target = createCollection('target');
+    await addDocument(target, 'doc_local', ['Only in the target collection.']);
+
+    const merged = await service.import(target, snapshot, 'merge');
+    expect(merged).toMatchObject({ documents_imported: 2, chunks_imported: 3, documents_removed: 0, failed: [] });
+    expect((await target.store.getParentDocuments()).map(document => document.id).sort())
+      .toEqual(['doc_a', 'doc_b', 'doc_local']);
+
+    const replaced = await service.import(target, snapshot, 'replace');
+    expect(replaced).toMatchObject({ documents_imported: 2, documents_removed: 3 });
+    expect((await target.store.getParentDocuments()).map(document => document.id).sort()).toEqual(['doc_a', 'doc_b']);
+  });
+
+  it('refuses vectors from another model before touching the collection', async () => {
+    const snapshot = await exportSample();
+    const target = createCollection('other_model', 32);
+    await addDocument(target, 'doc_local', ['Kept after the failed import.']);
+
+    await expect(service.import(target, snapshot, 'replace')).rejects.toThrow(SnapshotError);
+    expect((await target.store.getParentDocuments()).map(document => document.id)).toEqual(['doc_local']);
+  });
+});
@@ -0,0 +1,391 @@
+import { createHash } from 'crypto';
+import { Collection } from './collections';
+import { nearDuplicateDetector } from './near-duplicates';
+
+// Snapshot export and import of a knowledge-base collection: documents,
+// chunks, metadata and embeddings. Two formats are supported:
+//
+//   jsonl   one header line, one line per document with its chunks and
+//           vectors, and a footer line holding the SHA-256 of every byte
+//           before it
+//   binary  "KBSNAP" magic, version and reserved byte, a uint32 (LE) length,
+//           a JSON manifest of documents and chunks without vectors, all
+//           vectors as Float32 LE in manifest order, then the SHA-256 of
+//           every byte before it
+//
+// Records use the same snake_case naming as the HTTP API.
+
+export type SnapshotFormat = 'jsonl' | 'binary';
+export type SnapshotImportMode = 'merge' | 'replace';
+
+export interface SnapshotHeader {
+  version: number;
+  collection: string;
+  // Embedding model id and dimension of every vector in the snapshot
+  model: string;
+  dimension: number;
+  created_at: string;
+  document_count: number;
+  chunk_count: number;
+}
+
+export interface SnapshotChunk {
+  id: string;
+  chunk_index: number;
+  content: string;
+  start_offset: number;
+  end_offset: number;
+  heading?: string;
+  embedding: number[];
+}
+
+export interface SnapshotDocument {
+  id: string;
+  content: string;
+  metadata: Record<string, any>;
+  chunks: SnapshotChunk[];
+}
+
+export interface Snapshot {
+  header: SnapshotHeader;
+  documents: SnapshotDocument[];
+}
+
+export interface SnapshotImportResult {
+  mode: SnapshotImportMode;
+  documents_imported: number;
+  chunks_imported: number;
+  // Documents removed from the collection before a replace import
+  documents_removed: number;
+  failed: Array<{ id: string; error: string }>;
+}
+
+export class SnapshotError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SnapshotError';
+  }
+}
+
+const SNAPSHOT_VERSION = 1;
+const BINARY_MAGIC = 'KBSNAP';
+const BINARY_PREFIX_LENGTH = 12;
+const CHECKSUM_LENGTH = 32;
+
+export class SnapshotService {
+  async export(collection: Collection): Promise<Snapshot> {
+    const { store } = collection;
+    const { model, dimension } = store.getModel();
+    const documents: SnapshotDocument[] = [];
+
+    for (const parent of await store.getParentDocuments()) {
+      const stored = await store.getParentDocument(parent.id);
+      if (!stored) continue;
+      const embeddings = await store.getEmbeddings(stored.chunks.map(chunk => chunk.id));
+
+      documents.push({
+        id: stored.id,
+        content: stored.content,
+        metadata: stored.metadata,
+        // Chunks without a vector for the current model cannot be restored and are left out
+        chunks: stored.chunks.filter(chunk => embeddings.has(chunk.id)).map(chunk => ({
+          id: chunk.id,
+          chunk_index: chunk.metadata.chunk_index ?? 0,
+          content: chunk.content,
+          start_offset: chunk.metadata.start_offset ?? 0,
+          end_offset: chunk.metadata.end_offset ?? chunk.content.length,
+          ...(chunk.metadata.heading ? { heading: chunk.metadata.heading } : {}),
+          embedding: embeddings.get(chunk.id)!
+        }))
+      });
+    }
+
+    return {
+      header: {
+        version: SNAPSHOT_VERSION,
+        collection: collection.config.name,
+        model,
+        dimension,
+        created_at: new Date().toISOString(),
+        document_count: documents.length,
+        chunk_count: documents.reduce((sum, document) => sum + document.chunks.length, 0)
+      },
+      documents
+    };
+  }
+
+  serialize(snapshot: Snapshot, format: SnapshotFormat): Buffer {
+    return format === 'binary' ? this.serializeBinary(snapshot) : this.serializeJsonl(snapshot);
+  }
+
+  // Detects the format, verifies the checksum and checks the snapshot is internally consistent
+  parse(data: Buffer): Snapshot {
+    const snapshot = data.subarray(0, BINARY_MAGIC.length).toString('utf8') === BINARY_MAGIC
+      ? this.parseBinary(data)
+      : this.parseJsonl(data);
+
+    this.validate(snapshot);
+    return snapshot;
+  }
+
+  async import(collection: Collection, snapshot: Snapshot, mode: SnapshotImportMode): Promise<SnapshotImportResult> {
+    const { store } = collection;
+    const { model, dimension } = store.getModel();
+
+    // Vectors are stored as they are, so they must come from the collection's model
+    if (snapshot.header.model !== model || snapshot.header.dimension !== dimension) {
+      throw new SnapshotError(
+        `Snapshot vectors come from ${snapshot.header.model} (dimension ${snapshot.header.dimension}), ` +
+        `but collection "${collection.config.name}" uses ${model} (dimension ${dimension}); ` +
+        'import into a collection with the same model and re-embed it instead'
+      );
+    }
+
+    const result: SnapshotImportResult = {
+      mode,
+      documents_imported: 0,
+      chunks_imported: 0,
+      documents_removed: 0,
+      failed: []
+    };
+
+    if (mode === 'replace') {
+      // Every check that can fail runs before the collection is cleared;
+      // parse() has already validated the snapshot itself
+      const foreign = await store.findForeignDocuments(snapshot.documents.map(document => document.id));
+      if (foreign.length > 0) {
+        throw new SnapshotError(
+          `Documents ${foreign.slice(0, 5).join(', ')}${foreign.length > 5 ? ', ...' : ''} already exist in another collection`
+        );
+      }
+
+      result.documents_removed = (await store.getStats()).totalDocuments;
+      await store.clear();
+    }
+
+    for (const document of snapshot.documents) {
+      try {
+        // Replaces an existing document with the same id
+        await store.addDocumentChunks(
+          { id: document.id, content: document.content, metadata: document.metadata },
+          document.chunks.map(chunk => ({
+            id: chunk.id,
+            chunkIndex: chunk.chunk_index,
+            content: chunk.content,
+            startOffset: chunk.start_offset,
+            endOffset: chunk.end_offset,
+            heading: chunk.heading,
+            embedding: chunk.embedding,
+            embeddingModel: snapshot.header.model
+          }))
+        );
+        await nearDuplicateDetector.record(collection, document.id, document.content);
+        result.documents_imported++;
+        result.chunks_imported += document.chunks.length;
+      } catch (error) {
+        console.error(`Failed to import document ${document.id}:`, error);
+        result.failed.push({ id: document.id, error: error instanceof Error ? error.message : String(error) });
+      }
+    }
+
+    return result;
+  }
+
+  private serializeJsonl(snapshot: Snapshot): Buffer {
+    const lines = [
+      JSON.stringify({ type: 'header', ...snapshot.header }),
+      ...snapshot.documents.map(document => JSON.stringify({ type: 'document', ...document }))
+    ];
+    const body = lines.join('\n') + '\n';
+    const footer = JSON.stringify({ type: 'footer', checksum: this.checksum(Buffer.from(body, 'utf8')).toString('hex') });
+
+    return Buffer.from(body + footer + '\n', 'utf8');
+  }
+
+  private parseJsonl(data: Buffer): Snapshot {
+    const text = data.toString('utf8').replace(/\n+$/, '');
+    const footerStart = text.lastIndexOf('\n') + 1;
+    if (footerStart === 0) {
+      throw new SnapshotError('Snapshot is empty or truncated');
+    }
+
+    const footer = this.parseLine(text.slice(footerStart), 'footer');
+    const body = Buffer.from(text.slice(0, footerStart), 'utf8');
+    if (footer.checksum !== this.checksum(body).toString('hex')) {
+      throw new SnapshotError('Snapshot checksum does not match its contents');
+    }
+
+    const [headerLine, ...documentLines] = text.slice(0, footerStart - 1).split('\n');
+    const { type: _type, ...header } = this.parseLine(headerLine, 'header');
+
+    return {
+      header: header as SnapshotHeader,
+      documents: documentLines.map(line => {
+        const { type: _documentType, ...document } = this.parseLine(line, 'document');
+        return document as SnapshotDocument;
+      })
+    };
+  }
+
+  private parseLine(line: string, type: 'header' | 'document' | 'footer'): Record<string, any> {
+    let record: any;
+    try {
+      record = JSON.parse(line);
+    } catch {
+      throw new SnapshotError(`Snapshot contains a malformed ${type} line`);
+    }
+    if (!record || record.type !== type) {
+      throw new SnapshotError(`Expected a ${type} line in snapshot`);
+    }
+    return record;
+  }
+
+  private serializeBinary(snapshot: Snapshot): Buffer {
+    const { dimension } = snapshot.header;
+    const manifest = Buffer.from(JSON.stringify({
+      header: snapshot.header,
+      documents: snapshot.documents.map(document => ({
+        ...document,
+        chunks: document.chunks.map(({ embedding: _embedding, ...chunk }) => chunk)
+      }))
+    }), 'utf8');
+
+    const prefix = Buffer.alloc(BINARY_PREFIX_LENGTH);
+    prefix.write(BINARY_MAGIC, 0, 'utf8');
+    prefix.writeUInt8(SNAPSHOT_VERSION, BINARY_MAGIC.length);
+    prefix.writeUInt32LE(manifest.length, BINARY_MAGIC.length + 2);
+
+    const vectors = Buffer.alloc(snapshot.header.chunk_count * dimension * 4);
+    let offset = 0;
+    for (const document of snapshot.documents) {
+      for (const chunk of document.chunks) {
+        for (let i = 0; i < dimension; i++) {
+          offset = vectors.writeFloatLE(chunk.embedding[i], offset);
+        }
+      }
+    }
+
+    const body = Buffer.concat([prefix, manifest, vectors]);
+    return Buffer.concat([body, this.checksum(body)]);
+  }
+
+  private parseBinary(data: Buffer): Snapshot {
+    if (data.length < BINARY_PREFIX_LENGTH + CHECKSUM_LENGTH) {
+      throw new SnapshotError('Snapshot is truncated');
+    }
+
+    const body = data.subarray(0, data.length - CHECKSUM_LENGTH);
+    if (!this.checksum(body).equals(data.subarray(data.length - CHECKSUM_LENGTH))) {
+      throw new SnapshotError('Snapshot checksum does not match its contents');
+    }
+
+    const version = body.readUInt8(BINARY_MAGIC.length);
+    if (version !== SNAPSHOT_VERSION) {
+      throw new SnapshotError(`Unsupported snapshot version ${version}`);
+    }
+
+    const manifestLength = body.readUInt32LE(BINARY_MAGIC.length + 2);
+    const manifestEnd = BINARY_PREFIX_LENGTH + manifestLength;
+    let manifest: { header: SnapshotHeader; documents: Array<Omit<SnapshotDocument, 'chunks'> & { chunks: Omit<SnapshotChunk, 'embedding'>[] }> };
+    try {
+      manifest = JSON.parse(body.subarray(BINARY_PREFIX_LENGTH, manifestEnd).toString('utf8'));
+    } catch {
+      throw new SnapshotError('Snapshot manifest is malformed');
+    }
+    if (!manifest?.header || !Array.isArray(manifest.documents)) {
+      throw new SnapshotError('Snapshot manifest must contain a header and documents');
+    }
+    // Checked before the shape is used to locate the vectors; validate() covers the rest
+    if (!Number.isInteger(manifest.header.dimension) || manifest.header.dimension <= 0) {
+      throw new SnapshotError('Snapshot header must give a positive integer dimension');
+    }
+    if (!manifest.documents.every(document => Array.isArray(document?.chunks))) {
+      throw new SnapshotError('Snapshot documents need a chunks array');
+    }
+
+    const { dimension } = manifest.header;
+    const chunkCount = manifest.documents.reduce((sum, document) => sum + document.chunks.length, 0);
+    if (body.length - manifestEnd !== chunkCount * dimension * 4) {
+      throw new SnapshotError(`Snapshot holds ${body.length - manifestEnd} bytes of vectors, expected ${chunkCount * dimension * 4}`);
+    }
+
+    let offset = manifestEnd;
+    return {
+      header: manifest.header,
+      documents: manifest.documents.map(document => ({
+        ...document,
+        chunks: document.chunks.map(chunk => {
+          const embedding = new Array<number>(dimension);
+          for (let i = 0; i < dimension; i++, offset += 4) {
+            embedding[i] = body.readFloatLE(offset);
+          }
+          return { ...chunk, embedding };
+        })
+      }))
+    };
+  }
+
+  private validate(snapshot: Snapshot): void {
+    const { header, documents } = snapshot;
+
+    if (header.version !== SNAPSHOT_VERSION) {
+      throw new SnapshotError(`Unsupported snapshot version ${header.version}`);
+    }
+    if (typeof header.model !== 'string' || !Number.isInteger(header.dimension) || header.dimension <= 0) {
+      throw new SnapshotError('Snapshot header must name the embedding model and dimension');
+    }
+
+    const chunkCount = documents.reduce((sum, document) => sum + (document.chunks?.length ?? 0), 0);
+    if (documents.length !== header.document_count || chunkCount !== header.chunk_count) {
+      throw new SnapshotError(
+        `Snapshot header lists ${header.document_count} documents and ${header.chunk_count} chunks, ` +
+        `but it contains ${documents.length} and ${chunkCount}`
+      );
+    }
+
+    const ids = new Set<string>();
+    const chunkIds = new Set<string>();
+    for (const document of documents) {
+      if (typeof document.id !== 'string' || typeof document.content !== 'string' ||
+        !document.metadata || typeof document.metadata !== 'object' || !Array.isArray(document.chunks)) {
+        throw new SnapshotError('Snapshot documents need an id, content, metadata and chunks');
+      }
+      if (ids.has(document.id)) {
+        throw new SnapshotError(`Document ${document.id} appears more than once in snapshot`);
+      }
+      ids.add(document.id);
+
+      for (const chunk of document.chunks) {
+        if (!isValidChunk(chunk)) {
+          throw new SnapshotError(
+            `Chunks of document ${document.id} need an id, content, a chunk_index and ordered offsets`
+          );
+        }
+        if (chunkIds.has(chunk.id)) {
+          throw new SnapshotError(`Chunk ${chunk.id} appears more than once in snapshot`);
+        }
+        chunkIds.add(chunk.id);
+
+        if (!Array.isArray(chunk.embedding) || chunk.embedding.length !== header.dimension ||
+          !chunk.embedding.every(value => Number.isFinite(value))) {
+          throw new SnapshotError(`Chunk ${chunk.id} does not have a valid ${header.dimension}-dimensional embedding`);
+        }
+      }
+    }
+  }
+
+  private checksum(data: Buffer): Buffer {
+    return createHash('sha256').update(data).digest();
+  }
+}
+
+function isValidChunk(chunk: SnapshotChunk): boolean {
+  return typeof chunk?.id === 'string'
+    && typeof chunk.content === 'string'
+    && Number.isInteger(chunk.chunk_index) && chunk.chunk_index >= 0
+    && Number.isInteger(chunk.start_offset) && Number.isInteger(chunk.end_offset)
+    && chunk.start_offset >= 0 && chunk.start_offset <= chunk.end_offset
+    && (chunk.heading === undefined || typeof chunk.heading === 'string');
+}
+
+export const snapshotService = new SnapshotService();
@@ -1,11 +1,28 @@
 import { db } from '@/lib/db';
+import { HNSWIndex, HNSWOptions } from './hnsw-index';
+import { BM25Index } from './bm25-index';
+import {
+  DEFAULT_QUANTIZATION,
+  Float32VectorSet,
+  QuantizationMode,
+  QuantizationOptions,
+  VectorSet,
+  createVectorSet
+} from './quantization';
+import { MetadataFilter, compileFilter } from './metadata-filter';
 
-// Simple in-memory vector store for demonstration
-// In production, this would use Qdrant, Milvus, or similar
-interface VectorDocument {
+// Vector store backed by Prisma/SQLite (db/custom.db).
+// Documents, chunks and embeddings are persisted and loaded lazily into
+// memory on first access; similarity search runs against the in-memory copy.
+// In memory, vectors are held in typed arrays, optionally quantized (see
+// quantization.ts); full-precision vectors for re-scoring are then read back
+// from the database.
+// Each store holds one knowledge-base collection (see collections.ts).
+export interface VectorDocument {
   id: string;
   content: string;
-  embedding: number[];
+  // Id of the model that produced the chunk's vector; vectors are held by the store's VectorSet
+  embeddingModel: string;
   metadata: {
     title: string;
     url: string;
@@ -15,59 +32,664 @@ interface VectorDocument {
   };
 }
 
-class VectorStore {
+export interface VectorStoreOptions {
+  // Name of the collection whose documents this store holds
+  collection?: string;
+  // Id of the embedding model whose vectors this store holds; vectors from other models are rejected
+  model?: string;
+  dimension?: number;
+  persist?: boolean;
+  // Take over vectors stored before models were tracked if their dimension matches
+  adoptUntagged?: boolean;
+  // 'hnsw' uses the approximate index, 'exact' always scans every document
+  searchMode?: 'hnsw' | 'exact';
+  hnsw?: HNSWOptions;
+  quantization?: QuantizationOptions;
+}
+
+interface StoredDocument {
+  id: string;
+  content: string;
+  metadata: Record<string, any>;
+  chunkIds: string[];
+}
+
+// Chunk text and metadata without a vector, e.g. for re-embedding
+export type ChunkSource = Omit<VectorDocument, 'embeddingModel'>;
+
+export class EmbeddingMismatchError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'EmbeddingMismatchError';
+  }
+}
+
+export interface ChunkInput {
+  id: string;
+  chunkIndex: number;
+  content: string;
+  startOffset: number;
+  endOffset: number;
+  heading?: string;
+  embedding: number[];
+  // Model that produced the embedding; checked against the store's model when given
+  embeddingModel?: string;
+}
+
+export interface SimilaritySearchOptions {
+  // Force a brute-force scan, e.g. to measure HNSW recall against ground truth
+  exact?: boolean;
+  // Per-query override of the HNSW candidate list size
+  efSearch?: number;
+}
+
+export class VectorStore {
+  // Retrievable units (chunks), keyed by chunk id
   private documents: Map<string, VectorDocument> = new Map();
+  // Parent documents, keyed by document id
+  private parents: Map<string, StoredDocument> = new Map();
+  // Stored chunks without a vector from this store's model; not searchable until re-embedded
+  private unembedded: Map<string, ChunkSource> = new Map();
+  private collection: string;
+  private model: string;
   private dimension: number = 1536; // Default embedding dimension
+  private persist: boolean = true;
+  private adoptUntagged: boolean;
+  // Bumped on every write so a re-embedding job can tell which documents changed
+  private revision = 0;
+  private documentRevisions: Map<string, number> = new Map();
+  private pendingWrites = 0;
+  private loadPromise: Promise<void> | null = null;
+  private searchMode: 'hnsw' | 'exact';
+  private index: HNSWIndex;
+  private keywordIndex: BM25Index = new BM25Index();
+  private quantization: Required<QuantizationOptions>;
+  // Shared with the HNSW index, which adds and removes the vectors
+  private vectors: VectorSet;
+  // Full-precision copies of quantized vectors when there is no database to re-score from
+  private originals: Map<string, Float32Array> = new Map();
+
+  constructor(options: VectorStoreOptions = {}) {
+    this.collection = options.collection ?? 'default';
+    this.dimension = options.dimension ?? 1536;
+    this.model = options.model ?? `unknown-${this.dimension}`;
+    this.persist = options.persist ?? true;
+    this.adoptUntagged = options.adoptUntagged ?? true;
+    this.searchMode = options.searchMode ?? 'hnsw';
+    this.quantization = {
+      mode: options.quantization?.mode ?? DEFAULT_QUANTIZATION.mode,
+      pqSubvectors: options.quantization?.pqSubvectors ?? DEFAULT_QUANTIZATION.pqSubvectors,
+      pqTrainingSize: options.quantization?.pqTrainingSize ?? DEFAULT_QUANTIZATION.pqTrainingSize,
+      rescoreFactor: options.quantization?.rescoreFactor ?? DEFAULT_QUANTIZATION.rescoreFactor
+    };
+    this.vectors = createVectorSet(this.dimension, this.quantization);
+    this.index = new HNSWIndex(options.hnsw, this.vectors);
+  }
+
+  private async ensureLoaded(): Promise<void> {
+    if (!this.persist) return;
+    if (!this.loadPromise) {
+      this.loadPromise = this.loadFromDatabase();
+    }
+    await this.loadPromise;
+  }
+
+  private async loadFromDatabase(): Promise<void> {
+    try {
+      const documents = await db.knowledgeDocument.findMany({
+        where: { collection: this.collection },
+        include: {
+          chunks: {
+            include: { embeddings: { select: { id: true, model: true, vector: true, dimension: true } } },
+            orderBy: { chunkIndex: 'asc' }
+          }
+        }
+      });
+
+      const adoptedIds: string[] = [];
+      const vectors: Array<[string, Float32Array]> = [];
+      for (const document of documents) {
+        const chunkIds: string[] = [];
+        for (const chunk of document.chunks) {
+          const embedding = chunk.embeddings.find((candidate: any) => candidate.model === this.model)
+            ?? (this.adoptUntagged
+              ? chunk.embeddings.find((candidate: any) => candidate.model === '' && candidate.dimension === this.dimension)
+              : undefined);
+          const source: ChunkSource = { id: chunk.id, content: chunk.content, metadata: JSON.parse(chunk.metadata) };
+          chunkIds.push(chunk.id);
+
+          if (!embedding || embedding.dimension !== this.dimension) {
+            this.unembedded.set(chunk.id, source);
+            continue;
+          }
+          if (embedding.model === '') adoptedIds.push(embedding.id);
+
+          this.documents.set(chunk.id, { ...source, embeddingModel: this.model });
+          vectors.push([chunk.id, this.decodeEmbedding(embedding.vector)]);
+        }
+
+        this.parents.set(document.id, {
+          id: document.id,
+          content: document.content,
+          metadata: JSON.parse(document.metadata),
+          chunkIds
+        });
+      }
+
+      for (const [id, vector] of vectors) {
+        this.index.add(id, vector);
+        this.keywordIndex.add(id, this.documents.get(id)!.content);
+      }
+
+      if (adoptedIds.length > 0) {
+        await db.chunkEmbedding.updateMany({ where: { id: { in: adoptedIds } }, data: { model: this.model } });
+      }
+
+      console.log(`Vector store "${this.collection}" loaded ${this.parents.size} documents (${this.documents.size} chunks) from database`);
+      if (this.unembedded.size > 0) {
+        console.warn(
+          `Vector store "${this.collection}" has ${this.unembedded.size} chunks without ${this.model} embeddings; re-embed the collection to make them searchable`
+        );
+      }
+    } catch (error) {
+      // Keep serving from memory if the database is unavailable
+      console.error('Failed to load vector store from database, falling back to in-memory storage:', error);
+      this.persist = false;
+    }
+  }
 
-  constructor(dimension: number = 1536) {
-    this.dimension = dimension;
+  private encodeEmbedding(embedding: ArrayLike<number>): Buffer {
+    const floats = Float32Array.from(embedding);
+    return Buffer.from(floats.buffer, floats.byteOffset, floats.byteLength);
+  }
+
+  private decodeEmbedding(buffer: Uint8Array): Float32Array {
+    const copy = new Uint8Array(buffer);
+    return new Float32Array(copy.buffer, copy.byteOffset, copy.byteLength / 4);
+  }
+
+  private indexVector(id: string, embedding: number[]): void {
+    this.index.add(id, embedding);
+    if (this.vectors.mode !== 'none' && !this.persist) {
+      this.originals.set(id, Float32Array.from(embedding));
+    }
+  }
+
+  private assertCompatible(embedding: number[], model?: string): void {
+    if (model !== undefined && model !== this.model) {
+      throw new EmbeddingMismatchError(
+        `Embedding from model ${model} cannot be stored in collection "${this.collection}", which uses ${this.model}`
+      );
+    }
+    if (embedding.length !== this.dimension) {
+      throw new EmbeddingMismatchError(
+        `Embedding has dimension ${embedding.length}, but collection "${this.collection}" uses ${this.dimension} (${this.model})`
+      );
+    }
+  }
+
+  getModel(): { model: string; dimension: number } {
+    return { model: this.model, dimension: this.dimension };
+  }
+
+  getQuantization(): Required<QuantizationOptions> {
+    return { ...this.quantization };
+  }
+
+  isPersistent(): boolean {
+    return this.persist;
   }
 
   async addDocument(doc: {
     id: string;
     content: string;
     embedding: number[];
+    embeddingModel?: string;
     metadata: any;
   }): Promise<void> {
-    const vectorDoc: VectorDocument = {
-      id: doc.id,
-      content: doc.content,
-      embedding: doc.embedding,
+    await this.addDocumentChunks(
+      { id: doc.id, content: doc.content, metadata: doc.metadata },
+      [{
+        id: doc.id,
+        chunkIndex: 0,
+        content: doc.content,
+        startOffset: 0,
+        endOffset: doc.content.length,
+        embedding: doc.embedding,
+        embeddingModel: doc.embeddingModel
+      }]
+    );
+  }
+
+  // Stores a parent document together with its embedded chunks, replacing any
+  // previous version of the document
+  async addDocumentChunks(
+    document: { id: string; content: string; metadata: any },
+    chunks: ChunkInput[]
+  ): Promise<void> {
+    // Counted before the first await so a cutover never misses a write in flight
+    this.pendingWrites++;
+    try {
+      chunks.forEach(chunk => this.assertCompatible(chunk.embedding, chunk.embeddingModel));
+      await this.ensureLoaded();
+      await this.writeDocumentChunks(document, chunks);
+      this.documentRevisions.set(document.id, ++this.revision);
+    } finally {
+      this.pendingWrites--;
+    }
+  }
+
+  private async writeDocumentChunks(
+    document: { id: string; content: string; metadata: any },
+    chunks: ChunkInput[]
+  ): Promise<void> {
+    const documentMetadata = {
+      title: document.metadata.title || 'Untitled',
+      url: document.metadata.url || '',
+      source_type: document.metadata.source_type || 'document',
+      created_at: new Date().toISOString(),
+      ...document.metadata
+    };
+
+    const vectorDocs: VectorDocument[] = chunks.map(chunk => ({
+      id: chunk.id,
+      content: chunk.content,
+      embeddingModel: this.model,
       metadata: {
-        title: doc.metadata.title || 'Untitled',
-        url: doc.metadata.url || '',
-        source_type: doc.metadata.source_type || 'document',
-        created_at: new Date().toISOString(),
-        ...doc.metadata
+        ...documentMetadata,
+        document_id: document.id,
+        chunk_index: chunk.chunkIndex,
+        chunk_count: chunks.length,
+        start_offset: chunk.startOffset,
+        end_offset: chunk.endOffset,
+        ...(chunk.heading ? { heading: chunk.heading } : {})
       }
-    };
+    }));
+
+    if (this.persist) {
+      // Document ids are unique across collections
+      const existing = await db.knowledgeDocument.findUnique({
+        where: { id: document.id },
+        select: { collection: true }
+      });
+      if (existing && existing.collection !== this.collection) {
+        throw new Error(`Document ${document.id} already exists in collection "${existing.collection}"`);
+      }
+
+      await db.$transaction([
+        db.knowledgeDocument.deleteMany({ where: { id: document.id, collection: this.collection } }),
+        db.knowledgeDocument.create({
+          data: {
+            id: document.id,
+            collection: this.collection,
+            title: documentMetadata.title,
+            url: documentMetadata.url,
+            sourceType: documentMetadata.source_type,
+            content: document.content,
+            metadata: JSON.stringify(documentMetadata),
+            chunks: {
+              create: vectorDocs.map((vectorDoc, index) => ({
+                id: vectorDoc.id,
+                chunkIndex: chunks[index].chunkIndex,
+                content: vectorDoc.content,
+                startOffset: chunks[index].startOffset,
+                endOffset: chunks[index].endOffset,
+                metadata: JSON.stringify(vectorDoc.metadata),
+                embeddings: {
+                  create: {
+                    model: this.model,
+                    vector: this.encodeEmbedding(chunks[index].embedding),
+                    dimension: chunks[index].embedding.length
+                  }
+                }
+              }))
+            }
+          }
+        })
+      ]);
+    }
+
+    this.removeFromMemory(document.id);
+    vectorDocs.forEach((vectorDoc, index) => {
+      this.documents.set(vectorDoc.id, vectorDoc);
+      this.indexVector(vectorDoc.id, chunks[index].embedding);
+      this.keywordIndex.add(vectorDoc.id, vectorDoc.content);
+    });
+    this.parents.set(document.id, {
+      id: document.id,
+      content: document.content,
+      metadata: documentMetadata,
+      chunkIds: vectorDocs.map(vectorDoc => vectorDoc.id)
+    });
+  }
+
+  // Replaces a document's own metadata without re-embedding it; chunk metadata is left as it was
+  async updateDocumentMetadata(documentId: string, metadata: Record<string, any>): Promise<boolean> {
+    this.pendingWrites++;
+    try {
+      await this.ensureLoaded();
+
+      const parent = this.parents.get(documentId);
+      if (!parent) return false;
+
+      if (this.persist) {
+        await db.knowledgeDocument.updateMany({
+          where: { id: documentId, collection: this.collection },
+          data: { metadata: JSON.stringify(metadata) }
+        });
+      }
+
+      parent.metadata = metadata;
+      this.documentRevisions.set(documentId, ++this.revision);
+      return true;
+    } finally {
+      this.pendingWrites--;
+    }
+  }
+
+  // Adds vectors for chunks that are already stored, without rewriting the
+  // document. Used to fill a store for a new model during re-embedding.
+  async addEmbeddings(
+    document: { id: string; content: string; metadata: Record<string, any> },
+    chunks: Array<ChunkSource & { embedding: number[]; embeddingModel?: string }>
+  ): Promise<void> {
+    chunks.forEach(chunk => this.assertCompatible(chunk.embedding, chunk.embeddingModel));
+    await this.ensureLoaded();
+
+    if (this.persist) {
+      await db.$transaction([
+        db.chunkEmbedding.deleteMany({ where: { chunkId: { in: chunks.map(chunk => chunk.id) }, model: this.model } }),
+        db.chunkEmbedding.createMany({
+          data: chunks.map(chunk => ({
+            chunkId: chunk.id,
+            model: this.model,
+            vector: this.encodeEmbedding(chunk.embedding),
+            dimension: chunk.embedding.length
+          }))
+        })
+      ]);
+    }
+
+    this.removeFromMemory(document.id);
+    for (const chunk of chunks) {
+      const vectorDoc: VectorDocument = {
+        id: chunk.id,
+        content: chunk.content,
+        embeddingModel: this.model,
+        metadata: chunk.metadata
+      };
+      this.documents.set(vectorDoc.id, vectorDoc);
+      this.indexVector(vectorDoc.id, chunk.embedding);
+      this.keywordIndex.add(vectorDoc.id, vectorDoc.content);
+    }
+    this.parents.set(document.id, {
+      id: document.id,
+      content: document.content,
+      metadata: document.metadata,
+      chunkIds: chunks.map(chunk => chunk.id)
+    });
+  }
+
+  // Drops the in-memory copy of a document without touching the database
+  forgetDocument(documentId: string): void {
+    this.removeFromMemory(documentId);
+  }
+
+  // Deletes persisted vectors of every other model, e.g. after a cutover
+  async purgeOtherEmbeddings(): Promise<number> {
+    if (!this.persist) return 0;
+
+    const { count } = await db.chunkEmbedding.deleteMany({
+      where: { model: { not: this.model }, chunk: { document: { collection: this.collection } } }
+    });
+    return count;
+  }
+
+  // Deletes this store's persisted vectors, e.g. when a re-embedding job is abandoned
+  async purgeEmbeddings(): Promise<number> {
+    if (!this.persist) return 0;
+
+    const { count } = await db.chunkEmbedding.deleteMany({
+      where: { model: this.model, chunk: { document: { collection: this.collection } } }
+    });
+    return count;
+  }
+
+  private removeFromMemory(documentId: string): boolean {
+    const parent = this.parents.get(documentId);
+    const chunkIds = parent ? parent.chunkIds : [documentId];
+    let removed = false;
+
+    for (const chunkId of chunkIds) {
+      this.index.remove(chunkId);
+      this.keywordIndex.remove(chunkId);
+      this.unembedded.delete(chunkId);
+      this.originals.delete(chunkId);
+      removed = this.documents.delete(chunkId) || removed;
+    }
+
+    return this.parents.delete(documentId) || removed;
+  }
+
+  // Write counter and number of writes still in progress
+  getWriteState(): { revision: number; pendingWrites: number } {
+    return { revision: this.revision, pendingWrites: this.pendingWrites };
+  }
+
+  // Revision of the last write to a document; 0 for documents loaded from the database
+  getDocumentRevision(documentId: string): number {
+    return this.documentRevisions.get(documentId) ?? 0;
+  }
+
+  // Every chunk of a document in order, including chunks without a vector for this model
+  async getChunkSources(documentId: string): Promise<ChunkSource[]> {
+    await this.ensureLoaded();
 
-    this.documents.set(doc.id, vectorDoc);
+    const parent = this.parents.get(documentId);
+    if (!parent) return [];
+
+    return parent.chunkIds
+      .map(chunkId => {
+        const chunk = this.documents.get(chunkId);
+        if (chunk) return { id: chunk.id, content: chunk.content, metadata: chunk.metadata };
+        return this.unembedded.get(chunkId);
+      })
+      .filter((chunk): chunk is ChunkSource => !!chunk);
   }
 
   async similaritySearch(
     queryEmbedding: number[],
     limit: number = 5,
-    filters?: Record<string, any>
+    filters?: MetadataFilter,
+    options: SimilaritySearchOptions = {}
   ): Promise<Array<VectorDocument & { score: number }>> {
-    const results: Array<VectorDocument & { score: number }> = [];
-
-    for (const doc of this.documents.values()) {
-      // Apply filters if provided
-      if (filters) {
-        let matchesFilters = true;
-        for (const [key, value] of Object.entries(filters)) {
-          if (doc.metadata[key] !== value) {
-            matchesFilters = false;
-            break;
-          }
-        }
-        if (!matchesFilters) continue;
+    await this.ensureLoaded();
+
+    if (queryEmbedding.length !== this.dimension) {
+      throw new EmbeddingMismatchError(
+        `Query embedding has dimension ${queryEmbedding.length}, but collection "${this.collection}" uses ${this.dimension} (${this.model})`
+      );
+    }
+
+    // Filters are validated and applied before any similarity is computed
+    const matches = compileFilter(filters);
+    const hasFilters = !!filters && Object.keys(filters).length > 0;
+    let allowedIds: Set<string> | undefined;
+
+    if (hasFilters) {
+      allowedIds = new Set();
+      for (const doc of this.documents.values()) {
+        if (matches(doc.metadata)) allowedIds.add(doc.id);
+      }
+    }
+
+    const candidateIds = allowedIds ?? this.documents.keys();
+    const candidateCount = allowedIds ? allowedIds.size : this.documents.size;
+    // Quantized scores only shortlist candidates; the shortlist is re-scored at full precision
+    const quantized = this.vectors.mode !== 'none';
+    const shortlist = quantized ? limit * this.quantization.rescoreFactor : limit;
+
+    let candidates: Array<{ id: string; score: number }>;
+    // Small candidate sets are cheaper to scan than to search through the graph
+    if (options.exact || this.searchMode === 'exact' || candidateCount <= Math.max(limit * 10, 200)) {
+      candidates = this.exactSearch(queryEmbedding, shortlist, candidateIds);
+    } else {
+      candidates = this.index.search(
+        queryEmbedding,
+        shortlist,
+        // Unset falls back to the index's efSearch; the index widens it to the shortlist
+        options.efSearch,
+        allowedIds ? id => allowedIds!.has(id) : undefined
+      ).filter(candidate => this.documents.has(candidate.id));
+    }
+
+    if (quantized) {
+      candidates = await this.rescore(queryEmbedding, candidates);
+    }
+
+    return candidates
+      .slice(0, limit)
+      .map(candidate => ({ ...this.documents.get(candidate.id)!, score: candidate.score }));
+  }
+
+  private async rescore(
+    queryEmbedding: number[],
+    candidates: Array<{ id: string; score: number }>
+  ): Promise<Array<{ id: string; score: number }>> {
+    let vectors: Map<string, Float32Array>;
+    try {
+      vectors = await this.getFullPrecisionVectors(candidates.map(candidate => candidate.id));
+    } catch (error) {
+      console.error('Failed to load full-precision vectors, keeping quantized scores:', error);
+      return candidates;
+    }
+
+    return candidates
+      .map(candidate => {
+        const vector = vectors.get(candidate.id);
+        return vector ? { id: candidate.id, score: this.cosineSimilarity(queryEmbedding, vector) } : candidate;
+      })
+      .sort((a, b) => b.score - a.score);
+  }
+
+  private async getFullPrecisionVectors(ids: string[]): Promise<Map<string, Float32Array>> {
+    const vectors = new Map<string, Float32Array>();
+    if (ids.length === 0) return vectors;
+
+    if (this.vectors instanceof Float32VectorSet) {
+      for (const id of ids) {
+        const vector = this.vectors.get(id);
+        if (vector) vectors.set(id, vector);
       }
+    } else if (this.persist) {
+      const rows = await db.chunkEmbedding.findMany({
+        where: { chunkId: { in: ids }, model: this.model },
+        select: { chunkId: true, vector: true }
+      });
+      for (const row of rows) {
+        vectors.set(row.chunkId, this.decodeEmbedding(row.vector));
+      }
+    } else {
+      for (const id of ids) {
+        const vector = this.originals.get(id);
+        if (vector) vectors.set(id, vector);
+      }
+    }
 
-      // Calculate cosine similarity
-      const score = this.cosineSimilarity(queryEmbedding, doc.embedding);
-      results.push({ ...doc, score });
+    return vectors;
+  }
+
+  // Full-precision vectors of the given chunks, e.g. for snapshots
+  async getEmbeddings(chunkIds: string[]): Promise<Map<string, number[]>> {
+    await this.ensureLoaded();
+
+    const vectors = await this.getFullPrecisionVectors(chunkIds.filter(id => this.documents.has(id)));
+    return new Map(Array.from(vectors, ([id, vector]) => [id, Array.from(vector)]));
+  }
+
+  // Returns the best-matching chunk of each document, one result per document
+  async searchBestChunks(
+    queryEmbedding: number[],
+    limit: number = 5,
+    filters?: MetadataFilter,
+    options: SimilaritySearchOptions = {}
+  ): Promise<Array<VectorDocument & { score: number }>> {
+    const chunkResults = await this.similaritySearch(queryEmbedding, limit * 3, filters, options);
+    return this.bestPerDocument(chunkResults, limit);
+  }
+
+  // BM25 lexical search; like searchBestChunks, returns one chunk per document
+  async keywordSearch(
+    query: string,
+    limit: number = 5,
+    filters?: MetadataFilter
+  ): Promise<Array<VectorDocument & { score: number }>> {
+    await this.ensureLoaded();
+
+    const matchesMetadata = compileFilter(filters);
+    const matches = this.keywordIndex.search(query, limit * 3, id => {
+      const doc = this.documents.get(id);
+      return !!doc && matchesMetadata(doc.metadata);
+    });
+
+    const chunkResults = matches.map(match => ({ ...this.documents.get(match.id)!, score: match.score }));
+    return this.bestPerDocument(chunkResults, limit);
+  }
+
+  private bestPerDocument(
+    chunkResults: Array<VectorDocument & { score: number }>,
+    limit: number
+  ): Array<VectorDocument & { score: number }> {
+    const bestByDocument = new Map<string, VectorDocument & { score: number }>();
+
+    for (const result of chunkResults) {
+      const documentId = result.metadata.document_id || result.id;
+      if (!bestByDocument.has(documentId)) {
+        bestByDocument.set(documentId, result);
+      }
+    }
+
+    return Array.from(bestByDocument.values()).slice(0, limit);
+  }
+
+  // Widens a chunk to include its neighbours, taking the text from the parent
+  // document so overlapping regions are not repeated
+  async expandChunk(chunkId: string, window: number = 1): Promise<VectorDocument | undefined> {
+    const neighbors = await this.getNeighborChunks(chunkId, window);
+    const chunk = this.documents.get(chunkId);
+    if (!chunk || neighbors.length <= 1) return chunk;
+
+    const parent = this.parents.get(chunk.metadata.document_id);
+    if (!parent) return chunk;
+
+    const startOffset = Math.min(...neighbors.map(neighbor => neighbor.metadata.start_offset ?? 0));
+    const endOffset = Math.max(...neighbors.map(neighbor => neighbor.metadata.end_offset ?? parent.content.length));
+
+    return {
+      ...chunk,
+      content: parent.content.slice(startOffset, endOffset),
+      metadata: {
+        ...chunk.metadata,
+        start_offset: startOffset,
+        end_offset: endOffset,
+        expanded_chunk_ids: neighbors.map(neighbor => neighbor.id)
+      }
+    };
+  }
+
+  private exactSearch(
+    queryEmbedding: number[],
+    limit: number,
+    candidateIds: Iterable<string>
+  ): Array<{ id: string; score: number }> {
+    const results: Array<{ id: string; score: number }> = [];
+    const score = this.vectors.scorer(queryEmbedding);
+
+    for (const id of candidateIds) {
+      if (!this.documents.has(id) || !this.vectors.has(id)) continue;
+
+      // Cosine similarity, approximate for quantized vectors
+      results.push({ id, score: score(id) });
     }
 
     // Sort by score and return top results
@@ -76,7 +698,16 @@ class VectorStore {
       .slice(0, limit);
   }
 
-  private cosineSimilarity(a: number[], b: number[]): number {
+  setSearchParams(params: { searchMode?: 'hnsw' | 'exact'; efSearch?: number }): void {
+    if (params.searchMode) {
+      this.searchMode = params.searchMode;
+    }
+    if (params.efSearch !== undefined) {
+      this.index.setEfSearch(params.efSearch);
+    }
+  }
+
+  private cosineSimilarity(a: ArrayLike<number>, b: ArrayLike<number>): number {
     if (a.length !== b.length) return 0;
 
     let dotProduct = 0;
@@ -94,63 +725,149 @@ class VectorStore {
   }
 
   async deleteDocument(id: string): Promise<boolean> {
-    return this.documents.delete(id);
+    this.pendingWrites++;
+    try {
+      await this.ensureLoaded();
+
+      if (this.persist) {
+        await db.knowledgeDocument.deleteMany({ where: { id, collection: this.collection } });
+      }
+
+      this.revision++;
+      this.documentRevisions.delete(id);
+      return this.removeFromMemory(id);
+    } finally {
+      this.pendingWrites--;
+    }
+  }
+
+  // Ids among the given ones that belong to a document of another collection;
+  // writing them here would fail
+  async findForeignDocuments(ids: string[]): Promise<string[]> {
+    if (!this.persist || ids.length === 0) return [];
+    const documents = await db.knowledgeDocument.findMany({
+      where: { id: { in: ids }, collection: { not: this.collection } },
+      select: { id: true }
+    });
+    return documents.map((document: { id: string }) => document.id);
   }
 
   async clear(): Promise<void> {
+    await this.ensureLoaded();
+
+    if (this.persist) {
+      await db.knowledgeDocument.deleteMany({ where: { collection: this.collection } });
+    }
+
+    this.revision++;
+    this.documentRevisions.clear();
     this.documents.clear();
+    this.parents.clear();
+    this.unembedded.clear();
+    this.index.clear();
+    this.keywordIndex.clear();
+    this.originals.clear();
   }
 
   async getDocument(id: string): Promise<VectorDocument | undefined> {
+    await this.ensureLoaded();
     return this.documents.get(id);
   }
 
   async getAllDocuments(): Promise<VectorDocument[]> {
+    await this.ensureLoaded();
     return Array.from(this.documents.values());
   }
 
-  async getStats(): Promise<{
-    totalDocuments: number;
-    dimension: number;
-    memoryUsage: number;
-  }> {
+  async getParentDocument(documentId: string): Promise<(StoredDocument & { chunks: VectorDocument[] }) | undefined> {
+    await this.ensureLoaded();
+
+    const parent = this.parents.get(documentId);
+    if (!parent) return undefined;
+
     return {
-      totalDocuments: this.documents.size,
-      dimension: this.dimension,
-      memoryUsage: process.memoryUsage ? process.memoryUsage().heapUsed : 0
+      ...parent,
+      chunks: parent.chunkIds
+        .map(chunkId => this.documents.get(chunkId))
+        .filter((chunk): chunk is VectorDocument => !!chunk)
     };
   }
-}
 
-// Singleton instance
-export const vectorStore = new VectorStore();
+  async getParentDocuments(): Promise<StoredDocument[]> {
+    await this.ensureLoaded();
+    return Array.from(this.parents.values());
+  }
 
-// Mock embedding generator - in production, use OpenAI, Cohere, or similar
-export class MockEmbeddingGenerator {
-  async generateEmbedding(text: string): Promise<number[]> {
-    // Generate deterministic mock embeddings based on text hash
-    const hash = this.simpleHash(text);
-    const embedding: number[] = [];
-    
-    for (let i = 0; i < 1536; i++) {
-      // Generate pseudo-random but deterministic values
-      const seed = hash + i;
-      const value = Math.sin(seed) * 0.5 + 0.5; // Normalize to [0, 1]
-      embedding.push(value);
-    }
-    
-    return embedding;
+  // Returns the chunk plus up to `window` chunks on each side, in document order
+  async getNeighborChunks(chunkId: string, window: number = 1): Promise<VectorDocument[]> {
+    await this.ensureLoaded();
+
+    const chunk = this.documents.get(chunkId);
+    if (!chunk) return [];
+
+    const parent = this.parents.get(chunk.metadata.document_id);
+    if (!parent) return [chunk];
+
+    const position = parent.chunkIds.indexOf(chunkId);
+    return parent.chunkIds
+      .slice(Math.max(0, position - window), position + window + 1)
+      .map(id => this.documents.get(id))
+      .filter((neighbor): neighbor is VectorDocument => !!neighbor);
   }
 
-  private simpleHash(str: string): number {
-    let hash = 0;
-    for (let i = 0; i < str.length; i++) {
-      const char = str.charCodeAt(i);
-      hash = ((hash << 5) - hash) + char;
-      hash = hash & hash; // Convert to 32-bit integer
+  // Strings are counted at two bytes per character, metadata by its JSON size
+  private textMemoryBytes(): number {
+    let chars = 0;
+    for (const chunk of this.documents.values()) {
+      chars += chunk.content.length + JSON.stringify(chunk.metadata).length;
+    }
+    for (const chunk of this.unembedded.values()) {
+      chars += chunk.content.length + JSON.stringify(chunk.metadata).length;
     }
-    return Math.abs(hash);
+    for (const parent of this.parents.values()) {
+      chars += parent.content.length + JSON.stringify(parent.metadata).length;
+    }
+    return chars * 2;
   }
-}
 
-export const embeddingGenerator = new MockEmbeddingGenerator();
\ No newline at end of file
+  async getStats(): Promise<{
+    collection: string;
+    totalDocuments: number;
+    totalChunks: number;
+    unembeddedChunks: number;
+    model: string;
+    dimension: number;
+    // Estimated bytes held by this store
+    memoryUsage: number;
+    memory: { vectors: number; graph: number; keywordIndex: number; text: number };
+    quantization: QuantizationMode;
+    persistent: boolean;
+    searchMode: 'hnsw' | 'exact';
+    index: { size: number; m: number; efConstruction: number; efSearch: number };
+  }> {
+    await this.ensureLoaded();
+
+    const memory = {
+      vectors: this.vectors.memoryBytes() +
+        Array.from(this.originals.values()).reduce((sum, vector) => sum + vector.byteLength, 0),
+      graph: this.index.memoryBytes(),
+      keywordIndex: this.keywordIndex.memoryBytes(),
+      text: this.textMemoryBytes()
+    };
+
+    return {
+      collection: this.collection,
+      totalDocuments: this.parents.size,
+      totalChunks: this.documents.size,
+      unembeddedChunks: this.unembedded.size,
+      model: this.model,
+      dimension: this.dimension,
+      memoryUsage: Object.values(memory).reduce((sum, bytes) => sum + bytes, 0),
+      memory,
+      quantization: this.vectors.mode,
+      persistent: this.persist,
+      searchMode: this.searchMode,
+      index: { size: this.index.size, ...this.index.getParams() }
+    };
+  }
+}
@@ -0,0 +1,113 @@
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import type { CreateChatCompletionBody } from 'z-ai-web-dev-sdk';
+
+// Direct access to the Z.ai API for calls z-ai-web-dev-sdk does not cover
+// (embeddings, streamed completions). Reads the same .z-ai-config file as the SDK.
+
+export interface ZAIConnection {
+  baseUrl: string;
+  headers: Record<string, string>;
+}
+
+let connection: Promise<ZAIConnection> | null = null;
+
+export function loadZAIConnection(): Promise<ZAIConnection> {
+  if (!connection) {
+    connection = readZAIConfig().catch(error => {
+      connection = null;
+      throw error;
+    });
+  }
+  return connection;
+}
+
+async function readZAIConfig(): Promise<ZAIConnection> {
+  const configPaths = [
+    path.join(process.cwd(), '.z-ai-config'),
+    path.join(os.homedir(), '.z-ai-config'),
+    '/etc/.z-ai-config'
+  ];
+
+  for (const filePath of configPaths) {
+    try {
+      const config = JSON.parse(await fs.readFile(filePath, 'utf-8'));
+      if (config.baseUrl && config.apiKey) {
+        const headers: Record<string, string> = {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${config.apiKey}`,
+          'X-Z-AI-From': 'Z'
+        };
+        if (config.chatId) headers['X-Chat-Id'] = config.chatId;
+        if (config.userId) headers['X-User-Id'] = config.userId;
+        return { baseUrl: config.baseUrl.replace(/\/+$/, ''), headers };
+      }
+    } catch (error: any) {
+      if (error?.code !== 'ENOENT') {
+        console.error(`Error reading Z.ai config at ${filePath}:`, error);
+      }
+    }
+  }
+
+  throw new Error('Z.ai configuration not found; create .z-ai-config in the project, home directory or /etc');
+}
+
+// Yields completion text deltas as they arrive. If the API answers with a
+// regular JSON body instead of an event stream, the whole content is yielded once.
+export async function* streamChatCompletion(
+  body: CreateChatCompletionBody,
+  signal?: AbortSignal
+): AsyncGenerator<string> {
+  const { baseUrl, headers } = await loadZAIConnection();
+  const response = await fetch(`${baseUrl}/chat/completions`, {
+    method: 'POST',
+    headers: { ...headers, 'Accept': 'text/event-stream' },
+    body: JSON.stringify({ ...body, stream: true }),
+    signal
+  });
+
+  if (!response.ok) {
+    const errorBody = await response.text();
+    throw new Error(`API request failed with status ${response.status}: ${errorBody}`);
+  }
+
+  if (!response.body || !(response.headers.get('content-type') || '').includes('text/event-stream')) {
+    const result = await response.json();
+    const content = result.choices?.[0]?.message?.content;
+    if (content) yield content;
+    return;
+  }
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      buffer += decoder.decode(value, { stream: true });
+
+      const lines = buffer.split('\n');
+      buffer = lines.pop() || '';
+
+      for (const line of lines) {
+        const trimmed = line.trim();
+        if (!trimmed.startsWith('data:')) continue;
+
+        const data = trimmed.slice(5).trim();
+        if (data === '[DONE]') return;
+
+        try {
+          const delta = JSON.parse(data).choices?.[0]?.delta?.content;
+          if (delta) yield delta;
+        } catch {
+          // Ignore keep-alive or malformed lines
+        }
+      }
+    }
+  } finally {
+    reader.releaseLock();
+  }
+}